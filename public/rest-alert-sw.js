@@ -0,0 +1,22 @@
+// Shows rest and interval alerts. Mobile browsers only display notifications
+// that come through a service worker; this one does nothing else, so the app
+// itself is never cached or served from here.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+// Tapping the alert brings the workout back to the front.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => 'focus' in client);
+      return existing ? existing.focus() : self.clients.openWindow('/');
+    })
+  );
+});
@@ -4,6 +4,8 @@ import { Login } from './components/auth/Login';
 import { Signup } from './components/auth/Signup';
 import { ClientDashboard } from './components/client/ClientDashboard';
 import { SessionLogging } from './components/client/SessionLogging';
+import { SessionLogDetail } from './components/shared/SessionLogDetail';
+import { ClientHistory } from './components/client/ClientHistory';
 import { ClientOnboarding } from './components/client/ClientOnboarding';
 import { PTDashboard } from './components/pt/PTDashboard';
 import { RoutineBuilder } from './components/pt/RoutineBuilder';
@@ -18,6 +20,13 @@ import { PTSettings } from './components/pt/PTSettings';
 import { PTAccountDetails } from './components/pt/PTAccountDetails';
 import { PTExerciseLibrary } from './components/pt/PTExerciseLibrary';
 import { PTExerciseDetail } from './components/pt/PTExerciseDetail';
+import { PTProgressionSettings } from './components/pt/PTProgressionSettings';
+import { PTContentSources } from './components/pt/PTContentSources';
+import { PTRoutineTemplates } from './components/pt/PTRoutineTemplates';
+import { PTProgramBuilder } from './components/pt/PTProgramBuilder';
+import { PTClientRoutines } from './components/pt/PTClientRoutines';
+import { ActiveSession, startOutboxSync } from './utils/workoutOutbox';
+import { getWeightUnit } from './utils/units';
 
 type Screen =
   | 'login'
@@ -27,24 +36,37 @@ type Screen =
   | 'client-session'
   | 'client-activity'
   | 'client-progress'
+  | 'client-history'
+  | 'client-session-detail'
   | 'pt-onboarding'
   | 'pt-dashboard'
   | 'pt-routine-builder'
+  | 'pt-template-builder'
+  | 'pt-program-builder'
+  | 'pt-client-routines'
   | 'pt-calendar'
   | 'pt-activity'
+  | 'pt-session-detail'
   | 'pt-settings'
   | 'pt-settings-details'
   | 'pt-settings-exercises'
-  | 'pt-settings-exercise-detail';
+  | 'pt-settings-exercise-detail'
+  | 'pt-settings-progression'
+  | 'pt-settings-content'
+  | 'pt-settings-templates';
 
 export default function App() {
   const [screen, setScreen] = useState<Screen>('login');
   const [user, setUser] = useState<any>(null);
   const [token, setToken] = useState<string>('');
   const [activeRoutine, setActiveRoutine] = useState<any>(null);
+  const [resumeSession, setResumeSession] = useState<ActiveSession | null>(null);
   const [editingRoutineId, setEditingRoutineId] = useState<string | null>(null);
   const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
   const [selectedExerciseId, setSelectedExerciseId] = useState<string | null>(null);
+  const [selectedSessionLogId, setSelectedSessionLogId] = useState<string | null>(null);
+  const [sessionDetailReturnScreen, setSessionDetailReturnScreen] = useState<Screen>('client-progress');
+  const [routineBuilderReturnScreen, setRoutineBuilderReturnScreen] = useState<Screen>('pt-dashboard');
   const [needsOnboarding, setNeedsOnboarding] = useState(false);
 
   useEffect(() => {
@@ -78,6 +100,14 @@ export default function App() {
     };
   }, []);
 
+  useEffect(() => {
+    if (user?.role !== 'client' || !token) {
+      return;
+    }
+
+    return startOutboxSync(token);
+  }, [user?.role, token]);
+
   const loadSession = async (session: { access_token: string }) => {
     const accessToken = session.access_token;
     if (!accessToken) {
@@ -140,31 +170,54 @@ export default function App() {
     setSelectedExerciseId(null);
   };
 
-  const handleStartWorkout = (routine: any) => {
+  const handleStartWorkout = (routine: any | null, session?: ActiveSession | null) => {
     setActiveRoutine(routine);
+    setResumeSession(session ?? null);
     setScreen('client-session');
   };
 
   const handleWorkoutComplete = () => {
     setActiveRoutine(null);
+    setResumeSession(null);
     setScreen('client-dashboard');
   };
 
   const handleCreateRoutine = (clientId?: string) => {
     setEditingRoutineId(null);
     setSelectedClientId(clientId || null);
+    setRoutineBuilderReturnScreen(screen);
     setScreen('pt-routine-builder');
   };
 
   const handleEditRoutine = (routineId: string) => {
     setEditingRoutineId(routineId);
+    setRoutineBuilderReturnScreen(screen);
     setScreen('pt-routine-builder');
   };
 
-  const handleRoutineSuccess = () => {
+  const handleViewClientRoutines = (clientId: string) => {
+    setSelectedClientId(clientId);
+    setScreen('pt-client-routines');
+  };
+
+  const handlePlanProgram = (clientId: string) => {
+    setSelectedClientId(clientId);
+    setScreen('pt-program-builder');
+  };
+
+  // The client's routine list needs the client kept; the dashboard doesn't.
+  const closeRoutineBuilder = () => {
     setEditingRoutineId(null);
-    setSelectedClientId(null);
-    setScreen('pt-dashboard');
+    if (routineBuilderReturnScreen !== 'pt-client-routines') {
+      setSelectedClientId(null);
+    }
+    setScreen(routineBuilderReturnScreen);
+  };
+
+  const handleViewSession = (sessionLogId: string) => {
+    setSelectedSessionLogId(sessionLogId);
+    setSessionDetailReturnScreen(screen);
+    setScreen(user?.role === 'pt' ? 'pt-session-detail' : 'client-session-detail');
   };
 
   const handleNavigate = (targetScreen: string) => {
@@ -172,6 +225,12 @@ export default function App() {
     setScreen(targetScreen as Screen);
   };
 
+  const handleUnitPreferenceChange = (prefersMetricUnits: boolean) => {
+    setUser((current: any) => ({ ...current, prefers_metric_units: prefersMetricUnits }));
+  };
+
+  const weightUnit = getWeightUnit(user);
+
   // Render appropriate screen
   if (screen === 'login') {
     return (
@@ -215,7 +274,9 @@ export default function App() {
         <ClientDashboard
           user={user}
           token={token}
+          weightUnit={weightUnit}
           onStartWorkout={handleStartWorkout}
+          onUnitPreferenceChange={handleUnitPreferenceChange}
           onLogout={handleLogout}
         />
         <BottomNav
@@ -231,7 +292,9 @@ export default function App() {
     return (
       <SessionLogging
         routine={activeRoutine}
+        resumeSession={resumeSession}
         token={token}
+        weightUnit={weightUnit}
         onBack={() => setScreen('client-dashboard')}
         onComplete={handleWorkoutComplete}
       />
@@ -254,6 +317,8 @@ export default function App() {
           token={token}
           onCreateRoutine={handleCreateRoutine}
           onEditRoutine={handleEditRoutine}
+          onPlanProgram={handlePlanProgram}
+          onViewRoutines={handleViewClientRoutines}
           onViewCalendar={() => setScreen('pt-calendar')}
           onLogout={handleLogout}
         />
@@ -272,12 +337,54 @@ export default function App() {
         token={token}
         routineId={editingRoutineId}
         initialClientId={selectedClientId}
+        weightUnit={weightUnit}
+        onBack={closeRoutineBuilder}
+        onSuccess={closeRoutineBuilder}
+      />
+    );
+  }
+
+  if (screen === 'pt-client-routines' && selectedClientId) {
+    return (
+      <PTClientRoutines
+        token={token}
+        clientId={selectedClientId}
+        onBack={() => {
+          setSelectedClientId(null);
+          setScreen('pt-dashboard');
+        }}
+        onCreateRoutine={handleCreateRoutine}
+        onEditRoutine={handleEditRoutine}
+      />
+    );
+  }
+
+  if (screen === 'pt-program-builder' && selectedClientId) {
+    return (
+      <PTProgramBuilder
+        token={token}
+        clientId={selectedClientId}
         onBack={() => {
-          setEditingRoutineId(null);
           setSelectedClientId(null);
           setScreen('pt-dashboard');
         }}
-        onSuccess={handleRoutineSuccess}
+      />
+    );
+  }
+
+  if (screen === 'pt-template-builder') {
+    const backToTemplates = () => {
+      setEditingRoutineId(null);
+      setScreen('pt-settings-templates');
+    };
+    return (
+      <RoutineBuilder
+        token={token}
+        routineId={editingRoutineId}
+        isTemplate
+        weightUnit={weightUnit}
+        onBack={backToTemplates}
+        onSuccess={backToTemplates}
       />
     );
   }
@@ -301,7 +408,7 @@ export default function App() {
   if (screen === 'pt-activity') {
     return (
       <>
-        <PTActivity token={token} />
+        <PTActivity token={token} weightUnit={weightUnit} onViewSession={handleViewSession} />
         <BottomNav
           role="pt"
           activeScreen={screen}
@@ -318,6 +425,9 @@ export default function App() {
           user={user}
           onViewAccount={() => setScreen('pt-settings-details')}
           onViewExercises={() => setScreen('pt-settings-exercises')}
+          onViewProgression={() => setScreen('pt-settings-progression')}
+          onViewContent={() => setScreen('pt-settings-content')}
+          onViewTemplates={() => setScreen('pt-settings-templates')}
           onLogout={handleLogout}
         />
         <BottomNav
@@ -335,7 +445,11 @@ export default function App() {
         token={token}
         onBack={() => setScreen('pt-settings')}
         onProfileUpdated={(profile) => {
-          setUser((current: any) => ({ ...current, ...profile }));
+          setUser((current: any) => ({
+            ...current,
+            ...profile,
+            prefers_metric_units: profile.prefersMetricUnits,
+          }));
         }}
       />
     );
@@ -354,6 +468,33 @@ export default function App() {
     );
   }
 
+  if (screen === 'pt-settings-progression') {
+    return (
+      <PTProgressionSettings token={token} weightUnit={weightUnit} onBack={() => setScreen('pt-settings')} />
+    );
+  }
+
+  if (screen === 'pt-settings-content') {
+    return <PTContentSources token={token} onBack={() => setScreen('pt-settings')} />;
+  }
+
+  if (screen === 'pt-settings-templates') {
+    return (
+      <PTRoutineTemplates
+        token={token}
+        onBack={() => setScreen('pt-settings')}
+        onCreateTemplate={() => {
+          setEditingRoutineId(null);
+          setScreen('pt-template-builder');
+        }}
+        onEditTemplate={(templateId) => {
+          setEditingRoutineId(templateId);
+          setScreen('pt-template-builder');
+        }}
+      />
+    );
+  }
+
   if (screen === 'pt-settings-exercise-detail') {
     if (!selectedExerciseId) {
       setScreen('pt-settings-exercises');
@@ -387,7 +528,12 @@ export default function App() {
   if (screen === 'client-progress') {
     return (
       <>
-        <ClientProgress token={token} />
+        <ClientProgress
+          token={token}
+          weightUnit={weightUnit}
+          onViewSession={handleViewSession}
+          onViewHistory={() => setScreen('client-history')}
+        />
         <BottomNav
           role="client"
           activeScreen={screen}
@@ -397,5 +543,47 @@ export default function App() {
     );
   }
 
+  if (screen === 'client-history') {
+    return (
+      <>
+        <ClientHistory
+          token={token}
+          weightUnit={weightUnit}
+          onBack={() => setScreen('client-progress')}
+          onViewSession={handleViewSession}
+        />
+        <BottomNav
+          role="client"
+          activeScreen="client-progress"
+          onNavigate={handleNavigate}
+        />
+      </>
+    );
+  }
+
+  if (screen === 'client-session-detail' || screen === 'pt-session-detail') {
+    const returnScreen = sessionDetailReturnScreen;
+    if (!selectedSessionLogId) {
+      setScreen(returnScreen);
+      return null;
+    }
+
+    const closeSession = () => {
+      setSelectedSessionLogId(null);
+      setScreen(returnScreen);
+    };
+
+    return (
+      <SessionLogDetail
+        token={token}
+        sessionLogId={selectedSessionLogId}
+        scope={screen === 'client-session-detail' ? 'client' : 'pt'}
+        weightUnit={weightUnit}
+        onBack={closeSession}
+        onDeleted={closeSession}
+      />
+    );
+  }
+
   return null;
 }
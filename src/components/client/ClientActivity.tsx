@@ -190,6 +190,7 @@ function SwipeableNotification({
       case 'streak_milestone':
         return <Zap className="w-5 h-5 text-warning" />;
       case 'achievement':
+      case 'personal_best':
         return <Trophy className="w-5 h-5 text-accent" />;
       case 'goal_reminder':
         return <Target className="w-5 h-5 text-accent" />;
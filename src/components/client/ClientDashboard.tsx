@@ -1,16 +1,28 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion } from 'motion/react';
-import { Calendar, Plus, LogOut } from 'lucide-react';
+import { Calendar, Plus, LogOut, CloudOff, RefreshCw, Zap, Trash2, Layers } from 'lucide-react';
 import { StreakDisplay } from '../shared/StreakDisplay';
 import { ProgressRing } from '../shared/ProgressRing';
 import { WorkoutCard } from '../shared/WorkoutCard';
 import { Button } from '../ui/button';
 import { projectId } from '../../utils/supabase/info';
+import { WeightUnit } from '../../utils/units';
+import { describeProgramWeek, formatProgramPosition, ProgramStatus } from '../../utils/programs';
+import {
+  ActiveSession,
+  clearActiveSession,
+  FREESTYLE_SESSION_KEY,
+  flushOutbox,
+  listActiveSessions,
+  useWorkoutOutbox,
+} from '../../utils/workoutOutbox';
 
 interface ClientDashboardProps {
   user: any;
   token: string;
-  onStartWorkout: (routine: any) => void;
+  weightUnit: WeightUnit;
+  onStartWorkout: (routine: any | null, resumeSession?: ActiveSession | null) => void;
+  onUnitPreferenceChange: (prefersMetricUnits: boolean) => void;
   onLogout: () => void;
 }
 
@@ -27,16 +39,162 @@ interface DashboardData {
     weekStart: string;
   };
   routines: any[];
+  program: ProgramStatus | null;
 }
 
-export function ClientDashboard({ user, token, onStartWorkout, onLogout }: ClientDashboardProps) {
+export function ClientDashboard({
+  user,
+  token,
+  weightUnit,
+  onStartWorkout,
+  onUnitPreferenceChange,
+  onLogout,
+}: ClientDashboardProps) {
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [sessionDrafts, setSessionDrafts] = useState<Record<string, ActiveSession>>({});
+  const [savingUnits, setSavingUnits] = useState(false);
+  const outboxEntries = useWorkoutOutbox();
+  const previousOutboxCount = useRef(outboxEntries.length);
 
   useEffect(() => {
     fetchDashboardData();
+    loadSessionDrafts();
   }, []);
 
+  useEffect(() => {
+    // Streak and weekly goal only change once a queued workout reaches the server.
+    if (outboxEntries.length < previousOutboxCount.current) {
+      fetchDashboardData();
+    }
+    previousOutboxCount.current = outboxEntries.length;
+  }, [outboxEntries.length]);
+
+  const pendingCount = outboxEntries.filter((entry) => entry.status === 'pending').length;
+  const failedCount = outboxEntries.length - pendingCount;
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    try {
+      await flushOutbox(token, { includeFailed: true });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  // Drafts live on this device and on the server; whichever copy was touched
+  // last wins so a session started on another device can be picked up here.
+  const loadSessionDrafts = async () => {
+    const drafts: Record<string, ActiveSession> = {};
+    (await listActiveSessions()).forEach((session) => {
+      drafts[session.routineId] = session;
+    });
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/session-drafts`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        const { drafts: serverDrafts } = await response.json();
+        (serverDrafts || []).forEach((draft: ActiveSession) => {
+          const local = drafts[draft.routineId];
+          if (!local || new Date(draft.updatedAt) > new Date(local.updatedAt)) {
+            drafts[draft.routineId] = draft;
+          }
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching session drafts:', error);
+    }
+
+    setSessionDrafts(drafts);
+  };
+
+  const discardSessionDraft = async (routineId: string) => {
+    setSessionDrafts((prev) => {
+      const { [routineId]: _discarded, ...rest } = prev;
+      return rest;
+    });
+    await clearActiveSession(routineId);
+    if (routineId === FREESTYLE_SESSION_KEY) {
+      return;
+    }
+
+    try {
+      await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/session-drafts/${routineId}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Error discarding session draft:', error);
+    }
+  };
+
+  const toggleWeightUnit = async () => {
+    const prefersMetricUnits = weightUnit !== 'kg';
+    setSavingUnits(true);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/profile`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ prefersMetricUnits }),
+        }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        onUnitPreferenceChange(data.prefersMetricUnits);
+      }
+    } catch (error) {
+      console.error('Error updating unit preference:', error);
+    } finally {
+      setSavingUnits(false);
+    }
+  };
+
+  const getResumableDraft = (routineId: string) => {
+    const draft = sessionDrafts[routineId];
+    // A finished session waiting in the outbox is not resumable.
+    if (!draft || outboxEntries.some((entry) => entry.id === draft.sessionId)) {
+      return null;
+    }
+    return draft;
+  };
+
+  const describeDraft = (draft: ActiveSession, routine?: any) => {
+    const exerciseCount = draft.exercises?.length ?? routine?.exercises?.length ?? 0;
+    const exerciseIndex = Math.min(draft.currentExerciseIndex, Math.max(exerciseCount - 1, 0));
+    const loggedSets = draft.exerciseLogs?.[exerciseIndex]?.length ?? 0;
+    return `Exercise ${exerciseIndex + 1} of ${exerciseCount} · Set ${loggedSets + 1}`;
+  };
+
+  const describeSchedule = (routine: any) => {
+    const program = data?.program;
+    if (!program || routine.programId !== program.id || !routine.programDay) {
+      return 'Today';
+    }
+    return routine.programDay === program.day
+      ? `Day ${routine.programDay} · Up next`
+      : `Day ${routine.programDay}`;
+  };
+
   const fetchDashboardData = async () => {
     try {
       const response = await fetch(
@@ -67,6 +225,8 @@ export function ClientDashboard({ user, token, onStartWorkout, onLogout }: Clien
     );
   }
 
+  const freestyleDraft = getResumableDraft(FREESTYLE_SESSION_KEY);
+
   const today = new Date().toLocaleDateString('en-US', { 
     weekday: 'long', 
     month: 'long', 
@@ -88,14 +248,26 @@ export function ClientDashboard({ user, token, onStartWorkout, onLogout }: Clien
             </motion.h1>
             <p className="text-primary-foreground/80 text-sm">{today}</p>
           </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={onLogout}
-            className="text-primary-foreground hover:bg-white/10"
-          >
-            <LogOut className="w-4 h-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={toggleWeightUnit}
+              disabled={savingUnits}
+              className="text-primary-foreground hover:bg-white/10 text-xs"
+              aria-label={`Show weights in ${weightUnit === 'kg' ? 'pounds' : 'kilograms'}`}
+            >
+              {weightUnit}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLogout}
+              className="text-primary-foreground hover:bg-white/10"
+            >
+              <LogOut className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
 
         {/* Streak Display (Compact) */}
@@ -109,6 +281,42 @@ export function ClientDashboard({ user, token, onStartWorkout, onLogout }: Clien
       </div>
 
       <div className="px-6 -mt-4">
+        {/* Pending Sync */}
+        {outboxEntries.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className={`rounded-2xl p-4 border shadow-sm mb-4 flex items-center gap-3 ${
+              failedCount > 0 ? 'bg-destructive/10 border-destructive/40' : 'bg-warning/10 border-warning/40'
+            }`}
+          >
+            <CloudOff className={`w-5 h-5 flex-shrink-0 ${failedCount > 0 ? 'text-destructive' : 'text-warning'}`} />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm">
+                {pendingCount > 0 &&
+                  `${pendingCount} workout${pendingCount === 1 ? '' : 's'} pending sync`}
+                {pendingCount > 0 && failedCount > 0 && ' · '}
+                {failedCount > 0 && `${failedCount} failed to sync`}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {failedCount > 0
+                  ? outboxEntries.find((entry) => entry.status === 'failed')?.lastError
+                  : "Saved on this device. We'll upload it when you're back online."}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSyncNow}
+              disabled={syncing}
+              className="gap-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+              Sync
+            </Button>
+          </motion.div>
+        )}
+
         {/* Weekly Progress */}
         {data && (
           <motion.div
@@ -134,6 +342,38 @@ export function ClientDashboard({ user, token, onStartWorkout, onLogout }: Clien
           </motion.div>
         )}
 
+        {/* Program */}
+        {data?.program && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.15 }}
+            className="bg-card rounded-2xl p-6 border border-border shadow-sm mb-6"
+          >
+            <div className="flex items-start gap-4">
+              <div className="w-10 h-10 rounded-full bg-accent/10 text-accent flex items-center justify-center flex-shrink-0">
+                <Layers className="w-5 h-5" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-muted-foreground truncate">{data.program.name}</p>
+                <h3 className="mb-1">{formatProgramPosition(data.program)}</h3>
+                <p className="text-sm text-muted-foreground">
+                  {[
+                    data.program.currentWeek.phaseName,
+                    data.program.currentWeek.isDeload ? 'Deload week' : null,
+                    describeProgramWeek(data.program.currentWeek),
+                  ]
+                    .filter(Boolean)
+                    .join(' · ') || `Week ${data.program.week} of ${data.program.weekCount}`}
+                </p>
+              </div>
+              <span className="text-xs text-muted-foreground flex-shrink-0">
+                {data.program.week}/{data.program.weekCount}
+              </span>
+            </div>
+          </motion.div>
+        )}
+
         {/* Today's Workouts */}
         <div className="mb-6">
           <div className="flex items-center justify-between mb-4">
@@ -143,22 +383,27 @@ export function ClientDashboard({ user, token, onStartWorkout, onLogout }: Clien
 
           {data?.routines && data.routines.length > 0 ? (
             <div className="space-y-3">
-              {data.routines.map((routine: any, index: number) => (
-                <motion.div
-                  key={routine.id}
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0.2 + index * 0.1 }}
-                >
-                  <WorkoutCard
-                    title={routine.name}
-                    exercises={routine.exercises?.length || 0}
-                    estimatedTime={routine.exercises?.length * 5}
-                    scheduled="Today"
-                    onStart={() => onStartWorkout(routine)}
-                  />
-                </motion.div>
-              ))}
+              {data.routines.map((routine: any, index: number) => {
+                const draft = getResumableDraft(routine.id);
+                return (
+                  <motion.div
+                    key={routine.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.2 + index * 0.1 }}
+                  >
+                    <WorkoutCard
+                      title={routine.name}
+                      exercises={routine.exercises?.length || 0}
+                      estimatedTime={routine.exercises?.length * 5}
+                      scheduled={describeSchedule(routine)}
+                      resumeLabel={draft ? describeDraft(draft, routine) : undefined}
+                      onStart={() => onStartWorkout(routine, draft)}
+                      onDiscard={draft ? () => discardSessionDraft(routine.id) : undefined}
+                    />
+                  </motion.div>
+                );
+              })}
             </div>
           ) : (
             <motion.div
@@ -175,6 +420,42 @@ export function ClientDashboard({ user, token, onStartWorkout, onLogout }: Clien
               </p>
             </motion.div>
           )}
+
+          {/* Quick Workout */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className="mt-3 bg-card rounded-2xl p-4 border border-dashed border-border"
+          >
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-full bg-accent/10 text-accent flex items-center justify-center flex-shrink-0">
+                <Zap className="w-5 h-5" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3>Quick Workout</h3>
+                <p className="text-sm text-muted-foreground truncate">
+                  {freestyleDraft
+                    ? `In progress · ${describeDraft(freestyleDraft)}`
+                    : 'Pick exercises as you go'}
+                </p>
+              </div>
+              {freestyleDraft && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => discardSessionDraft(FREESTYLE_SESSION_KEY)}
+                  className="h-9 w-9 p-0 text-muted-foreground"
+                  aria-label="Discard quick workout"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => onStartWorkout(null, freestyleDraft)}>
+                {freestyleDraft ? 'Resume' : 'Start'}
+              </Button>
+            </div>
+          </motion.div>
         </div>
 
         {/* Stats Summary */}
@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft, ChevronRight, Clock, History, Loader2, Trophy } from 'lucide-react';
+import { Button } from '../ui/button';
+import { projectId } from '../../utils/supabase/info';
+import { formatVolume, WeightUnit } from '../../utils/units';
+
+interface ClientHistoryProps {
+  token: string;
+  weightUnit: WeightUnit;
+  onBack: () => void;
+  onViewSession: (sessionLogId: string) => void;
+}
+
+interface HistorySession {
+  id: string;
+  routineName: string;
+  performedAt: string;
+  durationSeconds: number | null;
+  exerciseNames: string[];
+  setCount: number;
+  personalBestCount: number;
+  totalVolume: number;
+}
+
+interface FilterOption {
+  id: string;
+  name: string;
+}
+
+const PAGE_SIZE = 20;
+
+export function ClientHistory({ token, weightUnit, onBack, onViewSession }: ClientHistoryProps) {
+  const [sessions, setSessions] = useState<HistorySession[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [routineFilter, setRoutineFilter] = useState('');
+  const [exerciseFilter, setExerciseFilter] = useState('');
+  const [routineOptions, setRoutineOptions] = useState<FilterOption[]>([]);
+  const [exerciseOptions, setExerciseOptions] = useState<FilterOption[]>([]);
+  const [hasQuickWorkouts, setHasQuickWorkouts] = useState(false);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    fetchFilters();
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchSessions(0);
+  }, [routineFilter, exerciseFilter]);
+
+  const fetchFilters = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/sessions/filters`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        setRoutineOptions(data.routines || []);
+        setExerciseOptions(data.exercises || []);
+        setHasQuickWorkouts(Boolean(data.hasQuickWorkouts));
+      }
+    } catch (error) {
+      console.error('Error fetching history filters:', error);
+    }
+  };
+
+  const fetchSessions = async (pageToLoad: number) => {
+    // Ignore responses that arrive after the filters have changed again.
+    const requestId = ++latestRequest.current;
+    try {
+      const params = new URLSearchParams();
+      params.set('page', String(pageToLoad));
+      params.set('limit', String(PAGE_SIZE));
+      if (routineFilter) {
+        params.set('routineId', routineFilter);
+      }
+      if (exerciseFilter) {
+        params.set('exerciseId', exerciseFilter);
+      }
+
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/sessions?${params.toString()}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (requestId !== latestRequest.current) return;
+
+      if (response.ok) {
+        const data = await response.json();
+        setSessions((prev) => (pageToLoad === 0 ? data.sessions || [] : [...prev, ...(data.sessions || [])]));
+        setPage(pageToLoad);
+        setHasMore(Boolean(data.hasMore));
+      }
+    } catch (error) {
+      console.error('Error fetching workout history:', error);
+    } finally {
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  const loadMore = () => {
+    setLoadingMore(true);
+    fetchSessions(page + 1);
+  };
+
+  // Sessions arrive newest first, so grouping keeps months in order.
+  const sessionsByMonth = sessions.reduce<Array<{ label: string; sessions: HistorySession[] }>>((groups, session) => {
+    const label = new Date(session.performedAt).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    const current = groups[groups.length - 1];
+    if (current?.label === label) {
+      current.sessions.push(session);
+    } else {
+      groups.push({ label, sessions: [session] });
+    }
+    return groups;
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {/* Header */}
+      <div className="bg-primary text-primary-foreground px-6 py-6 sticky top-0 z-10">
+        <div className="flex items-center gap-4 mb-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onBack}
+            className="text-primary-foreground hover:bg-white/10 -ml-2"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex-1">
+            <h2 className="text-primary-foreground">Workout History</h2>
+            <p className="text-sm text-primary-foreground/80">Everything you've logged</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <select
+            value={routineFilter}
+            onChange={(e) => setRoutineFilter(e.target.value)}
+            className="w-full px-3 py-2 bg-background text-foreground border border-border rounded-lg text-sm"
+            aria-label="Filter by routine"
+          >
+            <option value="">All routines</option>
+            {hasQuickWorkouts && <option value="none">Quick workouts</option>}
+            {routineOptions.map((routine) => (
+              <option key={routine.id} value={routine.id}>
+                {routine.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={exerciseFilter}
+            onChange={(e) => setExerciseFilter(e.target.value)}
+            className="w-full px-3 py-2 bg-background text-foreground border border-border rounded-lg text-sm"
+            aria-label="Filter by exercise"
+          >
+            <option value="">All exercises</option>
+            {exerciseOptions.map((exercise) => (
+              <option key={exercise.id} value={exercise.id}>
+                {exercise.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="bg-card rounded-2xl p-8 border border-border text-center"
+          >
+            <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <History className="w-8 h-8 text-muted-foreground" />
+            </div>
+            <h3 className="mb-2">No workouts found</h3>
+            <p className="text-sm text-muted-foreground">
+              {routineFilter || exerciseFilter
+                ? 'Try clearing a filter.'
+                : 'Finished workouts will show up here.'}
+            </p>
+          </motion.div>
+        ) : (
+          <>
+            {sessionsByMonth.map((group) => (
+              <div key={group.label}>
+                <p className="text-xs text-muted-foreground mb-2">{group.label.toUpperCase()}</p>
+                <div className="bg-card rounded-2xl border border-border divide-y divide-border">
+                  {group.sessions.map((session) => (
+                    <button
+                      key={session.id}
+                      type="button"
+                      onClick={() => onViewSession(session.id)}
+                      className="w-full px-4 py-4 flex items-center gap-4 text-left hover:bg-muted/40 transition-colors"
+                    >
+                      <div className="w-12 text-center flex-shrink-0">
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(session.performedAt).toLocaleDateString('en-US', { weekday: 'short' })}
+                        </p>
+                        <p className="text-xl">{new Date(session.performedAt).getDate()}</p>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="text-sm truncate">{session.routineName}</p>
+                          {session.personalBestCount > 0 && <Trophy className="w-4 h-4 text-accent flex-shrink-0" />}
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">{session.exerciseNames.join(', ')}</p>
+                        <p className="text-xs text-muted-foreground flex items-center gap-1.5 mt-0.5">
+                          {session.durationSeconds != null && (
+                            <>
+                              <Clock className="w-3 h-3" />
+                              {Math.round(session.durationSeconds / 60)} min ·{' '}
+                            </>
+                          )}
+                          {session.setCount} sets · {formatVolume(session.totalVolume, weightUnit)}
+                        </p>
+                      </div>
+                      <ChevronRight className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {hasMore && (
+              <Button onClick={loadMore} variant="outline" className="w-full" disabled={loadingMore}>
+                {loadingMore ? 'Loading...' : 'Load More'}
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,100 @@
 import React, { useEffect, useState } from 'react';
 import { motion } from 'motion/react';
-import { TrendingUp, Target, Calendar, Award } from 'lucide-react';
+import { TrendingUp, Target, Calendar, Award, Trophy, ChevronRight } from 'lucide-react';
 import { projectId } from '../../utils/supabase/info';
+import { formatVolume, formatWeight, WeightUnit } from '../../utils/units';
 
 interface ClientProgressProps {
   token: string;
+  weightUnit: WeightUnit;
+  onViewSession: (sessionLogId: string) => void;
+  onViewHistory: () => void;
 }
 
-export function ClientProgress({ token }: ClientProgressProps) {
+interface RecentSession {
+  id: string;
+  routineName: string;
+  performedAt: string;
+  setCount: number;
+  totalVolume: number;
+}
+
+interface PersonalBest {
+  id: string;
+  exerciseId: string;
+  exerciseName: string;
+  metric: string;
+  label: string;
+  value: number;
+  weight: number | null;
+  reps: number | null;
+  achievedAt: string;
+}
+
+const HEADLINE_PB_METRICS = ['heaviest_weight', 'estimated_1rm', 'set_tonnage'];
+
+export function ClientProgress({ token, weightUnit, onViewSession, onViewHistory }: ClientProgressProps) {
   const [data, setData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [personalBests, setPersonalBests] = useState<PersonalBest[]>([]);
+  const [recentSessions, setRecentSessions] = useState<RecentSession[]>([]);
 
   useEffect(() => {
     fetchProgressData();
+    fetchPersonalBests();
+    fetchRecentSessions();
   }, []);
 
+  const fetchRecentSessions = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/sessions?limit=5`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        const sessionData = await response.json();
+        setRecentSessions(sessionData.sessions || []);
+      }
+    } catch (error) {
+      console.error('Error fetching recent sessions:', error);
+    }
+  };
+
+  const fetchPersonalBests = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/personal-bests`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        const pbData = await response.json();
+        setPersonalBests(pbData.personalBests || []);
+      }
+    } catch (error) {
+      console.error('Error fetching personal bests:', error);
+    }
+  };
+
+  const personalBestsByExercise = personalBests
+    .filter((pb) => HEADLINE_PB_METRICS.includes(pb.metric))
+    .reduce<Record<string, { name: string; records: PersonalBest[] }>>((acc, pb) => {
+      if (!acc[pb.exerciseId]) {
+        acc[pb.exerciseId] = { name: pb.exerciseName, records: [] };
+      }
+      acc[pb.exerciseId].records.push(pb);
+      return acc;
+    }, {});
+
   const fetchProgressData = async () => {
     try {
       const response = await fetch(
@@ -140,6 +220,91 @@ export function ClientProgress({ token }: ClientProgressProps) {
           </motion.div>
         </div>
 
+        {/* Recent Workouts */}
+        {recentSessions.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className="bg-card rounded-2xl border border-border divide-y divide-border"
+          >
+            <div className="px-6 pt-6 pb-4 flex items-center justify-between">
+              <h3>Recent Workouts</h3>
+              <button type="button" onClick={onViewHistory} className="text-sm text-accent">
+                View all
+              </button>
+            </div>
+            {recentSessions.map((session) => (
+              <button
+                key={session.id}
+                type="button"
+                onClick={() => onViewSession(session.id)}
+                className="w-full px-6 py-4 flex items-center justify-between gap-4 text-left hover:bg-muted/40 transition-colors"
+              >
+                <div>
+                  <p className="text-sm">{session.routineName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(session.performedAt).toLocaleDateString('en-US', {
+                      weekday: 'short',
+                      month: 'short',
+                      day: 'numeric',
+                    })}
+                    {' · '}
+                    {session.setCount} sets · {formatVolume(session.totalVolume, weightUnit)}
+                  </p>
+                </div>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" />
+              </button>
+            ))}
+          </motion.div>
+        )}
+
+        {/* Personal Bests */}
+        {Object.keys(personalBestsByExercise).length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className="bg-card rounded-2xl p-6 border border-border"
+          >
+            <div className="flex items-center gap-3 mb-4">
+              <Trophy className="w-6 h-6 text-accent" />
+              <h3>Personal Bests</h3>
+            </div>
+            <div className="space-y-4">
+              {Object.entries(personalBestsByExercise).map(([exerciseId, exercise]) => (
+                <div key={exerciseId}>
+                  <p className="text-sm mb-2">{exercise.name}</p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {HEADLINE_PB_METRICS.map((metric) => {
+                      const record = exercise.records.find((pb) => pb.metric === metric);
+                      return (
+                        <div key={metric} className="bg-muted/50 rounded-lg p-2">
+                          <p className="text-[11px] text-muted-foreground">
+                            {record?.label ?? (metric === 'estimated_1rm' ? 'Estimated 1RM' : '—')}
+                          </p>
+                          <p className="text-lg">
+                            {record
+                              ? metric === 'set_tonnage'
+                                ? formatVolume(record.value, weightUnit)
+                                : formatWeight(record.value, weightUnit)
+                              : '—'}
+                          </p>
+                          {record?.reps != null && record.weight != null && (
+                            <p className="text-[11px] text-muted-foreground">
+                              {record.reps} × {formatWeight(record.weight, weightUnit)}
+                            </p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* Placeholder for future features */}
         <motion.div
           initial={{ opacity: 0 }}
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft, ChevronRight, Dumbbell, Loader2, Search } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { projectId } from '../../utils/supabase/info';
+import { TrackingMode } from '../../utils/tracking';
+
+export interface CatalogExercise {
+  id: string;
+  name: string;
+  primaryMuscleGroup?: string | null;
+  equipmentRequired?: string | null;
+  defaultRestSeconds?: number | null;
+  instructionNotes?: string | null;
+  trackingMode?: TrackingMode;
+}
+
+interface ExercisePickerProps {
+  token: string;
+  title: string;
+  subtitle?: string;
+  alternativesFor?: string;
+  onBack: () => void;
+  onSelect: (exercise: CatalogExercise) => void;
+}
+
+export function ExercisePicker({ token, title, subtitle, alternativesFor, onBack, onSelect }: ExercisePickerProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [exercises, setExercises] = useState<CatalogExercise[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchExercises(searchTerm), 250);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const fetchExercises = async (query: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (query.trim()) {
+        params.set('query', query.trim());
+      }
+      params.set('limit', '50');
+
+      // With no search term, a swap starts from exercises similar to the one being replaced.
+      const path = alternativesFor && !query.trim()
+        ? `client/exercises/${alternativesFor}/alternatives`
+        : `client/exercises?${params.toString()}`;
+
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/${path}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to load exercises');
+      }
+
+      const data = await response.json();
+      setExercises(data.exercises || []);
+    } catch (err: any) {
+      console.error('Error fetching exercises:', err);
+      setError(navigator.onLine === false ? 'Exercises are unavailable offline.' : 'Unable to load exercises');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {/* Header */}
+      <div className="bg-primary text-primary-foreground px-6 py-6 sticky top-0 z-10">
+        <div className="flex items-center gap-4 mb-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onBack}
+            className="text-primary-foreground hover:bg-white/10 -ml-2"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex-1">
+            <h2 className="text-primary-foreground">{title}</h2>
+            {subtitle && <p className="text-sm text-primary-foreground/80">{subtitle}</p>}
+          </div>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            type="search"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search your trainer's exercises"
+            className="pl-9 bg-white text-foreground"
+          />
+        </div>
+      </div>
+
+      <div className="px-6 py-6">
+        {alternativesFor && !searchTerm.trim() && (
+          <p className="text-xs text-muted-foreground mb-3">SIMILAR EXERCISES</p>
+        )}
+        <div className="bg-card rounded-2xl border border-border divide-y divide-border">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <div className="px-6 py-12 text-sm text-destructive text-center">{error}</div>
+          ) : exercises.length === 0 ? (
+            <div className="px-6 py-12 text-sm text-muted-foreground text-center">
+              {alternativesFor && !searchTerm.trim()
+                ? 'No similar exercises found. Search the full list instead.'
+                : 'No exercises found. Try a different search.'}
+            </div>
+          ) : (
+            exercises.map((exercise, index) => (
+              <motion.button
+                key={exercise.id}
+                type="button"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ delay: Math.min(index, 10) * 0.02 }}
+                onClick={() => onSelect(exercise)}
+                className="w-full px-4 py-4 flex items-center justify-between gap-4 text-left hover:bg-muted/40 transition-colors"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full bg-accent/10 text-accent flex items-center justify-center flex-shrink-0">
+                    <Dumbbell className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <p>{exercise.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[exercise.primaryMuscleGroup, exercise.equipmentRequired].filter(Boolean).join(' • ') ||
+                        'General'}
+                    </p>
+                  </div>
+                </div>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" />
+              </motion.button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { Check, Minus, Pause, Play, Plus, RotateCcw, Timer } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  buildIntervalPhases,
+  describeIntervalBlock,
+  formatIntervalResult,
+  INTERVAL_KIND_LABELS,
+  IntervalBlock,
+  IntervalResult,
+} from '../../utils/intervals';
+import { formatDuration } from '../../utils/tracking';
+import { playIntervalCue, primeRestAlerts } from '../../utils/restAlerts';
+
+interface IntervalTimerProps {
+  block: IntervalBlock;
+  result?: IntervalResult | null;
+  onLog: (result: IntervalResult) => void;
+}
+
+export function IntervalTimer({ block, result, onLog }: IntervalTimerProps) {
+  const phases = useMemo(() => buildIntervalPhases(block), [block]);
+  const phaseEnds = useMemo(
+    () => phases.reduce<number[]>((ends, phase) => [...ends, (ends[ends.length - 1] ?? 0) + phase.seconds], []),
+    [phases]
+  );
+  // A round counts as done once its last work period is over.
+  const roundEnds = useMemo(() => {
+    const ends = new Map<number, number>();
+    phases.forEach((phase, i) => {
+      if (phase.phase === 'work') ends.set(phase.round, phaseEnds[i]);
+    });
+    return Array.from(ends.values());
+  }, [phases, phaseEnds]);
+  const totalSeconds = phaseEnds[phaseEnds.length - 1] ?? 0;
+  const totalRounds = roundEnds.length;
+  const isAmrap = block.kind === 'amrap';
+
+  // Like the rest timer, elapsed time comes from timestamps so a locked phone doesn't lose any.
+  const [resumedAt, setResumedAt] = useState<number | null>(null);
+  const [elapsedBefore, setElapsedBefore] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [roundsCompleted, setRoundsCompleted] = useState(result?.roundsCompleted ?? 0);
+  const [extraReps, setExtraReps] = useState(result?.extraReps != null ? String(result.extraReps) : '');
+  const lastPhaseIndex = useRef(-1);
+  const isRunning = resumedAt !== null;
+
+  const elapsedSeconds = Math.min(
+    totalSeconds,
+    (elapsedBefore + (resumedAt !== null ? now - resumedAt : 0)) / 1000
+  );
+  const isFinished = totalSeconds > 0 && elapsedSeconds >= totalSeconds;
+  const phaseIndex = isFinished ? -1 : phaseEnds.findIndex((end) => elapsedSeconds < end);
+  const currentPhase = phaseIndex >= 0 ? phases[phaseIndex] : null;
+  const phaseRemaining = currentPhase ? Math.ceil(phaseEnds[phaseIndex] - elapsedSeconds) : 0;
+  const timedRounds = roundEnds.filter((end) => end <= elapsedSeconds).length;
+
+  useEffect(() => {
+    if (resumedAt === null) return;
+
+    const tick = () => setNow(Date.now());
+    const interval = setInterval(tick, 250);
+    document.addEventListener('visibilitychange', tick);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [resumedAt]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    if (isFinished) {
+      setResumedAt(null);
+      setElapsedBefore(totalSeconds * 1000);
+      lastPhaseIndex.current = -1;
+      playIntervalCue(true);
+      return;
+    }
+    if (phaseIndex !== lastPhaseIndex.current) {
+      lastPhaseIndex.current = phaseIndex;
+      playIntervalCue();
+    }
+  }, [isRunning, isFinished, phaseIndex]);
+
+  // Timed blocks count their own rounds; an AMRAP is counted by the client as they go.
+  useEffect(() => {
+    if (!isAmrap && elapsedSeconds > 0) {
+      setRoundsCompleted(timedRounds);
+    }
+  }, [isAmrap, timedRounds]);
+
+  const toggleTimer = () => {
+    if (isRunning) {
+      setElapsedBefore(elapsedSeconds * 1000);
+      setResumedAt(null);
+      return;
+    }
+    if (isFinished) return;
+
+    primeRestAlerts();
+    const current = Date.now();
+    setNow(current);
+    setResumedAt(current);
+  };
+
+  const resetTimer = () => {
+    setResumedAt(null);
+    setElapsedBefore(0);
+    lastPhaseIndex.current = -1;
+    if (!isAmrap) setRoundsCompleted(0);
+  };
+
+  const logResult = () => {
+    onLog({
+      roundsCompleted,
+      extraReps: isAmrap && extraReps.trim() ? Math.max(0, parseInt(extraReps, 10) || 0) : null,
+      durationSeconds: Math.round(elapsedSeconds),
+    });
+  };
+
+  const title = block.name || INTERVAL_KIND_LABELS[block.kind];
+
+  return (
+    <motion.div
+      initial={{ y: 20, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      className="bg-card rounded-2xl p-6 border border-border shadow-sm"
+    >
+      <div className="flex items-start justify-between gap-3 mb-1">
+        <div>
+          <h3 className="flex items-center gap-2">
+            <Timer className="w-4 h-4 text-accent" />
+            {title}
+          </h3>
+          <p className="text-sm text-muted-foreground">{describeIntervalBlock(block)}</p>
+        </div>
+        {result && (
+          <span className="flex items-center gap-1 text-xs text-success flex-shrink-0">
+            <Check className="w-3 h-3" />
+            {formatIntervalResult(block.kind, result)}
+          </span>
+        )}
+      </div>
+      {block.notes && <p className="text-sm mt-2">{block.notes}</p>}
+
+      <div
+        className={`rounded-xl my-4 py-6 text-center transition-colors ${
+          currentPhase?.phase === 'rest' ? 'bg-muted' : 'bg-accent/10'
+        }`}
+      >
+        <p className="text-xs text-muted-foreground uppercase tracking-wide">
+          {isFinished
+            ? 'Done'
+            : currentPhase
+              ? currentPhase.label
+              : phases[0]?.label}
+        </p>
+        <div className="text-5xl tabular-nums my-1">
+          {formatDuration(isFinished ? 0 : currentPhase ? phaseRemaining : phases[0]?.seconds ?? 0)}
+        </div>
+        {!isAmrap && totalRounds > 1 && (
+          <p className="text-sm text-muted-foreground">
+            Round {Math.min(currentPhase?.round ?? totalRounds, totalRounds)} of {totalRounds}
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        <Button
+          onClick={toggleTimer}
+          className="flex-1"
+          variant={isRunning ? 'secondary' : 'default'}
+          disabled={isFinished}
+        >
+          {isRunning ? (
+            <>
+              <Pause className="w-4 h-4 mr-2" />
+              Pause
+            </>
+          ) : (
+            <>
+              <Play className="w-4 h-4 mr-2" />
+              {elapsedSeconds > 0 && !isFinished ? 'Resume' : 'Start'}
+            </>
+          )}
+        </Button>
+        <Button onClick={resetTimer} variant="outline" className="px-4">
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">Rounds</p>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setRoundsCompleted(Math.max(0, roundsCompleted - 1))}
+            className="h-8 w-8 p-0"
+          >
+            <Minus className="w-4 h-4" />
+          </Button>
+          <span className="text-xl tabular-nums w-8 text-center">{roundsCompleted}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setRoundsCompleted(roundsCompleted + 1)}
+            className="h-8 w-8 p-0"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      {isAmrap && (
+        <div className="flex items-center justify-between gap-3 mt-2">
+          <p className="text-sm text-muted-foreground">Extra reps</p>
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={extraReps}
+            onChange={(e) => setExtraReps(e.target.value)}
+            placeholder="0"
+            className="h-8 w-20 text-center"
+          />
+        </div>
+      )}
+
+      <Button
+        onClick={logResult}
+        variant="outline"
+        className="w-full mt-4"
+        disabled={elapsedSeconds === 0 && roundsCompleted === 0}
+      >
+        <Check className="w-4 h-4 mr-2" />
+        {result ? 'Update result' : 'Log result'}
+      </Button>
+    </motion.div>
+  );
+}
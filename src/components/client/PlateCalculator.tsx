@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { Plus, Settings2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { projectId } from '../../utils/supabase/info';
+import { calculatePlates, GymSetup } from '../../utils/plates';
+import { WeightUnit } from '../../utils/units';
+
+interface PlateCalculatorProps {
+  token: string;
+  targetWeight: number;
+  gymSetups: GymSetup[];
+  activeSetup: GymSetup;
+  onSelectSetup: (setupId: string | null) => void;
+  onSetupsChange: (setups: GymSetup[]) => void;
+}
+
+interface SetupForm {
+  id: string | null;
+  name: string;
+  unit: WeightUnit;
+  barWeight: string;
+  plates: string;
+  isDefault: boolean;
+}
+
+const toForm = (setup: GymSetup): SetupForm => ({
+  id: setup.id,
+  name: setup.id ? setup.name : '',
+  unit: setup.unit,
+  barWeight: String(setup.barWeight),
+  plates: setup.plates.join(', '),
+  isDefault: setup.id ? setup.isDefault : true,
+});
+
+export function PlateCalculator({
+  token,
+  targetWeight,
+  gymSetups,
+  activeSetup,
+  onSelectSetup,
+  onSetupsChange,
+}: PlateCalculatorProps) {
+  const [form, setForm] = useState<SetupForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const breakdown = calculatePlates(targetWeight, activeSetup);
+  const exact = Math.abs(breakdown.loadedWeight - breakdown.targetWeight) < 0.01;
+
+  const saveSetup = async () => {
+    if (!form) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/gym-setups${form.id ? `/${form.id}` : ''}`,
+        {
+          method: form.id ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            name: form.name,
+            unit: form.unit,
+            barWeight: Number(form.barWeight),
+            plates: form.plates
+              .split(/[,\s]+/)
+              .filter(Boolean)
+              .map(Number),
+            isDefault: form.isDefault,
+          }),
+        }
+      );
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || 'Failed to save gym setup');
+        return;
+      }
+
+      const saved: GymSetup = data.gymSetup;
+      const others = gymSetups
+        .filter((setup) => setup.id !== saved.id)
+        .map((setup) => (saved.isDefault ? { ...setup, isDefault: false } : setup));
+      onSetupsChange([...others, saved]);
+      onSelectSetup(saved.id);
+      setForm(null);
+    } catch (err) {
+      console.error('Error saving gym setup:', err);
+      setError('Unable to save gym setup. Check your connection and try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteSetup = async () => {
+    if (!form?.id) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/gym-setups/${form.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to delete gym setup');
+        return;
+      }
+
+      onSetupsChange(gymSetups.filter((setup) => setup.id !== form.id));
+      onSelectSetup(null);
+      setForm(null);
+    } catch (err) {
+      console.error('Error deleting gym setup:', err);
+      setError('Unable to delete gym setup. Check your connection and try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (form) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-muted/50 rounded-xl p-4 border border-border space-y-3"
+      >
+        <p className="text-xs text-muted-foreground">{form.id ? 'EDIT GYM' : 'NEW GYM'}</p>
+        <Input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Gym name"
+          className="h-8"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={form.unit}
+            onChange={(e) => setForm({ ...form, unit: e.target.value as WeightUnit })}
+            className="w-full h-8 px-2 bg-background border border-border rounded-md text-sm"
+            aria-label="Plate unit"
+          >
+            <option value="kg">kg plates</option>
+            <option value="lb">lb plates</option>
+          </select>
+          <Input
+            type="number"
+            value={form.barWeight}
+            onChange={(e) => setForm({ ...form, barWeight: e.target.value })}
+            placeholder="Bar weight"
+            className="h-8"
+            aria-label={`Bar weight (${form.unit})`}
+          />
+        </div>
+        <Input
+          value={form.plates}
+          onChange={(e) => setForm({ ...form, plates: e.target.value })}
+          placeholder="Plates, e.g. 20, 10, 5, 2.5"
+          className="h-8"
+          aria-label={`Available plates (${form.unit})`}
+        />
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={form.isDefault}
+            onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+          />
+          Use this gym by default
+        </label>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+        <div className="flex gap-2">
+          {form.id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={deleteSetup}
+              disabled={saving}
+              className="text-destructive hover:text-destructive"
+            >
+              Delete
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={() => setForm(null)} disabled={saving} className="ml-auto">
+            Cancel
+          </Button>
+          <Button size="sm" onClick={saveSetup} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-muted/50 rounded-xl p-4 border border-border"
+    >
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <p className="text-xs text-muted-foreground">
+          LOAD THE BAR · {breakdown.targetWeight} {activeSetup.unit}
+        </p>
+        <div className="flex items-center gap-1">
+          <select
+            value={activeSetup.id ?? ''}
+            onChange={(e) => onSelectSetup(e.target.value || null)}
+            className="h-7 px-2 bg-background border border-border rounded-md text-xs max-w-[140px]"
+            aria-label="Gym"
+          >
+            {gymSetups.length === 0 && <option value="">{activeSetup.name}</option>}
+            {gymSetups.map((setup) => (
+              <option key={setup.id} value={setup.id ?? ''}>
+                {setup.name}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setForm(toForm(activeSetup))}
+            className="h-7 w-7 p-0"
+            aria-label="Edit gym"
+          >
+            <Settings2 className="w-4 h-4" />
+          </Button>
+          {gymSetups.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setForm(toForm({ ...activeSetup, id: null }))}
+              className="h-7 w-7 p-0"
+              aria-label="Add gym"
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-xs text-muted-foreground">
+          Bar {activeSetup.barWeight} {activeSetup.unit} + each side:
+        </span>
+        {breakdown.perSide.length === 0 ? (
+          <span className="text-sm">nothing</span>
+        ) : (
+          breakdown.perSide.map((plate, index) => (
+            <span
+              key={index}
+              className="px-2 py-0.5 rounded-md bg-accent/10 text-accent text-sm border border-accent/30"
+            >
+              {plate}
+            </span>
+          ))
+        )}
+      </div>
+
+      {!exact && (
+        <p className="text-xs text-warning mt-2">
+          Closest you can load is {breakdown.loadedWeight} {activeSetup.unit}.
+        </p>
+      )}
+    </motion.div>
+  );
+}
@@ -1,14 +1,68 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { ArrowLeft, Check, Repeat, Plus, Minus, Youtube, TrendingUp } from 'lucide-react';
+import { ArrowLeft, ArrowLeftRight, Check, Disc, ExternalLink, Flame, Link2, Repeat, Plus, Minus, Youtube, TrendingUp } from 'lucide-react';
 import { Button } from '../ui/button';
 import { RestTimer } from '../shared/RestTimer';
+import { SessionSummary } from './SessionSummary';
+import { IntervalTimer } from './IntervalTimer';
+import { CatalogExercise, ExercisePicker } from './ExercisePicker';
+import { PlateCalculator } from './PlateCalculator';
+import { SetDurationInput } from '../shared/SetDurationInput';
 import { Input } from '../ui/input';
 import { projectId } from '../../utils/supabase/info';
+import {
+  formatDistance,
+  formatWeight,
+  fromDisplayDistance,
+  fromDisplayWeight,
+  getDistanceUnit,
+  toDisplayDistance,
+  toDisplayWeight,
+  WEIGHT_STEP,
+  WeightUnit,
+} from '../../utils/units';
+import {
+  compareSetPerformance,
+  formatDuration,
+  formatSetPerformance,
+  getTrackingMode,
+  tracksDistance,
+  tracksReps,
+  tracksTime,
+  tracksWeight,
+} from '../../utils/tracking';
+import { generateWarmupSets, GymSetup, isBarbellExercise, STANDARD_GYM_SETUPS } from '../../utils/plates';
+import {
+  formatSetMarker,
+  getSetType,
+  isWarmupSet,
+  SET_TYPE_COLORS,
+  SET_TYPE_LABELS,
+  SET_TYPES,
+  SetType,
+} from '../../utils/setTypes';
+import { EXERCISE_GROUP_LABELS, ExerciseGroup } from '../../utils/exerciseGroups';
+import { describeSetTargets, getTargetWeight } from '../../utils/prescription';
+import { primeRestAlerts } from '../../utils/restAlerts';
+import { IntervalBlock, IntervalResult } from '../../utils/intervals';
+import { ContentSource, getContentEmbedUrl, getContentSourceTitle } from '../../utils/contentSources';
+import {
+  ActiveSession,
+  clearActiveSession,
+  enqueueWorkout,
+  FREESTYLE_SESSION_KEY,
+  flushOutbox,
+  generateClientId,
+  postWorkout,
+  saveActiveSession,
+  WorkoutPayload,
+} from '../../utils/workoutOutbox';
 
 interface SessionLoggingProps {
-  routine: any;
+  routine: any | null;
+  resumeSession?: ActiveSession | null;
   token: string;
+  weightUnit: WeightUnit;
   onBack: () => void;
   onComplete: () => void;
 }
@@ -16,23 +70,265 @@ interface SessionLoggingProps {
 interface SetLog {
   reps: number;
   weight: number;
+  rpe: number | null;
+  restSeconds: number | null;
+  completedAt: string | null;
+  // Drafts saved before set types existed have no type; treat them as working sets.
+  setType?: SetType;
+  durationSeconds?: number | null;
+  distanceMeters?: number | null;
 }
 
-export function SessionLogging({ routine, token, onBack, onComplete }: SessionLoggingProps) {
-  const [currentExerciseIndex, setCurrentExerciseIndex] = useState(0);
-  const [exerciseLogs, setExerciseLogs] = useState<Record<number, SetLog[]>>({});
-  const [lastWorkout, setLastWorkout] = useState<any>(null);
+interface RestInProgress {
+  exerciseIndex: number;
+  setIndex: number;
+  startedAt: number;
+}
+
+interface LastSetLog {
+  setNumber: number;
+  reps: number;
+  weight: number;
+  rpe: number | null;
+  rest: number | null;
+  setType?: SetType;
+  durationSeconds?: number | null;
+  distanceMeters?: number | null;
+}
+
+interface ExercisePerformance {
+  sessionLogId: string;
+  performedAt: string;
+  routineName: string;
+  sets: LastSetLog[];
+}
+
+interface ProgressionSuggestion {
+  routineExerciseId: string;
+  exerciseId: string;
+  action: 'increase_weight' | 'increase_reps' | 'hold';
+  reason: string;
+  sets: Array<{ setNumber: number; weight: number; reps: number }>;
+}
+
+const RPE_OPTIONS = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+
+const DRAFT_SYNC_DELAY_MS = 2000;
+
+// Tapping a set's number cycles through the set types.
+const nextSetType = (setType: SetType) => SET_TYPES[(SET_TYPES.indexOf(setType) + 1) % SET_TYPES.length];
+
+const formatRest = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export function SessionLogging({ routine, resumeSession, token, weightUnit, onBack, onComplete }: SessionLoggingProps) {
+  // Without a routine this is a quick workout: exercises are picked as the client goes.
+  const isFreestyle = !routine;
+  const draftKey: string = routine?.id ?? FREESTYLE_SESSION_KEY;
+  const sessionName: string = routine?.name ?? 'Quick Workout';
+  const [exercises, setExercises] = useState<any[]>(
+    () => resumeSession?.exercises ?? routine?.exercises ?? []
+  );
+  const [currentExerciseIndex, setCurrentExerciseIndex] = useState(() =>
+    resumeSession ? Math.max(0, Math.min(resumeSession.currentExerciseIndex, exercises.length - 1)) : 0
+  );
+  const [exerciseLogs, setExerciseLogs] = useState<Record<number, SetLog[]>>(
+    () => (resumeSession?.exerciseLogs as Record<number, SetLog[]>) ?? {}
+  );
+  // Finisher results, keyed by the routine's interval block.
+  const [intervalLogs, setIntervalLogs] = useState<Record<string, IntervalResult>>(
+    () => (resumeSession?.intervalLogs as Record<string, IntervalResult>) ?? {}
+  );
+  const [exerciseHistory, setExerciseHistory] = useState<Record<string, ExercisePerformance[]>>({});
+  const [suggestions, setSuggestions] = useState<ProgressionSuggestion[]>([]);
   const [showRestHub, setShowRestHub] = useState(false);
-  const [restHubTab, setRestHubTab] = useState<'youtube' | 'stats'>('youtube');
+  const [restHubTab, setRestHubTab] = useState<'content' | 'stats'>('content');
+  // Keyed by exercise; null while that exercise's content is loading.
+  const [restHubContent, setRestHubContent] = useState<Record<string, ContentSource[] | null>>({});
+  const [restHubItemId, setRestHubItemId] = useState<string | null>(null);
+  const [sessionId] = useState(() => resumeSession?.sessionId ?? generateClientId());
+  const [startedAt] = useState(() => resumeSession?.startedAt ?? new Date().toISOString());
+  // Pinned when the session starts, so it is logged against what the client actually saw.
+  const [routineVersionId] = useState<string | null>(() =>
+    resumeSession ? resumeSession.routineVersionId ?? null : routine?.versionId ?? null
+  );
+  const [isCompleting, setIsCompleting] = useState(false);
+  const [completeError, setCompleteError] = useState<string | null>(null);
+  const [restInProgress, setRestInProgress] = useState<RestInProgress | null>(null);
+  const [showSummary, setShowSummary] = useState(false);
+  const [showExercisePicker, setShowExercisePicker] = useState(isFreestyle && exercises.length === 0);
+  const [showSwapPicker, setShowSwapPicker] = useState(false);
+  const [gymSetups, setGymSetups] = useState<GymSetup[] | null>(null);
+  const [selectedGymSetupId, setSelectedGymSetupId] = useState<string | null>(null);
+  const [plateSetIndex, setPlateSetIndex] = useState<number | null>(null);
+  const [restRequest, setRestRequest] = useState<{ seconds: number; startedAt: number } | null>(null);
+  const draftSyncTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const currentExercise = exercises[currentExerciseIndex];
+  const intervalBlocks: IntervalBlock[] = routine?.intervalBlocks ?? [];
+
+  useEffect(() => {
+    const exerciseId = currentExercise?.exerciseId;
+    if (exerciseId && !exerciseHistory[exerciseId]) {
+      fetchExerciseHistory(exerciseId);
+    }
+  }, [currentExercise?.exerciseId]);
+
+  useEffect(() => {
+    if (!isFreestyle) {
+      fetchSuggestions();
+    }
+  }, [draftKey]);
+
+  useEffect(() => {
+    const exerciseId = currentExercise?.exerciseId;
+    if (showRestHub && exerciseId && restHubContent[exerciseId] === undefined) {
+      fetchRestHubContent(exerciseId);
+    }
+  }, [showRestHub, currentExercise?.exerciseId]);
 
   useEffect(() => {
-    fetchLastWorkout();
+    setPlateSetIndex(null);
+    if (isBarbellExercise(currentExercise) && gymSetups === null) {
+      fetchGymSetups();
+    }
+  }, [currentExerciseIndex, currentExercise?.exerciseId]);
+
+  useEffect(() => {
+    if (isCompleting) return;
+
+    const hasProgress =
+      currentExerciseIndex > 0 ||
+      Object.values(exerciseLogs).some((logs) => logs.length > 0) ||
+      Object.keys(intervalLogs).length > 0;
+    if (!hasProgress) return;
+
+    const draft = {
+      sessionId,
+      routineId: draftKey,
+      routineVersionId,
+      exercises,
+      currentExerciseIndex,
+      exerciseLogs,
+      intervalLogs,
+      startedAt,
+    };
+
+    saveActiveSession(draft);
+
+    // Server drafts are keyed by routine, so quick workouts stay on this device.
+    if (isFreestyle) return;
+
+    // The server copy lets the session be resumed on another device; it is
+    // best effort and simply skipped while offline.
+    if (draftSyncTimeout.current) {
+      clearTimeout(draftSyncTimeout.current);
+    }
+    draftSyncTimeout.current = setTimeout(() => {
+      draftSyncTimeout.current = null;
+      saveServerDraft(draft);
+    }, DRAFT_SYNC_DELAY_MS);
+  }, [isCompleting, sessionId, draftKey, routineVersionId, exercises, currentExerciseIndex, exerciseLogs, intervalLogs, startedAt]);
+
+  useEffect(() => {
+    return () => {
+      if (draftSyncTimeout.current) {
+        clearTimeout(draftSyncTimeout.current);
+      }
+    };
   }, []);
 
-  const fetchLastWorkout = async () => {
+  const saveServerDraft = async (draft: Omit<ActiveSession, 'updatedAt'>) => {
+    try {
+      await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/session-drafts/${draft.routineId}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            clientSessionId: draft.sessionId,
+            routineVersionId: draft.routineVersionId,
+            exercises: draft.exercises,
+            currentExerciseIndex: draft.currentExerciseIndex,
+            exerciseLogs: draft.exerciseLogs,
+            intervalLogs: draft.intervalLogs,
+            startedAt: draft.startedAt,
+          }),
+        }
+      );
+    } catch (error) {
+      console.warn('Unable to sync session draft:', error);
+    }
+  };
+
+  const fetchSuggestions = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/session/${draftKey}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        setSuggestions(data.suggestions || []);
+      }
+    } catch (error) {
+      console.error('Error fetching progression suggestions:', error);
+    }
+  };
+
+  const fetchGymSetups = async () => {
+    setGymSetups([]);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/gym-setups`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        setGymSetups(data.gymSetups || []);
+      }
+    } catch (error) {
+      console.error('Error fetching gym setups:', error);
+    }
+  };
+
+  const fetchRestHubContent = async (exerciseId: string) => {
+    setRestHubContent((prev) => ({ ...prev, [exerciseId]: null }));
     try {
       const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/session/${routine.id}`,
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/exercises/${exerciseId}/rest-hub`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      const data = response.ok ? await response.json() : null;
+      setRestHubContent((prev) => ({ ...prev, [exerciseId]: data?.items || [] }));
+    } catch (error) {
+      console.error('Error fetching rest hub content:', error);
+      setRestHubContent((prev) => ({ ...prev, [exerciseId]: [] }));
+    }
+  };
+
+  const fetchExerciseHistory = async (exerciseId: string) => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/exercises/${exerciseId}/history?limit=3`,
         {
           headers: {
             Authorization: `Bearer ${token}`,
@@ -42,43 +338,233 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
 
       if (response.ok) {
         const data = await response.json();
-        setLastWorkout(data.lastWorkout);
+        setExerciseHistory((prev) => ({ ...prev, [exerciseId]: data.performances || [] }));
       }
     } catch (error) {
-      console.error('Error fetching last workout:', error);
+      console.error('Error fetching exercise history:', error);
     }
   };
 
-  const currentExercise = routine.exercises[currentExerciseIndex];
   const currentLogs = exerciseLogs[currentExerciseIndex] || [];
-  const lastExerciseData = lastWorkout?.exercises?.[currentExerciseIndex];
+  // Warm-ups are logged with the exercise but don't count towards the prescription.
+  const workingLogs = currentLogs.filter((set) => !isWarmupSet(set));
+  // Prescribed warm-ups are offered separately, so logged sets line up with the hard sets.
+  const prescribedSets: any[] = Array.isArray(currentExercise?.sets) ? currentExercise.sets : [];
+  const prescribedWorkingSets = prescribedSets.filter((set) => !isWarmupSet(set));
+  const prescribedWarmupSets = prescribedSets.filter((set) => isWarmupSet(set));
+  const trackingMode = getTrackingMode(currentExercise);
+  const isBarbell = tracksWeight(trackingMode) && isBarbellExercise(currentExercise);
+  const activeGymSetup =
+    gymSetups?.find((setup) => setup.id === selectedGymSetupId) ??
+    gymSetups?.find((setup) => setup.isDefault) ??
+    gymSetups?.[0] ??
+    STANDARD_GYM_SETUPS[weightUnit];
+  // Previous numbers follow the exercise itself, whichever routine it was done in.
+  const lastExerciseData = currentExercise ? exerciseHistory[currentExercise.exerciseId]?.[0] : undefined;
+  const lastBestSet = lastExerciseData?.sets
+    .filter((set) => !isWarmupSet(set))
+    .reduce<LastSetLog | undefined>(
+      (best, set) => (!best || compareSetPerformance(set, best, trackingMode) > 0 ? set : best),
+      undefined
+    );
+  const restHubItems = currentExercise ? restHubContent[currentExercise.exerciseId] : undefined;
+  // The exercise's own demo comes first, so it's what shows until another item is picked.
+  const restHubItem = restHubItems?.find((item) => item.id === restHubItemId) ?? restHubItems?.[0];
+  const restHubEmbedUrl = restHubItem ? getContentEmbedUrl(restHubItem) : null;
+  // Suggestions are computed for the prescribed exercise, so they no longer apply once it is swapped.
+  const currentSuggestion = currentExercise
+    ? suggestions.find(
+        (suggestion) =>
+          suggestion.routineExerciseId === currentExercise.id && suggestion.exerciseId === currentExercise.exerciseId
+      )
+    : undefined;
 
-  const addSet = () => {
+  // Grouped exercises are done one set each per round, resting only once the round is over.
+  const currentGroup: ExerciseGroup | undefined = currentExercise?.groupId
+    ? routine?.groups?.find((group: ExerciseGroup) => group.id === currentExercise.groupId)
+    : undefined;
+  const groupMemberIndexes: number[] = currentGroup
+    ? exercises.flatMap((exercise, index) => (exercise.groupId === currentGroup.id ? [index] : []))
+    : [];
+  const countWorkingSets = (logs: Record<number, SetLog[]>, index: number) =>
+    (logs[index] || []).filter((set) => !isWarmupSet(set)).length;
+  const completedRounds = groupMemberIndexes.length
+    ? Math.min(...groupMemberIndexes.map((index) => countWorkingSets(exerciseLogs, index)))
+    : 0;
+
+  // Rest taken after a set is stored on that set, measured from when the rest
+  // timer was started until the next set (or exercise) begins.
+  const withRecordedRest = (logs: Record<number, SetLog[]>) => {
+    if (!restInProgress) {
+      return logs;
+    }
+
+    const { exerciseIndex, setIndex, startedAt } = restInProgress;
+    const exerciseSets = logs[exerciseIndex];
+    setRestInProgress(null);
+    if (!exerciseSets?.[setIndex]) {
+      return logs;
+    }
+
+    const updatedSets = [...exerciseSets];
+    updatedSets[setIndex] = {
+      ...updatedSets[setIndex],
+      restSeconds: Math.round((Date.now() - startedAt) / 1000),
+    };
+    return { ...logs, [exerciseIndex]: updatedSets };
+  };
+
+  const handleRestStart = () => {
+    if (currentLogs.length === 0 || restInProgress) {
+      return;
+    }
+
+    setRestInProgress({
+      exerciseIndex: currentExerciseIndex,
+      setIndex: currentLogs.length - 1,
+      startedAt: Date.now(),
+    });
+  };
+
+  const appendSet = (set: Pick<SetLog, 'reps' | 'weight'> & Partial<SetLog>) => {
+    const logs = withRecordedRest(exerciseLogs);
+    const exerciseSets = logs[currentExerciseIndex] || [];
+    const updatedLogs = {
+      ...logs,
+      [currentExerciseIndex]: [
+        ...exerciseSets,
+        {
+          rpe: null,
+          ...set,
+          restSeconds: null,
+          completedAt: new Date().toISOString(),
+        },
+      ],
+    };
+    setExerciseLogs(updatedLogs);
+
+    // Warm-ups are logged back to back, so only hard sets start the rest timer.
+    if (isWarmupSet(set)) return;
+    primeRestAlerts();
+    if (currentGroup) {
+      advanceInGroup(updatedLogs, exerciseSets.length);
+    } else {
+      startRest(exerciseSets.length, getPrescribedRest(workingLogs.length));
+    }
+  };
+
+  // The server has already fallen back from the set's own rest to the
+  // routine's and then the exercise's default, so only quick workouts need the latter.
+  const getPrescribedRest = (workingSetIndex: number): number => {
+    const prescribedSet =
+      prescribedWorkingSets[workingSetIndex] ?? prescribedWorkingSets[prescribedWorkingSets.length - 1];
+    // A range such as "60-90" rests for its lower bound.
+    const rest = parseInt(prescribedSet?.rest, 10);
+    return Number.isFinite(rest) ? rest : currentExercise?.defaultRestSeconds ?? 90;
+  };
+
+  const startRest = (setIndex: number, seconds: number) => {
+    if (seconds <= 0) return;
+    const startedAt = Date.now();
+    setRestInProgress({ exerciseIndex: currentExerciseIndex, setIndex, startedAt });
+    setRestRequest({ seconds, startedAt });
+  };
+
+  const advanceInGroup = (logs: Record<number, SetLog[]>, setIndex: number) => {
+    const position = groupMemberIndexes.indexOf(currentExerciseIndex);
+    if (position < groupMemberIndexes.length - 1) {
+      setCurrentExerciseIndex(groupMemberIndexes[position + 1]);
+      setShowRestHub(false);
+      return;
+    }
+
+    // The round is over: rest, then start the next round from the first exercise.
+    startRest(setIndex, currentGroup?.restSeconds ?? getPrescribedRest(workingLogs.length));
+    const roundsDone = Math.min(...groupMemberIndexes.map((index) => countWorkingSets(logs, index)));
+    if (currentGroup && roundsDone < currentGroup.rounds) {
+      setCurrentExerciseIndex(groupMemberIndexes[0]);
+    }
+  };
+
+  const getNextWorkingSet = () => {
     // Get default values from the prescribed sets or use fallback
-    const prescribedSets = currentExercise.sets || [];
-    const nextSetIndex = currentLogs.length;
-    const prescribedSet = prescribedSets[nextSetIndex] || prescribedSets[prescribedSets.length - 1];
-    
+    const nextSetIndex = workingLogs.length;
+    const prescribedSet =
+      prescribedWorkingSets[nextSetIndex] || prescribedWorkingSets[prescribedWorkingSets.length - 1];
+    // Sets beyond the prescription are plain working sets, whatever the last prescribed set was.
+    const setType = getSetType(prescribedWorkingSets[nextSetIndex]);
+
     const defaultReps = prescribedSet?.reps ? parseInt(prescribedSet.reps) || 10 : 10;
-    const lastSet = currentLogs[currentLogs.length - 1] || { reps: defaultReps, weight: 0 };
-    
+    const suggestedSet = currentSuggestion?.sets[nextSetIndex];
+    if (suggestedSet) {
+      return { reps: suggestedSet.reps, weight: suggestedSet.weight, setType };
+    }
+
+    const lastSet = workingLogs[workingLogs.length - 1] || {
+      reps: defaultReps,
+      weight: getTargetWeight(prescribedSet) ?? 0,
+      // Time is left blank so the stopwatch starts from zero; a distance target is the goal to cover.
+      durationSeconds: null,
+      distanceMeters: prescribedSet?.targetDistanceMeters ?? null,
+    };
+    return {
+      reps: lastSet.reps,
+      weight: lastSet.weight,
+      durationSeconds: lastSet.durationSeconds ?? null,
+      distanceMeters: lastSet.distanceMeters ?? null,
+      setType,
+    };
+  };
+
+  const addSet = () => {
+    appendSet(getNextWorkingSet());
+  };
+
+  const addWarmupSets = () => {
+    const ramp = generateWarmupSets(getNextWorkingSet().weight, isBarbell ? activeGymSetup : null, weightUnit);
+    // A prescribed warm-up wins; any step without a target weight borrows the generated one.
+    const warmups = prescribedWarmupSets.length
+      ? prescribedWarmupSets.map((set, i) => ({
+          reps: parseInt(set.reps) || ramp[i]?.reps || 5,
+          weight: getTargetWeight(set) ?? ramp[i]?.weight ?? 0,
+        }))
+      : ramp;
+    if (!warmups.length) return;
+
+    const logs = withRecordedRest(exerciseLogs);
+    const completedAt = new Date().toISOString();
     setExerciseLogs({
-      ...exerciseLogs,
-      [currentExerciseIndex]: [...currentLogs, { ...lastSet }],
+      ...logs,
+      [currentExerciseIndex]: [
+        ...(logs[currentExerciseIndex] || []),
+        ...warmups.map((warmup) => ({
+          ...warmup,
+          rpe: null,
+          restSeconds: null,
+          completedAt,
+          setType: 'warmup' as const,
+        })),
+      ],
     });
   };
 
   const repeatLastSet = () => {
     const lastSet = lastExerciseData?.sets?.[lastExerciseData.sets.length - 1];
     if (lastSet) {
-      setExerciseLogs({
-        ...exerciseLogs,
-        [currentExerciseIndex]: [...currentLogs, { reps: lastSet.reps, weight: lastSet.weight }],
+      appendSet({
+        reps: lastSet.reps,
+        weight: lastSet.weight,
+        durationSeconds: lastSet.durationSeconds ?? null,
+        distanceMeters: lastSet.distanceMeters ?? null,
       });
     }
   };
 
-  const updateSet = (setIndex: number, field: 'reps' | 'weight', value: number) => {
+  const updateSet = (
+    setIndex: number,
+    field: 'reps' | 'weight' | 'rpe' | 'setType' | 'durationSeconds' | 'distanceMeters',
+    value: number | SetType | null
+  ) => {
     const updatedLogs = [...currentLogs];
     updatedLogs[setIndex] = { ...updatedLogs[setIndex], [field]: value };
     setExerciseLogs({
@@ -87,58 +573,207 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
     });
   };
 
+  // Logged weights stay in pounds; a step is one plate pair in the client's own unit.
+  const stepWeight = (weight: number, direction: 1 | -1) =>
+    fromDisplayWeight(Math.max(0, toDisplayWeight(weight, weightUnit) + direction * WEIGHT_STEP[weightUnit]), weightUnit);
+
   const removeSet = (setIndex: number) => {
     const updatedLogs = currentLogs.filter((_, i) => i !== setIndex);
+    if (restInProgress?.exerciseIndex === currentExerciseIndex && restInProgress.setIndex >= setIndex) {
+      setRestInProgress(null);
+    }
     setExerciseLogs({
       ...exerciseLogs,
       [currentExerciseIndex]: updatedLogs,
     });
   };
 
+  const addExercise = (exercise: CatalogExercise) => {
+    setExerciseLogs(withRecordedRest(exerciseLogs));
+    setExercises([
+      ...exercises,
+      {
+        id: generateClientId(),
+        exerciseId: exercise.id,
+        name: exercise.name,
+        notes: exercise.instructionNotes ?? null,
+        equipmentRequired: exercise.equipmentRequired ?? null,
+        defaultRestSeconds: exercise.defaultRestSeconds ?? null,
+        trackingMode: exercise.trackingMode ?? 'weight_reps',
+        sets: [],
+      },
+    ]);
+    setCurrentExerciseIndex(exercises.length);
+    setShowRestHub(false);
+    setShowExercisePicker(false);
+  };
+
+  const swapExercise = (exercise: CatalogExercise) => {
+    const original = currentExercise.substitutedFor ?? { exerciseId: currentExercise.exerciseId, name: currentExercise.name };
+    const updatedExercises = [...exercises];
+    updatedExercises[currentExerciseIndex] = {
+      ...currentExercise,
+      exerciseId: exercise.id,
+      name: exercise.name,
+      notes: exercise.instructionNotes ?? null,
+      equipmentRequired: exercise.equipmentRequired ?? null,
+      trackingMode: exercise.trackingMode ?? getTrackingMode(currentExercise),
+      // Swapping back to the prescribed exercise clears the substitution.
+      substitutedFor: isFreestyle || exercise.id === original.exerciseId ? null : original,
+    };
+    setExercises(updatedExercises);
+    setShowSwapPicker(false);
+  };
+
   const nextExercise = () => {
-    if (currentExerciseIndex < routine.exercises.length - 1) {
+    if (currentExerciseIndex < exercises.length - 1) {
+      setExerciseLogs(withRecordedRest(exerciseLogs));
       setCurrentExerciseIndex(currentExerciseIndex + 1);
       setShowRestHub(false);
     } else {
-      completeWorkout();
+      setRestInProgress(null);
+      setShowSummary(true);
     }
   };
 
-  const completeWorkout = async () => {
+  const completeWorkout = async (wrapUp: { clientNotes: string | null; perceivedEffort: number | null }) => {
+    setIsCompleting(true);
+    setCompleteError(null);
     try {
-      const exercises = routine.exercises.map((ex: any, i: number) => ({
-        routineExerciseId: ex.id,
+      const loggedExercises = exercises.map((ex: any, i: number) => ({
+        routineExerciseId: isFreestyle ? undefined : ex.id,
         exerciseId: ex.exerciseId,
         name: ex.name,
+        substitutedForExerciseId: ex.substitutedFor?.exerciseId ?? null,
         sets: (exerciseLogs[i] || []).map((set) => ({
           reps: set.reps,
           weight: set.weight,
+          rpe: set.rpe ?? null,
+          rest: set.restSeconds ?? null,
+          completedAt: set.completedAt ?? null,
+          setType: set.setType ?? 'working',
+          durationSeconds: set.durationSeconds ?? null,
+          distanceMeters: set.distanceMeters ?? null,
         })),
       }));
 
-      await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/log-workout`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            routineId: routine.id,
-            exercises,
-          }),
+      const payload: WorkoutPayload = {
+        clientSessionId: sessionId,
+        routineId: routine?.id ?? null,
+        routineVersionId,
+        date: new Date().toISOString(),
+        durationSeconds: Math.round((Date.now() - new Date(startedAt).getTime()) / 1000),
+        clientNotes: wrapUp.clientNotes,
+        perceivedEffort: wrapUp.perceivedEffort,
+        exercises: loggedExercises,
+        intervalBlocks: intervalBlocks
+          .filter((block) => intervalLogs[block.id])
+          .map((block) => ({
+            routineIntervalBlockId: block.id,
+            kind: block.kind,
+            name: block.name,
+            ...intervalLogs[block.id],
+          })),
+      };
+
+      // Queue locally first so the workout is kept even if the request never leaves the gym.
+      let queued = true;
+      try {
+        await enqueueWorkout({ id: sessionId, routineName: sessionName, payload });
+      } catch (queueError) {
+        console.error('Unable to queue workout', queueError);
+        queued = false;
+      }
+
+      // Without a queue (private browsing, no storage left) the workout has to reach the server now.
+      if (!queued) {
+        const result = await postWorkout(payload, token);
+        if (!result.ok) {
+          throw new Error(result.error);
         }
-      );
+      }
 
+      await clearActiveSession(draftKey).catch((error) => console.error('Unable to clear session draft', error));
+      if (draftSyncTimeout.current) {
+        clearTimeout(draftSyncTimeout.current);
+        draftSyncTimeout.current = null;
+      }
+
+      if (queued) {
+        flushOutbox(token).catch((error) => console.error('Workout sync failed', error));
+      }
       onComplete();
     } catch (error) {
       console.error('Error logging workout:', error);
+      setCompleteError("Your workout couldn't be saved. Check your connection and try again.");
+      setIsCompleting(false);
     }
   };
 
-  const prescribed = Array.isArray(currentExercise.sets) ? currentExercise.sets.length : (currentExercise.sets || 3);
-  const actual = currentLogs.length;
+  if (showExercisePicker) {
+    return (
+      <ExercisePicker
+        token={token}
+        title="Add Exercise"
+        subtitle={sessionName}
+        onBack={() => (exercises.length === 0 ? onBack() : setShowExercisePicker(false))}
+        onSelect={addExercise}
+      />
+    );
+  }
+
+  if (showSwapPicker && currentExercise) {
+    return (
+      <ExercisePicker
+        token={token}
+        title="Swap Exercise"
+        subtitle={`Replacing ${currentExercise.name}`}
+        alternativesFor={currentExercise.substitutedFor?.exerciseId ?? currentExercise.exerciseId}
+        onBack={() => setShowSwapPicker(false)}
+        onSelect={swapExercise}
+      />
+    );
+  }
+
+  if (showSummary) {
+    const loggedSets = Object.values(exerciseLogs)
+      .flat()
+      .filter((set) => !isWarmupSet(set));
+    return (
+      <SessionSummary
+        routineName={sessionName}
+        durationSeconds={Math.round((Date.now() - new Date(startedAt).getTime()) / 1000)}
+        totalVolume={loggedSets.reduce((total, set) => total + set.reps * set.weight, 0)}
+        weightUnit={weightUnit}
+        setsCompleted={loggedSets.length}
+        setsPrescribed={isFreestyle ? null : exercises.reduce(
+          (total: number, ex: any) =>
+            total + (Array.isArray(ex.sets) ? ex.sets.filter((set: any) => !isWarmupSet(set)).length : 0),
+          0
+        )}
+        submitting={isCompleting}
+        error={completeError}
+        onBack={() => setShowSummary(false)}
+        onSubmit={completeWorkout}
+      />
+    );
+  }
+
+  if (!currentExercise) {
+    return null;
+  }
+
+  const prescribed = Array.isArray(currentExercise.sets) ? prescribedWorkingSets.length : (currentExercise.sets || 3);
+  const actual = workingLogs.length;
+  // Working sets are numbered on their own so they line up with the prescription.
+  const workingIndexes = currentLogs.map(
+    (_, i) => currentLogs.slice(0, i).filter((set) => !isWarmupSet(set)).length
+  );
+  const nextWorkingWeight = getNextWorkingSet().weight;
+  const plateTargetWeight =
+    (plateSetIndex != null ? currentLogs[plateSetIndex]?.weight : undefined) ??
+    currentLogs[currentLogs.length - 1]?.weight ??
+    nextWorkingWeight;
 
   return (
     <div className="min-h-screen bg-background pb-20">
@@ -154,9 +789,9 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
             <ArrowLeft className="w-5 h-5" />
           </Button>
           <div className="flex-1">
-            <h2 className="text-primary-foreground">{routine.name}</h2>
+            <h2 className="text-primary-foreground">{sessionName}</h2>
             <p className="text-sm text-primary-foreground/80">
-              Exercise {currentExerciseIndex + 1} of {routine.exercises.length}
+              Exercise {currentExerciseIndex + 1} of {exercises.length}
             </p>
           </div>
         </div>
@@ -166,13 +801,43 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
           <motion.div
             className="h-full bg-accent"
             initial={{ width: 0 }}
-            animate={{ width: `${((currentExerciseIndex + 1) / routine.exercises.length) * 100}%` }}
+            animate={{ width: `${((currentExerciseIndex + 1) / exercises.length) * 100}%` }}
             transition={{ duration: 0.3 }}
           />
         </div>
       </div>
 
       <div className="px-6 py-6 space-y-6">
+        {currentGroup && (
+          <div className="bg-card rounded-2xl p-4 border border-border border-l-4 border-l-accent">
+            <div className="flex items-center justify-between mb-3">
+              <p className="flex items-center gap-2 text-sm">
+                <Link2 className="w-4 h-4 text-accent" />
+                {EXERCISE_GROUP_LABELS[currentGroup.kind]}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Round {Math.min(completedRounds + 1, currentGroup.rounds)} of {currentGroup.rounds}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {groupMemberIndexes.map((index, position) => (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => setCurrentExerciseIndex(index)}
+                  className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                    index === currentExerciseIndex
+                      ? 'bg-accent text-accent-foreground border-accent'
+                      : 'border-border text-muted-foreground'
+                  }`}
+                >
+                  {String.fromCharCode(65 + position)}. {exercises[index].name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Exercise Info */}
         <motion.div
           key={currentExerciseIndex}
@@ -180,7 +845,24 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
           animate={{ opacity: 1, x: 0 }}
           className="bg-card rounded-2xl p-6 border border-border"
         >
-          <h2 className="mb-2">{currentExercise.name}</h2>
+          <div className="flex items-start justify-between gap-3 mb-2">
+            <h2>{currentExercise.name}</h2>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowSwapPicker(true)}
+              disabled={currentLogs.length > 0}
+              className="gap-2 flex-shrink-0"
+            >
+              <ArrowLeftRight className="w-4 h-4" />
+              Swap
+            </Button>
+          </div>
+          {currentExercise.substitutedFor && (
+            <p className="text-xs text-muted-foreground mb-2">
+              Swapped in for {currentExercise.substitutedFor.name}
+            </p>
+          )}
           {currentExercise.notes && (
             <p className="text-sm text-muted-foreground">{currentExercise.notes}</p>
           )}
@@ -191,8 +873,8 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
           <div>
             <p className="text-sm text-muted-foreground">Sets</p>
             <p className="text-2xl">
-              <span className={actual >= prescribed ? 'text-success' : ''}>{actual}</span>
-              <span className="text-muted-foreground"> / {prescribed}</span>
+              <span className={!isFreestyle && actual >= prescribed ? 'text-success' : ''}>{actual}</span>
+              {!isFreestyle && <span className="text-muted-foreground"> / {prescribed}</span>}
             </p>
           </div>
           
@@ -209,31 +891,131 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
           )}
         </div>
 
-        {/* Last Set Card */}
-        {lastExerciseData && (
+        {/* Prescription */}
+        {!isFreestyle && Array.isArray(currentExercise.sets) && currentExercise.sets.length > 0 && (
+          <div className="bg-card rounded-2xl p-4 border border-border">
+            <p className="text-xs text-muted-foreground mb-2">PRESCRIBED</p>
+            <div className="space-y-1.5">
+              {currentExercise.sets.map((set: any, i: number) => {
+                const setType = getSetType(set);
+                // Suggestions only cover the hard sets.
+                const suggestedSet =
+                  setType === 'warmup' ? undefined : currentSuggestion?.sets[prescribedWorkingSets.indexOf(set)];
+                const targetWeight = getTargetWeight(set);
+                const targets = describeSetTargets(set);
+                return (
+                  <div key={set.setNumber ?? i} className="flex flex-wrap items-baseline gap-2">
+                    <span className="text-xs text-muted-foreground w-6">#{set.setNumber ?? i + 1}</span>
+                    {tracksReps(trackingMode) && (
+                      <>
+                        <span>{set.reps}</span>
+                        <span className="text-xs text-muted-foreground">reps</span>
+                      </>
+                    )}
+                    {tracksDistance(trackingMode) && set.targetDistanceMeters != null && (
+                      <span>{formatDistance(set.targetDistanceMeters, weightUnit)}</span>
+                    )}
+                    {tracksTime(trackingMode) && set.targetDurationSeconds != null && (
+                      <span>
+                        {trackingMode === 'distance_time' && set.targetDistanceMeters != null ? 'in ' : ''}
+                        {formatDuration(set.targetDurationSeconds)}
+                      </span>
+                    )}
+                    {setType !== 'working' && (
+                      <span className={`text-xs ${SET_TYPE_COLORS[setType]}`}>{SET_TYPE_LABELS[setType]}</span>
+                    )}
+                    {tracksWeight(trackingMode) && targetWeight != null && (
+                      <>
+                        <span className="text-muted-foreground">×</span>
+                        <span>{toDisplayWeight(targetWeight, weightUnit)}</span>
+                        <span className="text-xs text-muted-foreground">{weightUnit}</span>
+                      </>
+                    )}
+                    {targets.length > 0 && (
+                      <span className="text-xs text-muted-foreground">{targets.join(' · ')}</span>
+                    )}
+                    {suggestedSet && (
+                      <span className="text-xs text-accent ml-auto flex items-center gap-1">
+                        <TrendingUp className="w-3 h-3" />
+                        {suggestedSet.reps} × {formatWeight(suggestedSet.weight, weightUnit)}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {currentSuggestion && (
+              <p className="text-xs text-muted-foreground mt-2">Suggested target · {currentSuggestion.reason}</p>
+            )}
+          </div>
+        )}
+
+        {/* Last Workout Card */}
+        {lastExerciseData && lastExerciseData.sets.length > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
             className="bg-muted/50 rounded-xl p-4 border border-border"
           >
-            <p className="text-xs text-muted-foreground mb-2">LAST WORKOUT</p>
-            <div className="flex gap-4">
-              {lastExerciseData.sets?.slice(-1).map((set: SetLog, i: number) => (
-                <div key={i} className="flex items-baseline gap-2">
-                  <span className="text-xl">{set.reps}</span>
-                  <span className="text-xs text-muted-foreground">reps</span>
-                  <span className="text-muted-foreground">×</span>
-                  <span className="text-xl">{set.weight}</span>
-                  <span className="text-xs text-muted-foreground">lbs</span>
+            <p className="text-xs text-muted-foreground mb-2">
+              LAST TIME ·{' '}
+              {new Date(lastExerciseData.performedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              {lastExerciseData.routineName !== sessionName && ` · ${lastExerciseData.routineName}`}
+            </p>
+            <div className="space-y-1.5">
+              {lastExerciseData.sets.map((set: LastSetLog) => (
+                <div key={set.setNumber} className="flex items-baseline gap-2">
+                  <span className={`text-xs w-6 ${SET_TYPE_COLORS[getSetType(set)]}`}>
+                    {formatSetMarker(getSetType(set), set.setNumber)}
+                  </span>
+                  {tracksWeight(trackingMode) ? (
+                    <>
+                      <span className="text-xl">{set.reps}</span>
+                      <span className="text-xs text-muted-foreground">reps</span>
+                      <span className="text-muted-foreground">×</span>
+                      <span className="text-xl">{toDisplayWeight(set.weight, weightUnit)}</span>
+                      <span className="text-xs text-muted-foreground">{weightUnit}</span>
+                    </>
+                  ) : (
+                    <span className="text-xl">{formatSetPerformance(set, trackingMode, weightUnit)}</span>
+                  )}
+                  {set.rpe != null && (
+                    <span className="text-xs text-muted-foreground ml-auto">RPE {set.rpe}</span>
+                  )}
+                  {set.rest != null && (
+                    <span className={`text-xs text-muted-foreground ${set.rpe != null ? '' : 'ml-auto'}`}>
+                      {formatRest(set.rest)} rest
+                    </span>
+                  )}
                 </div>
               ))}
             </div>
           </motion.div>
         )}
 
+        {/* Plate Calculator */}
+        {isBarbell && plateTargetWeight > 0 && (
+          <PlateCalculator
+            token={token}
+            targetWeight={plateTargetWeight}
+            gymSetups={gymSetups ?? []}
+            activeSetup={activeGymSetup}
+            onSelectSetup={setSelectedGymSetupId}
+            onSetupsChange={setGymSetups}
+          />
+        )}
+
         {/* Sets Log */}
         <div className="space-y-3">
-          <h3>Log Sets</h3>
+          <div className="flex items-center justify-between">
+            <h3>Log Sets</h3>
+            {tracksWeight(trackingMode) && currentLogs.length === 0 && nextWorkingWeight > 0 && (
+              <Button variant="outline" size="sm" onClick={addWarmupSets} className="gap-2">
+                <Flame className="w-4 h-4" />
+                Add Warm-up
+              </Button>
+            )}
+          </div>
           <AnimatePresence>
             {currentLogs.map((set, i) => (
               <motion.div
@@ -244,66 +1026,130 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
                 className="bg-card rounded-xl p-4 border border-border"
               >
                 <div className="flex items-center gap-3">
-                  <span className="text-sm text-muted-foreground w-8">#{i + 1}</span>
+                  <button
+                    type="button"
+                    onClick={() => updateSet(i, 'setType', nextSetType(getSetType(set)))}
+                    className={`text-sm w-8 text-left ${SET_TYPE_COLORS[getSetType(set)]}`}
+                    aria-label={`Set type: ${SET_TYPE_LABELS[getSetType(set)]}. Tap to change.`}
+                    title={SET_TYPE_LABELS[getSetType(set)]}
+                  >
+                    {formatSetMarker(getSetType(set), workingIndexes[i] + 1)}
+                  </button>
                   
-                  <div className="flex-1 grid grid-cols-2 gap-3">
-                    <div>
-                      <label className="text-xs text-muted-foreground">Reps</label>
-                      <div className="flex items-center gap-2 mt-1">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => updateSet(i, 'reps', Math.max(0, set.reps - 1))}
-                          className="h-8 w-8 p-0"
-                        >
-                          <Minus className="w-3 h-3" />
-                        </Button>
-                        <Input
-                          type="number"
-                          value={set.reps}
-                          onChange={(e) => updateSet(i, 'reps', parseInt(e.target.value) || 0)}
-                          className="text-center h-8"
-                        />
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => updateSet(i, 'reps', set.reps + 1)}
-                          className="h-8 w-8 p-0"
-                        >
-                          <Plus className="w-3 h-3" />
-                        </Button>
+                  <div
+                    className={`flex-1 grid gap-3 ${
+                      trackingMode === 'time' || trackingMode === 'reps' ? 'grid-cols-1' : 'grid-cols-2'
+                    }`}
+                  >
+                    {tracksReps(trackingMode) && (
+                      <div>
+                        <label className="text-xs text-muted-foreground">Reps</label>
+                        <div className="flex items-center gap-2 mt-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateSet(i, 'reps', Math.max(0, set.reps - 1))}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Minus className="w-3 h-3" />
+                          </Button>
+                          <Input
+                            type="number"
+                            value={set.reps}
+                            onChange={(e) => updateSet(i, 'reps', parseInt(e.target.value) || 0)}
+                            className="text-center h-8"
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateSet(i, 'reps', set.reps + 1)}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Plus className="w-3 h-3" />
+                          </Button>
+                        </div>
                       </div>
-                    </div>
+                    )}
 
-                    <div>
-                      <label className="text-xs text-muted-foreground">Weight (lbs)</label>
-                      <div className="flex items-center gap-2 mt-1">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => updateSet(i, 'weight', Math.max(0, set.weight - 5))}
-                          className="h-8 w-8 p-0"
-                        >
-                          <Minus className="w-3 h-3" />
-                        </Button>
+                    {tracksWeight(trackingMode) && (
+                      <div>
+                        <label className="text-xs text-muted-foreground">Weight ({weightUnit})</label>
+                        <div className="flex items-center gap-2 mt-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateSet(i, 'weight', stepWeight(set.weight, -1))}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Minus className="w-3 h-3" />
+                          </Button>
+                          <Input
+                            type="number"
+                            step={weightUnit === 'kg' ? 0.25 : 0.5}
+                            value={toDisplayWeight(set.weight, weightUnit)}
+                            onChange={(e) =>
+                              updateSet(i, 'weight', fromDisplayWeight(parseFloat(e.target.value) || 0, weightUnit))
+                            }
+                            className="text-center h-8"
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateSet(i, 'weight', stepWeight(set.weight, 1))}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Plus className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {tracksDistance(trackingMode) && (
+                      <div>
+                        <label className="text-xs text-muted-foreground">
+                          Distance ({getDistanceUnit(weightUnit)})
+                        </label>
                         <Input
                           type="number"
-                          value={set.weight}
-                          onChange={(e) => updateSet(i, 'weight', parseInt(e.target.value) || 0)}
-                          className="text-center h-8"
+                          step={0.01}
+                          inputMode="decimal"
+                          value={set.distanceMeters != null ? toDisplayDistance(set.distanceMeters, weightUnit) : ''}
+                          onChange={(e) =>
+                            updateSet(
+                              i,
+                              'distanceMeters',
+                              e.target.value === '' ? null : fromDisplayDistance(parseFloat(e.target.value) || 0, weightUnit)
+                            )
+                          }
+                          className="text-center h-8 mt-1"
                         />
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => updateSet(i, 'weight', set.weight + 5)}
-                          className="h-8 w-8 p-0"
-                        >
-                          <Plus className="w-3 h-3" />
-                        </Button>
                       </div>
-                    </div>
+                    )}
+
+                    {tracksTime(trackingMode) && (
+                      <div>
+                        <label className="text-xs text-muted-foreground">Time</label>
+                        <div className="mt-1">
+                          <SetDurationInput
+                            value={set.durationSeconds ?? null}
+                            onChange={(seconds) => updateSet(i, 'durationSeconds', seconds)}
+                          />
+                        </div>
+                      </div>
+                    )}
                   </div>
 
+                  {isBarbell && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPlateSetIndex(i)}
+                      className={`h-8 w-8 p-0 ${plateSetIndex === i ? 'text-accent' : 'text-muted-foreground'}`}
+                      aria-label="Show plates for this set"
+                    >
+                      <Disc className="w-4 h-4" />
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="sm"
@@ -313,6 +1159,43 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
                     ×
                   </Button>
                 </div>
+
+                <div className="mt-3 pl-11">
+                  <label className="text-xs text-muted-foreground">RPE</label>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {RPE_OPTIONS.map((option) => (
+                      <button
+                        key={option}
+                        type="button"
+                        onClick={() => updateSet(i, 'rpe', set.rpe === option ? null : option)}
+                        className={`px-2 py-1 rounded-md text-xs border transition-colors ${
+                          set.rpe === option
+                            ? 'bg-accent text-accent-foreground border-accent'
+                            : 'border-border text-muted-foreground hover:bg-muted'
+                        }`}
+                      >
+                        {option}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
+                    <span>
+                      {set.restSeconds != null
+                        ? `Rested ${formatRest(set.restSeconds)}`
+                        : restInProgress?.exerciseIndex === currentExerciseIndex && restInProgress.setIndex === i
+                          ? 'Resting…'
+                          : ''}
+                    </span>
+                    {!isWarmupSet(set) && lastExerciseData?.sets?.[workingIndexes[i]] && (
+                      <span>
+                        Last time: {formatSetPerformance(lastExerciseData.sets[workingIndexes[i]], trackingMode, weightUnit)}
+                        {lastExerciseData.sets[workingIndexes[i]].rpe != null
+                          ? ` @ RPE ${lastExerciseData.sets[workingIndexes[i]].rpe}`
+                          : ''}
+                      </span>
+                    )}
+                  </div>
+                </div>
               </motion.div>
             ))}
           </AnimatePresence>
@@ -324,7 +1207,12 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
         </div>
 
         {/* Rest Timer */}
-        <RestTimer onComplete={() => setShowRestHub(true)} />
+        <RestTimer
+          initialSeconds={currentGroup?.restSeconds ?? getPrescribedRest(workingLogs.length)}
+          startRequest={restRequest}
+          onStart={handleRestStart}
+          onComplete={() => setShowRestHub(true)}
+        />
 
         {/* Rest Hub Carousel */}
         {showRestHub && (
@@ -335,9 +1223,9 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
           >
             <div className="flex border-b border-border">
               <button
-                onClick={() => setRestHubTab('youtube')}
+                onClick={() => setRestHubTab('content')}
                 className={`flex-1 px-4 py-3 text-sm transition-colors ${
-                  restHubTab === 'youtube'
+                  restHubTab === 'content'
                     ? 'bg-accent text-accent-foreground'
                     : 'text-muted-foreground hover:bg-muted'
                 }`}
@@ -359,20 +1247,73 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
             </div>
 
             <div className="p-6">
-              {restHubTab === 'youtube' ? (
-                <div className="aspect-video bg-muted rounded-lg flex items-center justify-center">
-                  <div className="text-center">
-                    <Youtube className="w-12 h-12 text-muted-foreground mx-auto mb-2" />
-                    <p className="text-sm text-muted-foreground">YouTube embed placeholder</p>
+              {restHubTab === 'content' ? (
+                !restHubItem ? (
+                  <div className="aspect-video bg-muted rounded-lg flex items-center justify-center">
+                    <div className="text-center">
+                      <Youtube className="w-12 h-12 text-muted-foreground mx-auto mb-2" />
+                      <p className="text-sm text-muted-foreground">
+                        {restHubItems === null ? 'Loading...' : 'Nothing to watch for this exercise yet'}
+                      </p>
+                    </div>
                   </div>
-                </div>
+                ) : (
+                  <div className="space-y-3">
+                    {restHubEmbedUrl ? (
+                      <div className="aspect-video bg-muted rounded-lg overflow-hidden">
+                        <iframe
+                          key={restHubItem.id}
+                          src={restHubEmbedUrl}
+                          title={getContentSourceTitle(restHubItem)}
+                          className="w-full h-full"
+                          allow="accelerometer; autoplay; encrypted-media; gyroscope; picture-in-picture"
+                          allowFullScreen
+                        />
+                      </div>
+                    ) : (
+                      <a
+                        href={restHubItem.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-3 bg-muted/50 rounded-lg p-3 hover:bg-muted transition-colors"
+                      >
+                        {restHubItem.thumbnailUrl && (
+                          <img
+                            src={restHubItem.thumbnailUrl}
+                            alt=""
+                            className="w-20 h-12 rounded-md object-cover flex-shrink-0"
+                          />
+                        )}
+                        <span className="flex-1 min-w-0 text-sm truncate">{getContentSourceTitle(restHubItem)}</span>
+                        <ExternalLink className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                      </a>
+                    )}
+                    {restHubItems && restHubItems.length > 1 && (
+                      <div className="flex gap-2 overflow-x-auto pb-1">
+                        {restHubItems.map((item) => (
+                          <button
+                            key={item.id}
+                            onClick={() => setRestHubItemId(item.id)}
+                            className={`px-3 py-1 rounded-full text-xs whitespace-nowrap transition-colors ${
+                              item.id === restHubItem.id
+                                ? 'bg-accent text-accent-foreground'
+                                : 'bg-muted text-muted-foreground hover:bg-muted/80'
+                            }`}
+                          >
+                            {getContentSourceTitle(item)}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )
               ) : (
                 <div className="space-y-3">
-                  <h4>Personal Records</h4>
+                  <h4>Last Session</h4>
                   <div className="bg-muted/50 rounded-lg p-4">
                     <p className="text-sm text-muted-foreground mb-1">Best Set</p>
                     <p className="text-2xl">
-                      {lastExerciseData?.sets?.[0]?.reps || 0} reps × {lastExerciseData?.sets?.[0]?.weight || 0} lbs
+                      {lastBestSet ? formatSetPerformance(lastBestSet, trackingMode, weightUnit) : '—'}
                     </p>
                   </div>
                 </div>
@@ -381,22 +1322,59 @@ export function SessionLogging({ routine, token, onBack, onComplete }: SessionLo
           </motion.div>
         )}
 
+        {/* Finishers come after the last exercise */}
+        {currentExerciseIndex === exercises.length - 1 && intervalBlocks.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-muted-foreground">Finishers</h3>
+            {intervalBlocks.map((block) => (
+              <IntervalTimer
+                key={block.id}
+                block={block}
+                result={intervalLogs[block.id]}
+                onLog={(result) => setIntervalLogs({ ...intervalLogs, [block.id]: result })}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Complete Button */}
-        <Button
-          onClick={nextExercise}
-          className="w-full"
-          size="lg"
-          disabled={currentLogs.length === 0}
-        >
-          {currentExerciseIndex < routine.exercises.length - 1 ? (
-            <>Next Exercise</>
-          ) : (
-            <>
+        {isFreestyle && currentExerciseIndex === exercises.length - 1 ? (
+          <div className="grid grid-cols-2 gap-3">
+            <Button
+              onClick={() => setShowExercisePicker(true)}
+              variant="outline"
+              size="lg"
+              disabled={isCompleting}
+            >
+              <Plus className="w-5 h-5 mr-2" />
+              Add Exercise
+            </Button>
+            <Button
+              onClick={nextExercise}
+              size="lg"
+              disabled={!Object.values(exerciseLogs).some((logs) => logs.length > 0) || isCompleting}
+            >
               <Check className="w-5 h-5 mr-2" />
-              Complete Workout
-            </>
-          )}
-        </Button>
+              Finish
+            </Button>
+          </div>
+        ) : (
+          <Button
+            onClick={nextExercise}
+            className="w-full"
+            size="lg"
+            disabled={currentLogs.length === 0 || isCompleting}
+          >
+            {currentExerciseIndex < exercises.length - 1 ? (
+              <>Next Exercise</>
+            ) : (
+              <>
+                <Check className="w-5 h-5 mr-2" />
+                Complete Workout
+              </>
+            )}
+          </Button>
+        )}
       </div>
     </div>
   );
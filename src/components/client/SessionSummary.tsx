@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft, Check, Clock, Dumbbell, ListChecks } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Textarea } from '../ui/textarea';
+import { formatVolume, WeightUnit } from '../../utils/units';
+import { formatSessionDuration } from '../../utils/tracking';
+
+interface SessionSummaryProps {
+  routineName: string;
+  durationSeconds: number;
+  totalVolume: number;
+  weightUnit: WeightUnit;
+  setsCompleted: number;
+  setsPrescribed: number | null;
+  submitting: boolean;
+  // Shown above the finish button when the workout could not be saved.
+  error?: string | null;
+  onBack: () => void;
+  onSubmit: (wrapUp: { clientNotes: string | null; perceivedEffort: number | null }) => void;
+}
+
+const EFFORT_OPTIONS = Array.from({ length: 11 }, (_, i) => i);
+
+export function SessionSummary({
+  routineName,
+  durationSeconds,
+  totalVolume,
+  weightUnit,
+  setsCompleted,
+  setsPrescribed,
+  submitting,
+  error,
+  onBack,
+  onSubmit,
+}: SessionSummaryProps) {
+  const [notes, setNotes] = useState('');
+  const [effort, setEffort] = useState<number | null>(null);
+
+  const stats = [
+    { label: 'Duration', value: formatSessionDuration(durationSeconds), icon: Clock },
+    { label: 'Volume', value: formatVolume(totalVolume, weightUnit), icon: Dumbbell },
+    {
+      label: 'Sets',
+      value: setsPrescribed != null ? `${setsCompleted} / ${setsPrescribed}` : `${setsCompleted}`,
+      icon: ListChecks,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {/* Header */}
+      <div className="bg-primary text-primary-foreground px-6 py-6 sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onBack}
+            className="text-primary-foreground hover:bg-white/10 -ml-2"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex-1">
+            <h2 className="text-primary-foreground">Workout Summary</h2>
+            <p className="text-sm text-primary-foreground/80">{routineName}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        <div className="grid grid-cols-3 gap-3">
+          {stats.map((stat, index) => {
+            const Icon = stat.icon;
+            return (
+              <motion.div
+                key={stat.label}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="bg-card rounded-2xl p-4 border border-border text-center"
+              >
+                <Icon className="w-5 h-5 text-accent mx-auto mb-2" />
+                <p className="text-xs text-muted-foreground mb-1">{stat.label}</p>
+                <p className="text-lg">{stat.value}</p>
+              </motion.div>
+            );
+          })}
+        </div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="bg-card rounded-2xl p-6 border border-border"
+        >
+          <h3 className="mb-1">How hard was that?</h3>
+          <p className="text-sm text-muted-foreground mb-4">0 is effortless, 10 is maximal effort.</p>
+          <div className="grid grid-cols-11 gap-1">
+            {EFFORT_OPTIONS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setEffort(effort === option ? null : option)}
+                className={`h-9 rounded-md text-sm border transition-colors ${
+                  effort === option
+                    ? 'bg-accent text-accent-foreground border-accent'
+                    : 'border-border text-muted-foreground hover:bg-muted'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="bg-card rounded-2xl p-6 border border-border"
+        >
+          <h3 className="mb-3">Notes for your trainer</h3>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Anything worth mentioning? e.g. left knee felt tight on squats"
+            className="resize-none"
+            rows={4}
+          />
+        </motion.div>
+
+        {error && (
+          <div className="rounded-md border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        <Button
+          onClick={() => onSubmit({ clientNotes: notes.trim() || null, perceivedEffort: effort })}
+          className="w-full"
+          size="lg"
+          disabled={submitting}
+        >
+          <Check className="w-5 h-5 mr-2" />
+          {submitting ? 'Saving...' : 'Finish Workout'}
+        </Button>
+      </div>
+    </div>
+  );
+}
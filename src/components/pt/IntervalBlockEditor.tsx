@@ -0,0 +1,276 @@
+import React from "react";
+import { Plus, Timer, Trash2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import {
+  INTERVAL_DEFAULTS,
+  INTERVAL_KIND_LABELS,
+  INTERVAL_KINDS,
+  IntervalBlock,
+  IntervalKind,
+} from "../../utils/intervals";
+import { formatDuration, parseDuration } from "../../utils/tracking";
+
+// Times are kept as typed (m:ss or seconds) until the routine is saved.
+export interface IntervalBlockDraft {
+  id: string;
+  kind: IntervalKind;
+  name: string;
+  notes: string;
+  rounds: string;
+  work: string;
+  rest: string;
+  intervals: Array<{
+    id: string;
+    label: string;
+    duration: string;
+    phase: "work" | "rest";
+  }>;
+}
+
+const formatOptionalDuration = (seconds: number | null) =>
+  seconds != null ? formatDuration(seconds) : "";
+
+const toIntervalDrafts = (intervals: IntervalBlock["intervals"]) =>
+  intervals.map((step, index) => ({
+    id: `interval-${Date.now()}-${index}`,
+    label: step.label,
+    duration: formatDuration(step.seconds),
+    phase: step.phase,
+  }));
+
+export const createIntervalBlockDraft = (
+  kind: IntervalKind,
+  base?: Pick<IntervalBlockDraft, "id" | "name" | "notes">,
+): IntervalBlockDraft => {
+  const defaults = INTERVAL_DEFAULTS[kind];
+  return {
+    id: base?.id ?? `block-${Date.now()}`,
+    kind,
+    name: base?.name ?? "",
+    notes: base?.notes ?? "",
+    rounds: String(defaults.rounds),
+    work: formatOptionalDuration(defaults.workSeconds),
+    rest: formatOptionalDuration(defaults.restSeconds),
+    intervals: toIntervalDrafts(defaults.intervals),
+  };
+};
+
+export const toIntervalBlockDraft = (block: IntervalBlock): IntervalBlockDraft => ({
+  id: block.id,
+  kind: block.kind,
+  name: block.name ?? "",
+  notes: block.notes ?? "",
+  rounds: String(block.rounds),
+  work: formatOptionalDuration(block.workSeconds),
+  rest: formatOptionalDuration(block.restSeconds),
+  intervals: toIntervalDrafts(block.intervals),
+});
+
+// Saved blocks keep their id so logged sessions stay linked; new ones' ids are ignored.
+export const fromIntervalBlockDraft = (draft: IntervalBlockDraft) => ({
+  id: draft.id,
+  kind: draft.kind,
+  name: draft.name.trim() || null,
+  notes: draft.notes.trim() || null,
+  rounds: parseInt(draft.rounds, 10) || 1,
+  workSeconds: parseDuration(draft.work) || null,
+  restSeconds: parseDuration(draft.rest),
+  intervals: draft.intervals.map((step) => ({
+    label: step.label.trim(),
+    seconds: parseDuration(step.duration) ?? 0,
+    phase: step.phase,
+  })),
+});
+
+interface IntervalBlockEditorProps {
+  block: IntervalBlockDraft;
+  onChange: (block: IntervalBlockDraft) => void;
+  onRemove: () => void;
+}
+
+export function IntervalBlockEditor({
+  block,
+  onChange,
+  onRemove,
+}: IntervalBlockEditorProps) {
+  const update = (field: keyof IntervalBlockDraft, value: string) =>
+    onChange({ ...block, [field]: value });
+
+  const updateInterval = (
+    intervalId: string,
+    field: "label" | "duration" | "phase",
+    value: string,
+  ) =>
+    onChange({
+      ...block,
+      intervals: block.intervals.map((step) =>
+        step.id === intervalId ? { ...step, [field]: value } : step,
+      ),
+    });
+
+  const addInterval = () => {
+    const lastStep = block.intervals[block.intervals.length - 1];
+    onChange({
+      ...block,
+      intervals: [
+        ...block.intervals,
+        {
+          id: `interval-${Date.now()}`,
+          label: lastStep?.phase === "work" ? "Rest" : "Work",
+          duration: lastStep?.duration ?? "0:30",
+          phase: lastStep?.phase === "work" ? "rest" : "work",
+        },
+      ],
+    });
+  };
+
+  const timingField = (
+    field: "rounds" | "work" | "rest",
+    label: string,
+    placeholder: string,
+  ) => (
+    <div>
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        type="text"
+        inputMode={field === "rounds" ? "numeric" : undefined}
+        value={block[field]}
+        onChange={(e) => update(field, e.target.value)}
+        placeholder={placeholder}
+        className="mt-1 h-8 text-sm"
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-card rounded-2xl p-4 border border-border shadow-sm">
+      <div className="flex items-center gap-2 mb-3">
+        <Timer className="w-5 h-5 text-accent flex-shrink-0" />
+        {/* Switching kind starts again from that kind's usual timings. */}
+        <select
+          value={block.kind}
+          onChange={(e) =>
+            onChange(
+              createIntervalBlockDraft(e.target.value as IntervalKind, block),
+            )
+          }
+          className="h-8 px-2 bg-background border border-border rounded-md text-sm"
+        >
+          {INTERVAL_KINDS.map((kind) => (
+            <option key={kind} value={kind}>
+              {INTERVAL_KIND_LABELS[kind]}
+            </option>
+          ))}
+        </select>
+        <Input
+          value={block.name}
+          onChange={(e) => update("name", e.target.value)}
+          placeholder="Name (optional)"
+          className="flex-1 h-8 text-sm"
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-3">
+        {block.kind === "emom" && (
+          <>
+            {timingField("rounds", "Intervals", "10")}
+            {timingField("work", "Every (m:ss)", "1:00")}
+          </>
+        )}
+        {block.kind === "amrap" &&
+          timingField("work", "Time cap (m:ss)", "10:00")}
+        {block.kind === "tabata" && (
+          <>
+            {timingField("rounds", "Rounds", "8")}
+            {timingField("work", "Work (m:ss)", "0:20")}
+            {timingField("rest", "Rest (m:ss)", "0:10")}
+          </>
+        )}
+        {block.kind === "custom" && timingField("rounds", "Rounds", "3")}
+      </div>
+
+      {block.kind === "custom" && (
+        <div className="space-y-2 mb-3">
+          {block.intervals.map((step) => (
+            <div
+              key={step.id}
+              className="flex items-center gap-2 bg-muted/50 rounded-lg p-2"
+            >
+              <Input
+                value={step.label}
+                onChange={(e) =>
+                  updateInterval(step.id, "label", e.target.value)
+                }
+                placeholder="Label"
+                className="flex-1 h-8 text-sm"
+              />
+              <Input
+                value={step.duration}
+                onChange={(e) =>
+                  updateInterval(step.id, "duration", e.target.value)
+                }
+                placeholder="0:30"
+                className="w-20 h-8 text-sm"
+              />
+              <select
+                value={step.phase}
+                onChange={(e) =>
+                  updateInterval(step.id, "phase", e.target.value)
+                }
+                className="h-8 px-2 bg-background border border-border rounded-md text-sm"
+              >
+                <option value="work">Work</option>
+                <option value="rest">Rest</option>
+              </select>
+              {block.intervals.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    onChange({
+                      ...block,
+                      intervals: block.intervals.filter(
+                        (entry) => entry.id !== step.id,
+                      ),
+                    })
+                  }
+                  className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={addInterval}
+            className="h-6 px-2 text-xs"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add interval
+          </Button>
+        </div>
+      )}
+
+      <Textarea
+        value={block.notes}
+        onChange={(e) => update("notes", e.target.value)}
+        placeholder="What to do, e.g. 10 burpees + 15 kettlebell swings"
+        className="resize-none"
+        rows={2}
+      />
+    </div>
+  );
+}
@@ -10,12 +10,19 @@ import {
   TrendingDown,
   Check,
   CheckCheck,
+  ChevronDown,
+  Dumbbell,
+  Trophy,
 } from "lucide-react";
 import { Button } from "../ui/button";
 import { projectId } from "../../utils/supabase/info";
+import { formatVolume, WeightUnit } from "../../utils/units";
+import { formatSessionDuration } from "../../utils/tracking";
 
 interface PTActivityProps {
   token: string;
+  weightUnit: WeightUnit;
+  onViewSession: (sessionLogId: string) => void;
 }
 
 interface Notification {
@@ -26,9 +33,10 @@ interface Notification {
   isRead: boolean;
   clientId?: string;
   clientName?: string;
+  metadata?: Record<string, any> | null;
 }
 
-export function PTActivity({ token }: PTActivityProps) {
+export function PTActivity({ token, weightUnit, onViewSession }: PTActivityProps) {
   const [notifications, setNotifications] = useState<
     Notification[]
   >([]);
@@ -177,7 +185,9 @@ export function PTActivity({ token }: PTActivityProps) {
                 key={notification.id}
                 notification={notification}
                 index={index}
+                weightUnit={weightUnit}
                 onMarkAsRead={markAsRead}
+                onViewSession={onViewSession}
               />
             ))}
           </div>
@@ -190,15 +200,20 @@ export function PTActivity({ token }: PTActivityProps) {
 interface SwipeableNotificationProps {
   notification: Notification;
   index: number;
+  weightUnit: WeightUnit;
   onMarkAsRead: (id: string) => void;
+  onViewSession: (sessionLogId: string) => void;
 }
 
 function SwipeableNotification({
   notification,
   index,
+  weightUnit,
   onMarkAsRead,
+  onViewSession,
 }: SwipeableNotificationProps) {
   const [isPendingRead, setIsPendingRead] = React.useState(false);
+  const [showDetails, setShowDetails] = React.useState(false);
   const x = useMotionValue(0);
   const opacity = useTransform(x, [-100, 0], [0, 1]);
   const scale = useTransform(x, [-100, 0], [0.8, 1]);
@@ -228,11 +243,46 @@ function SwipeableNotification({
         );
       case "goal_behind":
         return <AlertCircle className="w-5 h-5 text-warning" />;
+      case "client_logged_workout":
+        return <Dumbbell className="w-5 h-5 text-success" />;
+      case "client_personal_best":
+        return <Trophy className="w-5 h-5 text-accent" />;
       default:
         return <AlertCircle className="w-5 h-5 text-accent" />;
     }
   };
 
+  const workout =
+    notification.type === "client_logged_workout" && notification.metadata
+      ? notification.metadata
+      : null;
+  const workoutDetails = workout
+    ? [
+        workout.durationSeconds != null && {
+          label: "Duration",
+          value: formatSessionDuration(workout.durationSeconds),
+        },
+        workout.perceivedEffort != null && {
+          label: "Effort",
+          value: `${workout.perceivedEffort}/10`,
+        },
+        workout.setsCompleted != null && {
+          label: "Sets",
+          value: workout.setsPrescribed != null
+            ? `${workout.setsCompleted}/${workout.setsPrescribed}`
+            : `${workout.setsCompleted}`,
+        },
+        workout.totalVolume != null && {
+          label: "Volume",
+          value: formatVolume(workout.totalVolume, weightUnit),
+        },
+      ].filter(Boolean) as Array<{ label: string; value: string }>
+    : [];
+  const substitutions: Array<{ originalName: string; name: string }> =
+    Array.isArray(workout?.substitutions) ? workout.substitutions : [];
+  const hasWorkoutDetails =
+    workoutDetails.length > 0 || Boolean(workout?.clientNotes) || substitutions.length > 0;
+
   return (
     <div className="relative">
       {/* Background action indicator */}
@@ -267,8 +317,74 @@ function SwipeableNotification({
             {notification.clientName && (
               <p className="text-xs text-muted-foreground mt-1">
                 {notification.clientName}
+                {workout?.routineName ? ` · ${workout.routineName}` : ""}
               </p>
             )}
+            {hasWorkoutDetails && (
+              <button
+                onClick={() => setShowDetails(!showDetails)}
+                className="flex items-center gap-1 text-xs text-accent mt-2"
+              >
+                {showDetails ? "Hide details" : "View details"}
+                <ChevronDown
+                  className={`w-3 h-3 transition-transform ${
+                    showDetails ? "rotate-180" : ""
+                  }`}
+                />
+              </button>
+            )}
+            {showDetails && hasWorkoutDetails && (
+              <div className="mt-2 space-y-2">
+                {workoutDetails.length > 0 && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {workoutDetails.map((detail) => (
+                      <div
+                        key={detail.label}
+                        className="bg-muted/50 rounded-lg px-3 py-2"
+                      >
+                        <p className="text-[11px] text-muted-foreground">
+                          {detail.label}
+                        </p>
+                        <p className="text-sm">{detail.value}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {substitutions.length > 0 && (
+                  <div className="bg-muted/50 rounded-lg px-3 py-2">
+                    <p className="text-[11px] text-muted-foreground">
+                      Swapped exercises
+                    </p>
+                    {substitutions.map((substitution) => (
+                      <p
+                        key={`${substitution.originalName}-${substitution.name}`}
+                        className="text-sm"
+                      >
+                        {substitution.originalName} → {substitution.name}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {workout?.clientNotes && (
+                  <div className="bg-muted/50 rounded-lg px-3 py-2">
+                    <p className="text-[11px] text-muted-foreground">
+                      Client notes
+                    </p>
+                    <p className="text-sm whitespace-pre-wrap">
+                      {workout.clientNotes}
+                    </p>
+                  </div>
+                )}
+                {workout?.sessionLogId && (
+                  <button
+                    onClick={() => onViewSession(workout.sessionLogId)}
+                    className="text-xs text-accent"
+                  >
+                    Open session
+                  </button>
+                )}
+              </div>
+            )}
             <p className="text-xs text-muted-foreground mt-1">
               {new Date(
                 notification.timestamp,
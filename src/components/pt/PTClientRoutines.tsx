@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { Archive, ArchiveRestore, ChevronLeft, Edit2, Plus, Trash2 } from "lucide-react";
+import { projectId } from "../../utils/supabase/info";
+
+interface PTClientRoutinesProps {
+  token: string;
+  clientId: string;
+  onBack: () => void;
+  onCreateRoutine: (clientId: string) => void;
+  onEditRoutine: (routineId: string) => void;
+}
+
+interface ClientRoutine {
+  id: string;
+  name: string;
+  isActive: boolean;
+  exercises: Array<{ id: string }>;
+  sessionCount: number;
+  lastPerformedAt: string | null;
+}
+
+const SESSION_EXPIRED_MESSAGE = "Your session has expired. Please sign out and log in again.";
+
+const formatLastPerformed = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+export function PTClientRoutines({ token, clientId, onBack, onCreateRoutine, onEditRoutine }: PTClientRoutinesProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [routines, setRoutines] = useState<ClientRoutine[]>([]);
+  const [clientName, setClientName] = useState("");
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef`;
+
+  useEffect(() => {
+    const loadRoutines = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const headers = { Authorization: `Bearer ${token}` };
+        const [routinesResponse, dashboardResponse] = await Promise.all([
+          fetch(`${baseUrl}/pt/routines?clientId=${clientId}`, { headers }),
+          fetch(`${baseUrl}/pt/dashboard`, { headers }),
+        ]);
+
+        if (routinesResponse.status === 401) {
+          throw new Error(SESSION_EXPIRED_MESSAGE);
+        }
+
+        if (!routinesResponse.ok) {
+          throw new Error("Failed to load routines");
+        }
+
+        const data = await routinesResponse.json();
+        setRoutines(data.routines || []);
+
+        if (dashboardResponse.ok) {
+          const dashboard = await dashboardResponse.json();
+          const client = (dashboard.clients || []).find((entry: any) => entry.id === clientId);
+          setClientName(client?.name ?? "");
+        }
+      } catch (err: any) {
+        console.error("Load client routines error", err);
+        setError(err.message || "Unable to load routines");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token && clientId) {
+      loadRoutines();
+    }
+  }, [token, clientId]);
+
+  const setRoutineActive = async (routine: ClientRoutine, isActive: boolean) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${baseUrl}/pt/routine/${routine.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ isActive }),
+      });
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update routine");
+      }
+
+      setRoutines((prev) =>
+        prev.map((entry) => (entry.id === routine.id ? { ...entry, isActive: data.routine.isActive } : entry)),
+      );
+    } catch (err: any) {
+      console.error("Archive routine error", err);
+      setError(err.message || "Unable to update routine");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRoutine = async (routine: ClientRoutine) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${baseUrl}/pt/routine/${routine.id}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete routine");
+      }
+
+      setRoutines((prev) => prev.filter((entry) => entry.id !== routine.id));
+      setConfirmDeleteId(null);
+    } catch (err: any) {
+      console.error("Delete routine error", err);
+      setError(err.message || "Unable to delete routine");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderRoutine = (routine: ClientRoutine) => (
+    <div key={routine.id} className="bg-card border border-border rounded-2xl p-4 shadow-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className={`font-semibold truncate ${routine.isActive ? "text-card-foreground" : "text-muted-foreground"}`}>
+            {routine.name}
+          </p>
+          <p className="text-sm text-muted-foreground mt-1">
+            {routine.exercises.length} exercises ·{" "}
+            {routine.sessionCount > 0
+              ? `${routine.sessionCount} ${routine.sessionCount === 1 ? "session" : "sessions"}, last ${formatLastPerformed(routine.lastPerformedAt!)}`
+              : "Never performed"}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onEditRoutine(routine.id)}
+            className="h-8 w-8 p-0"
+            aria-label="Edit routine"
+          >
+            <Edit2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setRoutineActive(routine, !routine.isActive)}
+            disabled={saving}
+            className="h-8 w-8 p-0"
+            aria-label={routine.isActive ? "Archive routine" : "Reactivate routine"}
+            title={routine.isActive ? "Archive" : "Reactivate"}
+          >
+            {routine.isActive ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+          </Button>
+          {routine.sessionCount === 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setConfirmDeleteId(routine.id)}
+              disabled={saving}
+              className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+              aria-label="Delete routine"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {confirmDeleteId === routine.id && (
+        <div className="mt-4 bg-destructive/10 border border-destructive/40 rounded-xl p-3">
+          <p className="text-sm mb-3">Delete "{routine.name}" for good? This can't be undone.</p>
+          <div className="grid grid-cols-2 gap-3">
+            <Button variant="outline" size="sm" onClick={() => setConfirmDeleteId(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" size="sm" onClick={() => deleteRoutine(routine)} disabled={saving}>
+              {saving ? "Deleting..." : "Delete"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  const activeRoutines = routines.filter((routine) => routine.isActive);
+  const archivedRoutines = routines.filter((routine) => !routine.isActive);
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <div className="bg-primary text-primary-foreground px-6 py-8">
+        <button
+          type="button"
+          onClick={onBack}
+          className="flex items-center gap-2 text-primary-foreground/90 hover:text-primary-foreground transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Back
+        </button>
+        <h1 className="text-2xl font-semibold mt-4">{clientName ? `${clientName}'s Routines` : "Routines"}</h1>
+        <p className="text-sm text-primary-foreground/80 mt-2 max-w-xl">
+          Archive a routine to hide it from the client while keeping its sessions. Routines that have never been
+          performed can be deleted.
+        </p>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        <Button onClick={() => onCreateRoutine(clientId)} className="w-full">
+          <Plus className="w-4 h-4 mr-2" />
+          New Routine
+        </Button>
+
+        {error && (
+          <div className="rounded-md border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="bg-card border border-border rounded-2xl p-6 shadow-sm">
+            <p className="text-sm text-muted-foreground">Loading routines...</p>
+          </div>
+        ) : (
+          <>
+            <section>
+              <h2 className="text-sm uppercase tracking-wide text-muted-foreground mb-3">
+                Active ({activeRoutines.length})
+              </h2>
+              {activeRoutines.length === 0 ? (
+                <div className="bg-card border border-border rounded-2xl p-6 shadow-sm">
+                  <p className="text-sm text-muted-foreground">No active routines. The client has nothing to train.</p>
+                </div>
+              ) : (
+                <div className="space-y-3">{activeRoutines.map(renderRoutine)}</div>
+              )}
+            </section>
+
+            {archivedRoutines.length > 0 && (
+              <section>
+                <h2 className="text-sm uppercase tracking-wide text-muted-foreground mb-3">
+                  Archived ({archivedRoutines.length})
+                </h2>
+                <div className="space-y-3">{archivedRoutines.map(renderRoutine)}</div>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
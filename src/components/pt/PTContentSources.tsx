@@ -0,0 +1,332 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import { ChevronLeft, ExternalLink, Plus, Trash2, Youtube, FileText } from "lucide-react";
+import { projectId } from "../../utils/supabase/info";
+import {
+  CONTENT_SOURCE_LABELS,
+  CONTENT_SOURCE_PLACEHOLDERS,
+  CONTENT_SOURCE_TYPES,
+  ContentSource,
+  ContentSourceType,
+  getContentSourceTitle,
+} from "../../utils/contentSources";
+
+interface PTContentSourcesProps {
+  token: string;
+  onBack: () => void;
+}
+
+const SESSION_EXPIRED_MESSAGE = "Your session has expired. Please sign out and log in again.";
+
+const inputClassName =
+  "w-full h-9 rounded-md border border-input bg-white px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1";
+
+export function PTContentSources({ token, onBack }: PTContentSourcesProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [sources, setSources] = useState<ContentSource[]>([]);
+
+  const [sourceType, setSourceType] = useState<ContentSourceType>("youtube_video");
+  const [identifier, setIdentifier] = useState("");
+  const [title, setTitle] = useState("");
+
+  const endpoint = `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/pt/content-sources`;
+
+  useEffect(() => {
+    const loadSources = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(endpoint, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        });
+
+        if (response.status === 401) {
+          throw new Error(SESSION_EXPIRED_MESSAGE);
+        }
+
+        if (!response.ok) {
+          throw new Error("Failed to load content sources");
+        }
+
+        const data = await response.json();
+        setSources(data.contentSources || []);
+      } catch (err: any) {
+        console.error("Load content sources error", err);
+        setError(err.message || "Unable to load content sources");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token) {
+      loadSources();
+    }
+  }, [token]);
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!identifier.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ sourceType, identifier, title }),
+      });
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add content");
+      }
+
+      setSources((prev) => [...prev, data.contentSource]);
+      setIdentifier("");
+      setTitle("");
+      setSuccess("Added. Clients will see it in their rest hub between sets.");
+    } catch (err: any) {
+      console.error("Add content source error", err);
+      setError(err.message || "Unable to add content");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateSource = async (source: ContentSource, updates: Partial<Pick<ContentSource, "isActive">>) => {
+    setError(null);
+    setSuccess(null);
+    // Optimistic so the switch responds straight away; reverted if the save fails.
+    setSources((prev) => prev.map((entry) => (entry.id === source.id ? { ...entry, ...updates } : entry)));
+
+    try {
+      const response = await fetch(`${endpoint}/${source.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(updates),
+      });
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update content");
+      }
+
+      setSources((prev) => prev.map((entry) => (entry.id === source.id ? data.contentSource : entry)));
+    } catch (err: any) {
+      console.error("Update content source error", err);
+      setSources((prev) => prev.map((entry) => (entry.id === source.id ? source : entry)));
+      setError(err.message || "Unable to update content");
+    }
+  };
+
+  const deleteSource = async (source: ContentSource) => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`${endpoint}/${source.id}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to remove content");
+      }
+
+      setSources((prev) => prev.filter((entry) => entry.id !== source.id));
+    } catch (err: any) {
+      console.error("Delete content source error", err);
+      setError(err.message || "Unable to remove content");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <div className="bg-primary text-primary-foreground px-6 py-8">
+        <button
+          type="button"
+          onClick={onBack}
+          className="flex items-center gap-2 text-primary-foreground/90 hover:text-primary-foreground transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Back
+        </button>
+        <h1 className="text-2xl font-semibold mt-4">Rest Hub Content</h1>
+        <p className="text-sm text-primary-foreground/80 mt-2 max-w-xl">
+          Pick the videos and reading your clients see between sets. An exercise's own demo video is always shown
+          first.
+        </p>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        <form
+          onSubmit={handleAdd}
+          className="bg-card border border-border rounded-2xl p-6 shadow-sm space-y-5"
+        >
+          <section className="grid grid-cols-1 gap-5 md:grid-cols-2 md:gap-x-6 md:gap-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="sourceType">Type</Label>
+              <select
+                id="sourceType"
+                value={sourceType}
+                onChange={(event) => setSourceType(event.target.value as ContentSourceType)}
+                className={inputClassName}
+              >
+                {CONTENT_SOURCE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {CONTENT_SOURCE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="title">Title (optional)</Label>
+              <input
+                id="title"
+                value={title}
+                onChange={(event) => setTitle(event.target.value)}
+                placeholder="e.g. Bracing for heavy squats"
+                maxLength={120}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="identifier">Link</Label>
+              <input
+                id="identifier"
+                value={identifier}
+                onChange={(event) => setIdentifier(event.target.value)}
+                placeholder={CONTENT_SOURCE_PLACEHOLDERS[sourceType]}
+                className={inputClassName}
+                inputMode="url"
+              />
+              <p className="text-xs text-muted-foreground">
+                Videos and playlists play inside the app. Channels, articles and other links open in a new tab.
+              </p>
+            </div>
+          </section>
+
+          {error && (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {success && (
+            <div className="rounded-md border border-emerald-400/30 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-600">
+              {success}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end">
+            <Button type="submit" disabled={saving || !identifier.trim()} className="min-w-[150px]">
+              <Plus className="w-4 h-4 mr-2" />
+              {saving ? "Saving..." : "Add content"}
+            </Button>
+          </div>
+        </form>
+
+        <section>
+          <h2 className="text-sm uppercase tracking-wide text-muted-foreground mb-3">Your content</h2>
+          {loading ? (
+            <div className="bg-card border border-border rounded-2xl p-6 shadow-sm">
+              <p className="text-sm text-muted-foreground">Loading your content...</p>
+            </div>
+          ) : sources.length === 0 ? (
+            <div className="bg-card border border-border rounded-2xl p-6 shadow-sm">
+              <p className="text-sm text-muted-foreground">
+                Nothing added yet. Clients will only see each exercise's demo video.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {sources.map((source) => {
+                const Icon = source.sourceType.startsWith("youtube_") ? Youtube : FileText;
+                return (
+                  <div
+                    key={source.id}
+                    className="bg-card border border-border rounded-2xl p-4 shadow-sm flex items-center gap-4"
+                  >
+                    {source.thumbnailUrl ? (
+                      <img
+                        src={source.thumbnailUrl}
+                        alt=""
+                        className={`w-20 h-12 rounded-md object-cover flex-shrink-0 ${source.isActive ? "" : "opacity-50"}`}
+                      />
+                    ) : (
+                      <div className="w-20 h-12 rounded-md bg-accent/10 text-accent flex items-center justify-center flex-shrink-0">
+                        <Icon className="w-5 h-5" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className={`font-semibold truncate ${source.isActive ? "text-card-foreground" : "text-muted-foreground"}`}>
+                        {getContentSourceTitle(source)}
+                      </p>
+                      <a
+                        href={source.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-muted-foreground hover:text-accent inline-flex items-center gap-1"
+                      >
+                        {CONTENT_SOURCE_LABELS[source.sourceType]}
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    </div>
+                    <Switch
+                      checked={source.isActive}
+                      onCheckedChange={(checked) => updateSource(source, { isActive: checked })}
+                      aria-label={source.isActive ? "Hide from clients" : "Show to clients"}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteSource(source)}
+                      disabled={saving}
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,35 @@
 import React, { useEffect, useState } from 'react';
 import { motion } from 'motion/react';
-import { TrendingUp, Plus, LogOut, Calendar, Users, Dumbbell, Edit2, ChevronRight, AlertCircle, AlertTriangle } from 'lucide-react';
+import { TrendingUp, Plus, LogOut, Calendar, Users, Dumbbell, Edit2, ChevronRight, AlertCircle, AlertTriangle, Layers } from 'lucide-react';
 import { Button } from '../ui/button';
 import { AddClientDialog } from './AddClientDialog';
 import { EditClientDialog } from './EditClientDialog';
 import { AddHealthLogDialog } from './AddHealthLogDialog';
 import { Badge } from '../ui/badge';
 import { projectId } from '../../utils/supabase/info';
+import { formatProgramPosition } from '../../utils/programs';
 
 interface PTDashboardProps {
   user: any;
   token: string;
   onCreateRoutine: (clientId?: string) => void;
   onEditRoutine: (routineId: string) => void;
+  onPlanProgram: (clientId: string) => void;
+  onViewRoutines: (clientId: string) => void;
   onViewCalendar: () => void;
   onLogout: () => void;
 }
 
-export function PTDashboard({ user, token, onCreateRoutine, onEditRoutine, onViewCalendar, onLogout }: PTDashboardProps) {
+export function PTDashboard({
+  user,
+  token,
+  onCreateRoutine,
+  onEditRoutine,
+  onPlanProgram,
+  onViewRoutines,
+  onViewCalendar,
+  onLogout,
+}: PTDashboardProps) {
   const [data, setData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [showAddClient, setShowAddClient] = useState(false);
@@ -237,7 +249,7 @@ export function PTDashboard({ user, token, onCreateRoutine, onEditRoutine, onVie
                     <div className="bg-muted/50 rounded-lg p-3">
                       <p className="text-xs text-muted-foreground mb-1">This Week</p>
                       <p className="text-xl">
-                        {client.weeklyGoal?.completed || 0}/{client.routines?.length || 0}
+                        {client.weeklyGoal?.completed || 0}/{client.weeklyGoal?.goal ?? client.routines?.length ?? 0}
                       </p>
                     </div>
                     <div className="bg-muted/50 rounded-lg p-3">
@@ -274,36 +286,60 @@ export function PTDashboard({ user, token, onCreateRoutine, onEditRoutine, onVie
                     </div>
                   ) : null}
 
-                  {/* Routines */}
+                  {client.program && (
+                    <div className="mt-4 flex items-center gap-2 text-sm">
+                      <Layers className="w-4 h-4 text-accent flex-shrink-0" />
+                      <span className="truncate">{client.program.name}</span>
+                      <span className="text-muted-foreground flex-shrink-0">
+                        · {formatProgramPosition(client.program)}
+                        {client.program.currentWeek?.isDeload ? ' · Deload' : ''}
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Routines; archived ones are managed from the client's routine list */}
                   {client.routines && client.routines.length > 0 && (
                     <div className="mt-4">
                       <div className="flex items-center gap-2 mb-2">
                         <Dumbbell className="w-4 h-4 text-muted-foreground" />
-                        <p className="text-xs text-muted-foreground">Routines ({client.routines.length})</p>
+                        <p className="flex-1 text-xs text-muted-foreground">
+                          Routines ({client.routines.filter((routine: any) => routine.isActive).length})
+                          {client.routines.some((routine: any) => !routine.isActive) &&
+                            ` · ${client.routines.filter((routine: any) => !routine.isActive).length} archived`}
+                        </p>
+                        <button
+                          type="button"
+                          onClick={() => onViewRoutines(client.id)}
+                          className="text-xs text-accent hover:underline"
+                        >
+                          Manage
+                        </button>
                       </div>
                       <div className="space-y-2">
-                        {client.routines.map((routine: any, idx: number) => (
-                          <div
-                            key={routine.id}
-                            onClick={() => onEditRoutine(routine.id)}
-                            className="bg-muted/30 rounded-lg p-3 border border-border cursor-pointer hover:bg-muted/50 hover:border-accent/50 transition-all"
-                          >
-                            <div className="flex items-center justify-between">
-                              <div className="flex-1">
-                                <p className="text-sm">{routine.name}</p>
-                                <p className="text-xs text-muted-foreground">
-                                  {routine.exercises?.length || 0} exercises
-                                </p>
+                        {client.routines
+                          .filter((routine: any) => routine.isActive)
+                          .map((routine: any) => (
+                            <div
+                              key={routine.id}
+                              onClick={() => onEditRoutine(routine.id)}
+                              className="bg-muted/30 rounded-lg p-3 border border-border cursor-pointer hover:bg-muted/50 hover:border-accent/50 transition-all"
+                            >
+                              <div className="flex items-center justify-between">
+                                <div className="flex-1">
+                                  <p className="text-sm">{routine.name}</p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {routine.exercises?.length || 0} exercises
+                                  </p>
+                                </div>
+                                <ChevronRight className="w-4 h-4 text-muted-foreground" />
                               </div>
-                              <ChevronRight className="w-4 h-4 text-muted-foreground" />
                             </div>
-                          </div>
-                        ))}
+                          ))}
                       </div>
                     </div>
                   )}
 
-                  <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-2">
                     <Button
                       variant="outline"
                       size="sm"
@@ -320,6 +356,14 @@ export function PTDashboard({ user, token, onCreateRoutine, onEditRoutine, onVie
                     >
                       Create Routine
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onPlanProgram(client.id)}
+                      className="w-full"
+                    >
+                      Plan Program
+                    </Button>
                   </div>
                 </motion.div>
               ))}
@@ -3,6 +3,7 @@ import { Button } from "../ui/button";
 import { Label } from "../ui/label";
 import { ChevronLeft, Save } from "lucide-react";
 import { projectId } from "../../utils/supabase/info";
+import { TRACKING_MODE_LABELS, TRACKING_MODES, TrackingMode } from "../../utils/tracking";
 
 interface PTExerciseDetailProps {
   token: string;
@@ -19,6 +20,7 @@ interface ExerciseDetailResponse {
     defaultRestSeconds: number | null;
     instructionNotes: string | null;
     videoLink: string | null;
+    trackingMode: TrackingMode;
   };
 }
 
@@ -34,6 +36,7 @@ export function PTExerciseDetail({ token, exerciseId, onBack }: PTExerciseDetail
   const [defaultRest, setDefaultRest] = useState<number | "">("");
   const [notes, setNotes] = useState("");
   const [videoLink, setVideoLink] = useState("");
+  const [trackingMode, setTrackingMode] = useState<TrackingMode>("weight_reps");
 
   useEffect(() => {
     const fetchExercise = async () => {
@@ -66,6 +69,7 @@ export function PTExerciseDetail({ token, exerciseId, onBack }: PTExerciseDetail
         setDefaultRest(exercise.defaultRestSeconds ?? "");
         setNotes(exercise.instructionNotes ?? "");
         setVideoLink(exercise.videoLink ?? "");
+        setTrackingMode(exercise.trackingMode ?? "weight_reps");
       } catch (err: any) {
         console.error("Load exercise details error", err);
         setError(err.message || "Unable to load exercise details");
@@ -92,6 +96,7 @@ export function PTExerciseDetail({ token, exerciseId, onBack }: PTExerciseDetail
       defaultRestSeconds: defaultRest === "" ? null : Number(defaultRest),
       instructionNotes: notes.trim() || null,
       videoLink: videoLink.trim() || null,
+      trackingMode,
     };
 
     try {
@@ -208,6 +213,24 @@ export function PTExerciseDetail({ token, exerciseId, onBack }: PTExerciseDetail
                   inputMode="numeric"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="trackingMode">Tracked by</Label>
+                <select
+                  id="trackingMode"
+                  value={trackingMode}
+                  onChange={(event) => setTrackingMode(event.target.value as TrackingMode)}
+                  className="w-full h-9 rounded-md border border-input bg-white px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1"
+                >
+                  {TRACKING_MODES.map((mode) => (
+                    <option key={mode} value={mode}>
+                      {TRACKING_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  Decides what clients log for each set: planks by time, rows and runs by distance.
+                </p>
+              </div>
             </section>
 
             <section className="space-y-2">
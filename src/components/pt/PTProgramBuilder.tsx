@@ -0,0 +1,548 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import { ChevronLeft, Plus, Trash2 } from "lucide-react";
+import { projectId } from "../../utils/supabase/info";
+import { Program, ProgramWeek } from "../../utils/programs";
+
+interface PTProgramBuilderProps {
+  token: string;
+  clientId: string;
+  onBack: () => void;
+}
+
+interface RoutineOption {
+  id: string;
+  name: string;
+}
+
+// Numbers are kept as typed until the program is saved.
+interface WeekDraft {
+  phaseName: string;
+  isDeload: boolean;
+  loadPercent: string;
+  setAdjustment: string;
+  repAdjustment: string;
+}
+
+interface SlotDraft {
+  included: boolean;
+  day: string;
+  startWeek: string;
+  endWeek: string;
+}
+
+const SESSION_EXPIRED_MESSAGE = "Your session has expired. Please sign out and log in again.";
+
+const DELOAD_LOAD_PERCENT = "60";
+
+const createWeekDraft = (previous?: WeekDraft): WeekDraft => ({
+  phaseName: previous?.phaseName ?? "",
+  isDeload: false,
+  loadPercent: previous && !previous.isDeload ? previous.loadPercent : "100",
+  setAdjustment: "0",
+  repAdjustment: "0",
+});
+
+const toWeekDraft = (week: ProgramWeek): WeekDraft => ({
+  phaseName: week.phaseName ?? "",
+  isDeload: week.isDeload,
+  loadPercent: String(week.loadPercent),
+  setAdjustment: String(week.setAdjustment),
+  repAdjustment: String(week.repAdjustment),
+});
+
+const todayString = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+};
+
+export function PTProgramBuilder({ token, clientId, onBack }: PTProgramBuilderProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [clientName, setClientName] = useState("");
+  const [routines, setRoutines] = useState<RoutineOption[]>([]);
+  const [programs, setPrograms] = useState<Program[]>([]);
+
+  // The program being edited; null while drafting a new one.
+  const [programId, setProgramId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState(todayString());
+  const [weeks, setWeeks] = useState<WeekDraft[]>([createWeekDraft()]);
+  const [slots, setSlots] = useState<Record<string, SlotDraft>>({});
+
+  const baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef`;
+
+  const loadProgram = (program: Program | null, routineOptions: RoutineOption[]) => {
+    setProgramId(program?.id ?? null);
+    setName(program?.name ?? "");
+    setStartDate(program?.startDate ?? todayString());
+    setWeeks(program?.weeks.length ? program.weeks.map(toWeekDraft) : [createWeekDraft()]);
+    setSlots(
+      Object.fromEntries(
+        routineOptions.map((routine, index) => {
+          const slot = program?.routines.find((entry) => entry.routineId === routine.id);
+          return [
+            routine.id,
+            {
+              included: Boolean(slot),
+              day: String(slot?.day ?? index + 1),
+              startWeek: String(slot?.startWeek ?? 1),
+              endWeek: String(slot?.endWeek ?? (program?.weeks.length || 1)),
+            },
+          ];
+        }),
+      ),
+    );
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const headers = { Authorization: `Bearer ${token}` };
+        const [dashboardResponse, programsResponse] = await Promise.all([
+          fetch(`${baseUrl}/pt/dashboard`, { headers }),
+          fetch(`${baseUrl}/pt/programs?clientId=${clientId}`, { headers }),
+        ]);
+
+        if (dashboardResponse.status === 401 || programsResponse.status === 401) {
+          throw new Error(SESSION_EXPIRED_MESSAGE);
+        }
+
+        if (!dashboardResponse.ok || !programsResponse.ok) {
+          throw new Error("Failed to load program");
+        }
+
+        const dashboard = await dashboardResponse.json();
+        const client = (dashboard.clients || []).find((entry: any) => entry.id === clientId);
+        const routineOptions: RoutineOption[] = (client?.routines || [])
+          .filter((routine: any) => routine.isActive)
+          .map((routine: any) => ({
+            id: routine.id,
+            name: routine.name,
+          }));
+        const data = await programsResponse.json();
+
+        setClientName(client?.name ?? "");
+        setRoutines(routineOptions);
+        setPrograms(data.programs || []);
+        loadProgram(data.programs?.[0] ?? null, routineOptions);
+      } catch (err: any) {
+        console.error("Load program error", err);
+        setError(err.message || "Unable to load program");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token && clientId) {
+      loadData();
+    }
+  }, [token, clientId]);
+
+  const updateWeek = (index: number, updates: Partial<WeekDraft>) =>
+    setWeeks((prev) => prev.map((week, i) => (i === index ? { ...week, ...updates } : week)));
+
+  const toggleDeload = (index: number, isDeload: boolean) =>
+    updateWeek(index, {
+      isDeload,
+      // Suggest a lighter week, but leave a load the PT has already changed alone.
+      ...(isDeload && weeks[index].loadPercent === "100" ? { loadPercent: DELOAD_LOAD_PERCENT } : {}),
+    });
+
+  const addWeek = () => setWeeks((prev) => [...prev, createWeekDraft(prev[prev.length - 1])]);
+
+  const removeWeek = () => {
+    if (weeks.length <= 1) return;
+    const weekCount = weeks.length - 1;
+    setWeeks((prev) => prev.slice(0, -1));
+    // Routines that ran to the old last week keep running to the new one.
+    setSlots((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).map(([routineId, slot]) => [
+          routineId,
+          {
+            ...slot,
+            startWeek: String(Math.min(Number(slot.startWeek) || 1, weekCount)),
+            endWeek: String(Math.min(Number(slot.endWeek) || weekCount, weekCount)),
+          },
+        ]),
+      ),
+    );
+  };
+
+  const updateSlot = (routineId: string, updates: Partial<SlotDraft>) =>
+    setSlots((prev) => ({ ...prev, [routineId]: { ...prev[routineId], ...updates } }));
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(programId ? `${baseUrl}/pt/programs/${programId}` : `${baseUrl}/pt/programs`, {
+        method: programId ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          clientId,
+          name,
+          startDate,
+          weeks: weeks.map((week) => ({
+            phaseName: week.phaseName,
+            isDeload: week.isDeload,
+            loadPercent: Number(week.loadPercent),
+            setAdjustment: Number(week.setAdjustment) || 0,
+            repAdjustment: Number(week.repAdjustment) || 0,
+          })),
+          routines: Object.entries(slots)
+            .filter(([, slot]) => slot.included)
+            .map(([routineId, slot]) => ({
+              routineId,
+              day: Number(slot.day),
+              startWeek: Number(slot.startWeek),
+              endWeek: Number(slot.endWeek),
+            })),
+        }),
+      });
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save program");
+      }
+
+      setPrograms((prev) =>
+        programId
+          ? prev.map((program) => (program.id === programId ? data.program : program))
+          : [data.program, ...prev],
+      );
+      setProgramId(data.program.id);
+      setSuccess("Program saved. The client's routines now follow its weeks.");
+    } catch (err: any) {
+      console.error("Save program error", err);
+      setError(err.message || "Unable to save program");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!programId) return;
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`${baseUrl}/pt/programs/${programId}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete program");
+      }
+
+      const remaining = programs.filter((program) => program.id !== programId);
+      setPrograms(remaining);
+      loadProgram(remaining[0] ?? null, routines);
+      setSuccess("Program deleted. Its routines are back to running every week.");
+    } catch (err: any) {
+      console.error("Delete program error", err);
+      setError(err.message || "Unable to delete program");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const weekOptions = weeks.map((_, index) => index + 1);
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <div className="bg-primary text-primary-foreground px-6 py-8">
+        <button
+          type="button"
+          onClick={onBack}
+          className="flex items-center gap-2 text-primary-foreground/90 hover:text-primary-foreground transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Back
+        </button>
+        <h1 className="text-2xl font-semibold mt-4">{clientName ? `Program for ${clientName}` : "Program"}</h1>
+        <p className="text-sm text-primary-foreground/80 mt-2 max-w-xl">
+          Lay out the weeks ahead. Each week can change load, sets and reps, and the client moves to the next week
+          on their own as the dates roll over.
+        </p>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        {loading ? (
+          <div className="bg-card border border-border rounded-2xl p-6 shadow-sm">
+            <p className="text-sm text-muted-foreground">Loading program...</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-6">
+            {programs.length > 0 && (
+              <div className="flex items-center gap-2">
+                <select
+                  value={programId ?? ""}
+                  onChange={(event) =>
+                    loadProgram(programs.find((program) => program.id === event.target.value) ?? null, routines)
+                  }
+                  className="flex-1 h-9 px-3 bg-background border border-border rounded-md text-sm"
+                >
+                  {programs.map((program) => (
+                    <option key={program.id} value={program.id}>
+                      {program.name} · from {program.startDate}
+                    </option>
+                  ))}
+                  <option value="">New program</option>
+                </select>
+              </div>
+            )}
+
+            <div className="bg-card border border-border rounded-2xl p-6 shadow-sm">
+              <section className="grid grid-cols-1 gap-5 md:grid-cols-2 md:gap-x-6 md:gap-y-5">
+                <div className="space-y-2">
+                  <Label htmlFor="programName">Name</Label>
+                  <Input
+                    id="programName"
+                    value={name}
+                    onChange={(event) => setName(event.target.value)}
+                    placeholder="e.g. 8-week strength block"
+                    maxLength={80}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="programStart">Starts</Label>
+                  <Input
+                    id="programStart"
+                    type="date"
+                    value={startDate}
+                    onChange={(event) => setStartDate(event.target.value)}
+                  />
+                </div>
+              </section>
+            </div>
+
+            <section>
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm uppercase tracking-wide text-muted-foreground">
+                  Weeks ({weeks.length})
+                </h2>
+                <div className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={removeWeek}
+                    disabled={weeks.length <= 1}
+                    className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    aria-label="Remove last week"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={addWeek} disabled={weeks.length >= 52}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Week
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-3">
+                {weeks.map((week, index) => (
+                  <div
+                    key={index}
+                    className={`bg-card border rounded-2xl p-4 shadow-sm ${week.isDeload ? "border-accent/50" : "border-border"}`}
+                  >
+                    <div className="flex items-center gap-3 mb-3">
+                      <span className="text-sm font-semibold w-16 flex-shrink-0">Week {index + 1}</span>
+                      <Input
+                        value={week.phaseName}
+                        onChange={(event) => updateWeek(index, { phaseName: event.target.value })}
+                        placeholder="Phase, e.g. Accumulation"
+                        maxLength={40}
+                        className="flex-1 h-8 text-sm"
+                      />
+                      <label className="flex items-center gap-2 text-xs text-muted-foreground flex-shrink-0">
+                        <Switch
+                          checked={week.isDeload}
+                          onCheckedChange={(checked) => toggleDeload(index, checked)}
+                        />
+                        Deload
+                      </label>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <div>
+                        <Label className="text-xs text-muted-foreground">Load %</Label>
+                        <Input
+                          type="number"
+                          inputMode="decimal"
+                          min={10}
+                          max={200}
+                          value={week.loadPercent}
+                          onChange={(event) => updateWeek(index, { loadPercent: event.target.value })}
+                          className="mt-1 h-8 text-sm"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs text-muted-foreground">Sets +/-</Label>
+                        <Input
+                          type="number"
+                          inputMode="numeric"
+                          min={-10}
+                          max={10}
+                          value={week.setAdjustment}
+                          onChange={(event) => updateWeek(index, { setAdjustment: event.target.value })}
+                          className="mt-1 h-8 text-sm"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs text-muted-foreground">Reps +/-</Label>
+                        <Input
+                          type="number"
+                          inputMode="numeric"
+                          min={-20}
+                          max={20}
+                          value={week.repAdjustment}
+                          onChange={(event) => updateWeek(index, { repAdjustment: event.target.value })}
+                          className="mt-1 h-8 text-sm"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h2 className="text-sm uppercase tracking-wide text-muted-foreground mb-3">Training days</h2>
+              {routines.length === 0 ? (
+                <div className="bg-card border border-border rounded-2xl p-6 shadow-sm">
+                  <p className="text-sm text-muted-foreground">
+                    This client has no routines yet. Create some first, then schedule them here.
+                  </p>
+                </div>
+              ) : (
+                <div className="bg-card border border-border rounded-2xl p-4 shadow-sm space-y-3">
+                  <p className="text-xs text-muted-foreground">
+                    Pick the routines in this program and the day of the week's rotation each one is. Routines left
+                    out keep running every week as before.
+                  </p>
+                  {routines.map((routine) => {
+                    const slot = slots[routine.id];
+                    if (!slot) return null;
+                    return (
+                      <div key={routine.id} className="flex flex-wrap items-center gap-2">
+                        <label className="flex flex-1 min-w-[10rem] items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={slot.included}
+                            onChange={() => updateSlot(routine.id, { included: !slot.included })}
+                          />
+                          <span className="truncate">{routine.name}</span>
+                        </label>
+                        {slot.included && (
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <span>Day</span>
+                            <Input
+                              type="number"
+                              inputMode="numeric"
+                              min={1}
+                              max={14}
+                              value={slot.day}
+                              onChange={(event) => updateSlot(routine.id, { day: event.target.value })}
+                              className="h-8 w-14 text-sm"
+                              aria-label={`Training day for ${routine.name}`}
+                            />
+                            <span>weeks</span>
+                            <select
+                              value={slot.startWeek}
+                              onChange={(event) => updateSlot(routine.id, { startWeek: event.target.value })}
+                              className="h-8 px-2 bg-background border border-border rounded-md text-sm"
+                              aria-label={`First week for ${routine.name}`}
+                            >
+                              {weekOptions.map((week) => (
+                                <option key={week} value={week}>
+                                  {week}
+                                </option>
+                              ))}
+                            </select>
+                            <span>to</span>
+                            <select
+                              value={slot.endWeek}
+                              onChange={(event) => updateSlot(routine.id, { endWeek: event.target.value })}
+                              className="h-8 px-2 bg-background border border-border rounded-md text-sm"
+                              aria-label={`Last week for ${routine.name}`}
+                            >
+                              {weekOptions.map((week) => (
+                                <option key={week} value={week}>
+                                  {week}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+
+            {error && (
+              <div className="rounded-md border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            {success && (
+              <div className="rounded-md border border-emerald-400/30 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-600">
+                {success}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+              {programId ? (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={handleDelete}
+                  disabled={saving}
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+              ) : (
+                <span />
+              )}
+              <Button type="submit" disabled={saving || !name.trim()} className="min-w-[150px]">
+                {saving ? "Saving..." : "Save program"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
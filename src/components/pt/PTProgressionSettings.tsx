@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { Label } from "../ui/label";
+import { ChevronLeft, Save } from "lucide-react";
+import { projectId } from "../../utils/supabase/info";
+import { fromDisplayWeight, toDisplayWeight, WeightUnit } from "../../utils/units";
+
+interface PTProgressionSettingsProps {
+  token: string;
+  weightUnit: WeightUnit;
+  onBack: () => void;
+}
+
+type ProgressionStrategy = "double_progression" | "fixed_increment" | "none";
+
+interface ProgressionSettingsResponse {
+  settings: {
+    strategy: ProgressionStrategy;
+    weightIncrement: number;
+    maxRpe: number;
+  };
+}
+
+const STRATEGY_DESCRIPTIONS: Record<ProgressionStrategy, string> = {
+  double_progression:
+    "Clients add reps until every set reaches the top of the prescribed range, then add weight and drop back to the bottom of the range.",
+  fixed_increment:
+    "Clients add weight whenever every set meets the prescribed reps, otherwise they repeat last session's load.",
+  none: "No targets are suggested. Clients only see your prescription and their last performance.",
+};
+
+export function PTProgressionSettings({ token, weightUnit, onBack }: PTProgressionSettingsProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [strategy, setStrategy] = useState<ProgressionStrategy>("double_progression");
+  const [weightIncrement, setWeightIncrement] = useState<number | "">(5);
+  const [maxRpe, setMaxRpe] = useState<number | "">(9);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(
+          `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/pt/progression-settings`,
+          {
+            headers: {
+              Authorization: `Bearer ${token}`,
+            },
+          },
+        );
+
+        if (response.status === 401) {
+          throw new Error("Your session has expired. Please sign out and log in again.");
+        }
+
+        if (!response.ok) {
+          throw new Error("Failed to load progression settings");
+        }
+
+        const data: ProgressionSettingsResponse = await response.json();
+        setStrategy(data.settings.strategy);
+        setWeightIncrement(toDisplayWeight(data.settings.weightIncrement, weightUnit));
+        setMaxRpe(data.settings.maxRpe);
+      } catch (err: any) {
+        console.error("Load progression settings error", err);
+        setError(err.message || "Unable to load progression settings");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token) {
+      loadSettings();
+    }
+  }, [token, weightUnit]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/pt/progression-settings`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            strategy,
+            weightIncrement: weightIncrement === "" ? null : fromDisplayWeight(weightIncrement, weightUnit),
+            maxRpe,
+          }),
+        },
+      );
+
+      if (response.status === 401) {
+        throw new Error("Your session has expired. Please sign out and log in again.");
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update progression settings");
+      }
+
+      setSuccess("Progression rules updated. Clients will see new targets next session.");
+    } catch (err: any) {
+      console.error("Update progression settings error", err);
+      setError(err.message || "Unable to update progression settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <div className="bg-primary text-primary-foreground px-6 py-8">
+        <button
+          type="button"
+          onClick={onBack}
+          className="flex items-center gap-2 text-primary-foreground/90 hover:text-primary-foreground transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Back
+        </button>
+        <h1 className="text-2xl font-semibold mt-4">Progression Rules</h1>
+        <p className="text-sm text-primary-foreground/80 mt-2 max-w-xl">
+          Choose how clients' suggested targets move from one session to the next.
+        </p>
+      </div>
+
+      <div className="px-6 py-6">
+        {loading ? (
+          <div className="bg-card border border-border rounded-2xl p-6 shadow-sm">
+            <p className="text-sm text-muted-foreground">Loading your rules...</p>
+          </div>
+        ) : (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-card border border-border rounded-2xl p-6 shadow-sm space-y-6"
+          >
+            <section className="space-y-2">
+              <Label htmlFor="strategy">Strategy</Label>
+              <select
+                id="strategy"
+                value={strategy}
+                onChange={(event) => setStrategy(event.target.value as ProgressionStrategy)}
+                className="w-full h-9 rounded-md border border-input bg-white px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1"
+              >
+                <option value="double_progression">Double progression</option>
+                <option value="fixed_increment">Fixed increment</option>
+                <option value="none">Off</option>
+              </select>
+              <p className="text-xs text-muted-foreground">{STRATEGY_DESCRIPTIONS[strategy]}</p>
+            </section>
+
+            {strategy !== "none" && (
+              <section className="grid grid-cols-1 gap-5 md:grid-cols-2 md:gap-x-6 md:gap-y-5">
+                <div className="space-y-2">
+                  <Label htmlFor="weightIncrement">Weight increment ({weightUnit})</Label>
+                  <input
+                    id="weightIncrement"
+                    type="number"
+                    min={weightUnit === "kg" ? 0.25 : 0.5}
+                    step={weightUnit === "kg" ? 0.25 : 0.5}
+                    value={weightIncrement}
+                    onChange={(event) =>
+                      setWeightIncrement(event.target.value === "" ? "" : Number(event.target.value))
+                    }
+                    placeholder={weightUnit === "kg" ? "2.5" : "5"}
+                    className="w-full h-9 rounded-md border border-input bg-white px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1"
+                    inputMode="decimal"
+                  />
+                  <p className="text-xs text-muted-foreground">Added to the working weight when a client progresses.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxRpe">RPE ceiling</Label>
+                  <input
+                    id="maxRpe"
+                    type="number"
+                    min={1}
+                    max={10}
+                    step={0.5}
+                    value={maxRpe}
+                    onChange={(event) => setMaxRpe(event.target.value === "" ? "" : Number(event.target.value))}
+                    placeholder="9"
+                    className="w-full h-9 rounded-md border border-input bg-white px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1"
+                    inputMode="decimal"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Sets logged above this effort hold the load instead of progressing.
+                  </p>
+                </div>
+              </section>
+            )}
+
+            {error && (
+              <div className="rounded-md border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            {success && (
+              <div className="rounded-md border border-emerald-400/30 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-600">
+                {success}
+              </div>
+            )}
+
+            <div className="flex items-center justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onBack}
+                className="min-w-[110px]"
+                disabled={saving}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving} className="min-w-[150px]">
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? "Saving..." : "Save changes"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
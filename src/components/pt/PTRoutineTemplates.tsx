@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { ChevronLeft, Edit2, Plus, Trash2, UserPlus } from "lucide-react";
+import { projectId } from "../../utils/supabase/info";
+
+interface PTRoutineTemplatesProps {
+  token: string;
+  onBack: () => void;
+  onCreateTemplate: () => void;
+  onEditTemplate: (templateId: string) => void;
+}
+
+interface TemplateSummary {
+  id: string;
+  name: string;
+  exercises: Array<{ id: string; name: string }>;
+  intervalBlocks: Array<{ id: string }>;
+}
+
+interface ClientOption {
+  id: string;
+  name: string;
+  email: string;
+}
+
+const SESSION_EXPIRED_MESSAGE = "Your session has expired. Please sign out and log in again.";
+
+export function PTRoutineTemplates({ token, onBack, onCreateTemplate, onEditTemplate }: PTRoutineTemplatesProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [clients, setClients] = useState<ClientOption[] | null>(null);
+
+  // The template being assigned, and each chosen client's weight adjustment in percent as typed.
+  const [assigningId, setAssigningId] = useState<string | null>(null);
+  const [adjustments, setAdjustments] = useState<Record<string, string>>({});
+
+  const baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef`;
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`${baseUrl}/pt/templates`, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        });
+
+        if (response.status === 401) {
+          throw new Error(SESSION_EXPIRED_MESSAGE);
+        }
+
+        if (!response.ok) {
+          throw new Error("Failed to load templates");
+        }
+
+        const data = await response.json();
+        setTemplates(data.templates || []);
+      } catch (err: any) {
+        console.error("Load templates error", err);
+        setError(err.message || "Unable to load templates");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (token) {
+      loadTemplates();
+    }
+  }, [token]);
+
+  const loadClients = async () => {
+    try {
+      const response = await fetch(`${baseUrl}/pt/dashboard`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to load clients");
+      }
+
+      const data = await response.json();
+      setClients(
+        (data.clients || []).map((client: any) => ({ id: client.id, name: client.name, email: client.email })),
+      );
+    } catch (err: any) {
+      console.error("Load clients error", err);
+      setClients([]);
+      setError(err.message || "Unable to load clients");
+    }
+  };
+
+  const startAssigning = (templateId: string) => {
+    setError(null);
+    setSuccess(null);
+    setAdjustments({});
+    setAssigningId(assigningId === templateId ? null : templateId);
+    if (clients === null) {
+      loadClients();
+    }
+  };
+
+  const toggleClient = (clientId: string) => {
+    setAdjustments((prev) => {
+      if (clientId in prev) {
+        const { [clientId]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [clientId]: "" };
+    });
+  };
+
+  const handleAssign = async (template: TemplateSummary) => {
+    const chosen = Object.entries(adjustments);
+    if (!chosen.length) return;
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`${baseUrl}/pt/templates/${template.id}/assign`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          assignments: chosen.map(([clientId, adjustment]) => ({
+            clientId,
+            weightAdjustmentPercent: adjustment.trim() ? Number(adjustment) : 0,
+          })),
+        }),
+      });
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to assign template");
+      }
+
+      const assignedCount = (data.routines || []).length;
+      const failedIds: string[] = (data.failed || []).map((entry: { clientId: string }) => entry.clientId);
+      setSuccess(
+        `"${template.name}" added to ${assignedCount} ${assignedCount === 1 ? "client" : "clients"}.`,
+      );
+
+      if (failedIds.length) {
+        // Leave the clients that failed chosen so the assignment can be retried for just them.
+        setAdjustments((prev) =>
+          Object.fromEntries(Object.entries(prev).filter(([clientId]) => failedIds.includes(clientId))),
+        );
+        const names = failedIds.map((clientId) => clients?.find((client) => client.id === clientId)?.name ?? "a client");
+        setError(`Couldn't add it for ${names.join(", ")}. Try again for them.`);
+      } else {
+        setAssigningId(null);
+        setAdjustments({});
+      }
+    } catch (err: any) {
+      console.error("Assign template error", err);
+      setError(err.message || "Unable to assign template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: TemplateSummary) => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`${baseUrl}/pt/templates/${template.id}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete template");
+      }
+
+      setTemplates((prev) => prev.filter((entry) => entry.id !== template.id));
+      if (assigningId === template.id) {
+        setAssigningId(null);
+      }
+    } catch (err: any) {
+      console.error("Delete template error", err);
+      setError(err.message || "Unable to delete template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <div className="bg-primary text-primary-foreground px-6 py-8">
+        <button
+          type="button"
+          onClick={onBack}
+          className="flex items-center gap-2 text-primary-foreground/90 hover:text-primary-foreground transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Back
+        </button>
+        <h1 className="text-2xl font-semibold mt-4">Routine Templates</h1>
+        <p className="text-sm text-primary-foreground/80 mt-2 max-w-xl">
+          Build a routine once and give each client their own copy. Changing a template later doesn't touch
+          routines already handed out.
+        </p>
+      </div>
+
+      <div className="px-6 py-6 space-y-4">
+        <Button onClick={onCreateTemplate} className="w-full">
+          <Plus className="w-4 h-4 mr-2" />
+          New Template
+        </Button>
+
+        {error && (
+          <div className="rounded-md border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="rounded-md border border-emerald-400/30 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-600">
+            {success}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="bg-card border border-border rounded-2xl p-6 shadow-sm">
+            <p className="text-sm text-muted-foreground">Loading your templates...</p>
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="bg-card border border-border rounded-2xl p-6 shadow-sm">
+            <p className="text-sm text-muted-foreground">
+              No templates yet. Create one here, or use "Save as Template" while editing any client's routine.
+            </p>
+          </div>
+        ) : (
+          templates.map((template) => (
+            <div key={template.id} className="bg-card border border-border rounded-2xl p-5 shadow-sm">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-semibold text-base text-card-foreground truncate">{template.name}</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {template.exercises.length} exercises
+                    {template.intervalBlocks.length > 0 &&
+                      ` · ${template.intervalBlocks.length} ${template.intervalBlocks.length === 1 ? "finisher" : "finishers"}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onEditTemplate(template.id)}
+                    className="h-8 w-8 p-0"
+                    aria-label="Edit template"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(template)}
+                    disabled={saving}
+                    className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    aria-label="Delete template"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {template.exercises.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-2 line-clamp-2">
+                  {template.exercises.map((exercise) => exercise.name).join(", ")}
+                </p>
+              )}
+
+              {assigningId === template.id ? (
+                <div className="mt-4 border-t border-border pt-4 space-y-3">
+                  {clients === null ? (
+                    <p className="text-sm text-muted-foreground">Loading clients...</p>
+                  ) : clients.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Add a client from your dashboard first.</p>
+                  ) : (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        Choose clients. Optionally scale target weights for each, e.g. -10 to start 10% lighter.
+                      </p>
+                      {clients.map((client) => {
+                        const isChosen = client.id in adjustments;
+                        return (
+                          <div key={client.id} className="flex items-center gap-3">
+                            <label className="flex flex-1 min-w-0 items-center gap-2 text-sm">
+                              <input
+                                type="checkbox"
+                                checked={isChosen}
+                                onChange={() => toggleClient(client.id)}
+                              />
+                              <span className="truncate">{client.name}</span>
+                            </label>
+                            {isChosen && (
+                              <div className="flex items-center gap-1">
+                                <Input
+                                  type="number"
+                                  inputMode="decimal"
+                                  min={-90}
+                                  max={100}
+                                  value={adjustments[client.id]}
+                                  onChange={(e) =>
+                                    setAdjustments((prev) => ({ ...prev, [client.id]: e.target.value }))
+                                  }
+                                  placeholder="0"
+                                  className="h-8 w-20 text-sm text-right"
+                                  aria-label={`Weight adjustment for ${client.name}`}
+                                />
+                                <span className="text-sm text-muted-foreground">%</span>
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </>
+                  )}
+                  <div className="flex items-center justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setAssigningId(null)} disabled={saving}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleAssign(template)}
+                      disabled={saving || Object.keys(adjustments).length === 0}
+                    >
+                      {saving ? "Assigning..." : "Assign"}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => startAssigning(template.id)}
+                  className="w-full mt-4"
+                >
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Assign to clients
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,26 @@
 import React from "react";
-import { ChevronRight, LogOut, Settings, User, Dumbbell } from "lucide-react";
+import { ChevronRight, LogOut, Settings, User, Dumbbell, TrendingUp, PlaySquare, LayoutTemplate } from "lucide-react";
 import { Button } from "../ui/button";
 
 interface PTSettingsProps {
   user: any;
   onViewAccount: () => void;
   onViewExercises: () => void;
+  onViewProgression: () => void;
+  onViewContent: () => void;
+  onViewTemplates: () => void;
   onLogout: () => void;
 }
 
-export function PTSettings({ user, onViewAccount, onViewExercises, onLogout }: PTSettingsProps) {
+export function PTSettings({
+  user,
+  onViewAccount,
+  onViewExercises,
+  onViewProgression,
+  onViewContent,
+  onViewTemplates,
+  onLogout,
+}: PTSettingsProps) {
   const firstName = user?.firstName ?? user?.name ?? "";
 
   const items = [
@@ -25,6 +36,24 @@ export function PTSettings({ user, onViewAccount, onViewExercises, onLogout }: P
       icon: Dumbbell,
       action: onViewExercises,
     },
+    {
+      label: "Routine Templates",
+      description: "Build routines once and assign them to any of your clients.",
+      icon: LayoutTemplate,
+      action: onViewTemplates,
+    },
+    {
+      label: "Progression Rules",
+      description: "Decide how clients' suggested weights and reps progress.",
+      icon: TrendingUp,
+      action: onViewProgression,
+    },
+    {
+      label: "Rest Hub Content",
+      description: "Curate the videos and articles clients see between sets.",
+      icon: PlaySquare,
+      action: onViewContent,
+    },
   ];
 
   return (
@@ -1,8 +1,13 @@
 import React, { useState, useEffect, useRef, useCallback } from "react";
 import { motion, Reorder } from "motion/react";
 import {
+  Archive,
+  ArchiveRestore,
   ArrowLeft,
+  Copy,
   GripVertical,
+  History,
+  Link2,
   Trash2,
   Plus,
   Mic,
@@ -13,11 +18,49 @@ import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { Textarea } from "../ui/textarea";
 import { projectId } from "../../utils/supabase/info";
+import {
+  fromDisplayDistance,
+  fromDisplayWeight,
+  getDistanceUnit,
+  toDisplayDistance,
+  toDisplayWeight,
+  WeightUnit,
+} from "../../utils/units";
+import { SET_TYPE_LABELS, SET_TYPE_MARKERS, SET_TYPES, SetType } from "../../utils/setTypes";
+import {
+  formatDuration,
+  parseDuration,
+  TRACKING_MODE_LABELS,
+  TRACKING_MODES,
+  TrackingMode,
+  tracksDistance,
+  tracksReps,
+  tracksTime,
+  tracksWeight,
+} from "../../utils/tracking";
+import {
+  EXERCISE_GROUP_KINDS,
+  EXERCISE_GROUP_LABELS,
+  ExerciseGroup,
+  ExerciseGroupKind,
+} from "../../utils/exerciseGroups";
+import { parseTempo } from "../../utils/prescription";
+import {
+  createIntervalBlockDraft,
+  fromIntervalBlockDraft,
+  IntervalBlockDraft,
+  IntervalBlockEditor,
+  toIntervalBlockDraft,
+} from "./IntervalBlockEditor";
+import { RoutineVersionHistory } from "./RoutineVersionHistory";
 
 interface RoutineBuilderProps {
   token: string;
   routineId?: string | null;
   initialClientId?: string | null;
+  // Templates belong to the PT rather than a client; routineId is then the template's id.
+  isTemplate?: boolean;
+  weightUnit: WeightUnit;
   onBack: () => void;
   onSuccess: () => void;
 }
@@ -26,15 +69,48 @@ interface ExerciseSet {
   id: string;
   reps: string;
   rest: string;
+  // Target weight as typed, in the PT's preferred unit; blank means no target.
+  weight: string;
+  // The saved target in pounds and how it was shown. Saved back unchanged while the
+  // field still reads the same, so unit rounding never drifts a weight nobody edited.
+  storedWeight?: { display: string; pounds: number };
+  // Target time as typed (m:ss) and distance in km or miles; blank means no target.
+  duration: string;
+  distance: string;
+  setType: SetType;
+  // Optional targets, as typed; %1RM is resolved to a weight for each client.
+  tempo: string;
+  rir: string;
+  rpe: string;
+  percentOneRepMax: string;
 }
 
+type SetTargetFields = Pick<ExerciseSet, "tempo" | "rir" | "rpe" | "percentOneRepMax">;
+
+const EMPTY_TARGETS: SetTargetFields = { tempo: "", rir: "", rpe: "", percentOneRepMax: "" };
+
 interface Exercise {
   id: string;
+  // The saved row this was loaded from. Saving keeps that row, so sessions in
+  // progress still match it.
+  routineExerciseId?: string;
   name: string;
   sets: ExerciseSet[];
   notes: string;
   catalogId?: string | null;
   defaultRestSeconds?: number | null;
+  trackingMode: TrackingMode;
+  // Grouped exercises are the runs joined by this flag; every member carries the group's settings.
+  linkedToPrevious: boolean;
+  group: ExerciseGroupSettings;
+}
+
+interface ExerciseGroupSettings {
+  // The saved group's id, kept on save like routineExerciseId.
+  id?: string;
+  kind: ExerciseGroupKind;
+  rounds: string;
+  rest: string;
 }
 
 interface ExerciseSuggestion {
@@ -45,18 +121,71 @@ interface ExerciseSuggestion {
   defaultRestSeconds?: number | null;
   instructionNotes?: string | null;
   videoLink?: string | null;
+  trackingMode?: TrackingMode;
   similarity?: number | null;
 }
 
+const DEFAULT_GROUP: ExerciseGroupSettings = { kind: "superset", rounds: "3", rest: "90" };
+
+const getExerciseRuns = (list: Exercise[]) => {
+  const runs: number[][] = [];
+  list.forEach((exercise, index) => {
+    if (index > 0 && exercise.linkedToPrevious) {
+      runs[runs.length - 1].push(index);
+    } else {
+      runs.push([index]);
+    }
+  });
+  return runs;
+};
+
+const resizeSets = (sets: ExerciseSet[], count: number): ExerciseSet[] => {
+  if (sets.length >= count) {
+    return sets.slice(0, count);
+  }
+  const lastSet = sets[sets.length - 1];
+  return [
+    ...sets,
+    ...Array.from({ length: count - sets.length }, (_, i) => ({
+      ...lastSet,
+      id: `set-${Date.now()}-${i}`,
+    })),
+  ];
+};
+
+// One round is one set of each member, so the members' set counts follow the rounds.
+const applyGroupSettings = (
+  list: Exercise[],
+  run: number[],
+  group: ExerciseGroupSettings,
+) => {
+  const rounds = parseInt(group.rounds, 10);
+  return list.map((exercise, index) =>
+    run.includes(index)
+      ? {
+          ...exercise,
+          group,
+          sets:
+            rounds > 0
+              ? resizeSets(exercise.sets, Math.min(rounds, 20))
+              : exercise.sets,
+        }
+      : exercise,
+  );
+};
+
 export function RoutineBuilder({
   token,
   routineId,
   initialClientId,
+  isTemplate = false,
+  weightUnit,
   onBack,
   onSuccess,
 }: RoutineBuilderProps) {
   const [routineName, setRoutineName] = useState("");
   const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [intervalBlocks, setIntervalBlocks] = useState<IntervalBlockDraft[]>([]);
   const [smartInput, setSmartInput] = useState("");
   const [saving, setSaving] = useState(false);
   const [clients, setClients] = useState<any[]>([]);
@@ -67,13 +196,23 @@ export function RoutineBuilder({
   const [isSearching, setIsSearching] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [recentExercises, setRecentExercises] = useState<ExerciseSuggestion[]>([]);
+  const [templates, setTemplates] = useState<any[]>([]);
+  const [templateNotice, setTemplateNotice] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Whether the client routine being edited is live; archived ones are hidden from the client.
+  const [routineActive, setRoutineActive] = useState(true);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [manageError, setManageError] = useState<string | null>(null);
 
   const suggestionAbortRef = useRef<AbortController | null>(null);
   const suggestionBlurTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
   const smartInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
-    fetchClients();
+    if (!isTemplate) {
+      fetchClients();
+    }
+    fetchTemplates();
   }, [token]);
 
   useEffect(() => {
@@ -160,11 +299,20 @@ export function RoutineBuilder({
   }, [smartInput, loadSuggestions]);
 
   useEffect(() => {
-    if (routineId && clients.length > 0) {
+    if (!isTemplate && routineId && clients.length > 0) {
       fetchRoutine();
     }
   }, [routineId, clients]);
 
+  useEffect(() => {
+    const template = isTemplate && routineId
+      ? templates.find((entry) => entry.id === routineId)
+      : null;
+    if (template) {
+      loadRoutine(template);
+    }
+  }, [routineId, templates]);
+
   useEffect(() => {
     return () => {
       if (suggestionAbortRef.current) {
@@ -206,6 +354,30 @@ export function RoutineBuilder({
     }
   };
 
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/pt/templates`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates(data.templates || []);
+      }
+    } catch (error) {
+      console.error("Error fetching templates:", error);
+    } finally {
+      if (isTemplate) {
+        setLoading(false);
+      }
+    }
+  };
+
   const fetchRoutine = async () => {
     if (!routineId) return;
 
@@ -216,29 +388,9 @@ export function RoutineBuilder({
           (r: any) => r.id === routineId,
         );
         if (routine) {
-          setRoutineName(routine.name);
           setSelectedClientId(client.id);
-
-          // Convert routine exercises to the format we use in the builder
-          const loadedExercises: Exercise[] =
-            routine.exercises.map(
-              (ex: any, exIndex: number) => ({
-                id: `ex-${Date.now()}-${exIndex}`,
-                name: ex.name,
-                notes: ex.notes || "",
-                catalogId: ex.exerciseId,
-                defaultRestSeconds: ex.defaultRestSeconds,
-                sets: ex.sets.map(
-                  (set: any, setIndex: number) => ({
-                    id: `set-${Date.now()}-${exIndex}-${setIndex}`,
-                    reps: set.reps,
-                    rest: set.rest,
-                  }),
-                ),
-              }),
-            );
-
-          setExercises(loadedExercises);
+          setRoutineActive(routine.isActive !== false);
+          loadRoutine(routine);
           break;
         }
       }
@@ -247,6 +399,81 @@ export function RoutineBuilder({
     }
   };
 
+  // Also used to start a client's routine from one of the PT's templates.
+  const loadRoutine = (routine: any) => {
+    setRoutineName(routine.name);
+
+    // Convert routine exercises to the format we use in the builder
+    const loadedExercises: Exercise[] =
+      routine.exercises.map(
+        (ex: any, exIndex: number) => {
+          const group: ExerciseGroup | undefined = routine.groups?.find(
+            (entry: ExerciseGroup) => entry.id === ex.groupId,
+          );
+          return {
+            id: `ex-${Date.now()}-${exIndex}`,
+            routineExerciseId: ex.id,
+            name: ex.name,
+            notes: ex.notes || "",
+            catalogId: ex.exerciseId,
+            defaultRestSeconds: ex.defaultRestSeconds,
+            trackingMode: ex.trackingMode ?? "weight_reps",
+            linkedToPrevious:
+              Boolean(group) &&
+              routine.exercises[exIndex - 1]?.groupId === ex.groupId,
+            group: group
+              ? {
+                  id: group.id,
+                  kind: group.kind,
+                  rounds: String(group.rounds),
+                  rest:
+                    group.restSeconds != null
+                      ? String(group.restSeconds)
+                      : "",
+                }
+              : DEFAULT_GROUP,
+            sets: ex.sets.map(
+              (set: any, setIndex: number) => ({
+                id: `set-${Date.now()}-${exIndex}-${setIndex}`,
+                reps: set.reps,
+                rest: set.rest,
+                weight:
+                  set.targetWeight != null
+                    ? String(toDisplayWeight(set.targetWeight, weightUnit))
+                    : "",
+                storedWeight:
+                  set.targetWeight != null
+                    ? {
+                        display: String(toDisplayWeight(set.targetWeight, weightUnit)),
+                        pounds: set.targetWeight,
+                      }
+                    : undefined,
+                duration:
+                  set.targetDurationSeconds != null
+                    ? formatDuration(set.targetDurationSeconds)
+                    : "",
+                distance:
+                  set.targetDistanceMeters != null
+                    ? String(toDisplayDistance(set.targetDistanceMeters, weightUnit))
+                    : "",
+                setType: set.setType ?? "working",
+                tempo: set.tempo ?? "",
+                rir: set.targetRir != null ? String(set.targetRir) : "",
+                rpe: set.targetRpe != null ? String(set.targetRpe) : "",
+                percentOneRepMax:
+                  set.percentOneRepMax != null
+                    ? String(set.percentOneRepMax)
+                    : "",
+              }),
+            ),
+          };
+        },
+      );
+
+    setExercises(loadedExercises);
+    setIntervalBlocks((routine.intervalBlocks ?? []).map(toIntervalBlockDraft));
+  };
+
   const addExerciseFromSmartInput = () => {
     if (!smartInput.trim()) return;
 
@@ -281,6 +508,7 @@ export function RoutineBuilder({
         catalogId: matchedSuggestion.id,
         notes: matchedSuggestion.instructionNotes ?? "",
         defaultRestSeconds: matchedSuggestion.defaultRestSeconds ?? undefined,
+        trackingMode: matchedSuggestion.trackingMode,
       });
     } else {
       addExercise({
@@ -303,6 +531,8 @@ export function RoutineBuilder({
     catalogId = null,
     notes = "",
     defaultRestSeconds = undefined,
+    trackingMode = "weight_reps",
+    targets = EMPTY_TARGETS,
   }: {
     name?: string;
     numSets?: number;
@@ -311,6 +541,8 @@ export function RoutineBuilder({
     catalogId?: string | null;
     notes?: string;
     defaultRestSeconds?: number | null | undefined;
+    trackingMode?: TrackingMode;
+    targets?: SetTargetFields;
   }) => {
     const sets: ExerciseSet[] = Array.from(
       { length: numSets },
@@ -318,6 +550,11 @@ export function RoutineBuilder({
         id: `set-${Date.now()}-${i}`,
         reps: defaultReps,
         rest: defaultRest,
+        weight: "",
+        duration: "",
+        distance: "",
+        setType: "working",
+        ...targets,
       }),
     );
 
@@ -326,8 +563,11 @@ export function RoutineBuilder({
       name,
       catalogId,
       defaultRestSeconds,
+      trackingMode,
       sets,
       notes,
+      linkedToPrevious: false,
+      group: DEFAULT_GROUP,
     };
     setExercises([...exercises, newExercise]);
   };
@@ -337,9 +577,7 @@ export function RoutineBuilder({
       clearTimeout(suggestionBlurTimeout.current);
       suggestionBlurTimeout.current = null;
     }
-    const parsedDefaults = suggestion.instructionNotes
-      ? parsePrescriptionFromNotes(suggestion.instructionNotes)
-      : { reps: undefined, rest: undefined };
+    const parsedDefaults = parsePrescriptionFromNotes(suggestion.instructionNotes);
 
     addExercise({
       name: suggestion.name,
@@ -352,6 +590,8 @@ export function RoutineBuilder({
       catalogId: suggestion.id,
       notes: suggestion.instructionNotes ?? "",
       defaultRestSeconds: suggestion.defaultRestSeconds ?? undefined,
+      trackingMode: suggestion.trackingMode,
+      targets: parsedDefaults.targets,
     });
 
     const updatedRecent = [suggestion, ...recentExercises.filter((item) => item.id !== suggestion.id)].slice(0, 3);
@@ -415,6 +655,16 @@ export function RoutineBuilder({
             id: `set-${Date.now()}`,
             reps: lastSet?.reps || "10",
             rest: lastSet?.rest || "90",
+            weight: lastSet?.weight ?? "",
+            storedWeight: lastSet?.storedWeight,
+            duration: lastSet?.duration ?? "",
+            distance: lastSet?.distance ?? "",
+            // Drop sets usually come in runs; anything else starts as a working set.
+            setType: lastSet?.setType === "drop" ? "drop" : "working",
+            tempo: lastSet?.tempo ?? "",
+            rir: lastSet?.rir ?? "",
+            rpe: lastSet?.rpe ?? "",
+            percentOneRepMax: lastSet?.percentOneRepMax ?? "",
           };
           return { ...ex, sets: [...ex.sets, newSet] };
         }
@@ -444,20 +694,111 @@ export function RoutineBuilder({
     setExercises(exercises.filter((ex) => ex.id !== id));
   };
 
+  const toggleLinkToPrevious = (index: number) => {
+    const toggled = exercises.map((ex, i) =>
+      i === index ? { ...ex, linkedToPrevious: !ex.linkedToPrevious } : ex,
+    );
+    const run = getExerciseRuns(toggled).find((entry) => entry.includes(index))!;
+    if (run.length < 2) {
+      setExercises(toggled);
+      return;
+    }
+
+    const head = toggled[run[0]];
+    const headWasGrouped = getExerciseRuns(exercises).some(
+      (entry) => entry.length > 1 && entry.includes(run[0]),
+    );
+    // A fresh group starts from the head's own set count.
+    const group = headWasGrouped
+      ? head.group
+      : { ...head.group, rounds: String(head.sets.length) };
+    setExercises(
+      applyGroupSettings(toggled, run, {
+        ...group,
+        kind: group.kind === "superset" && run.length > 2 ? "giant_set" : group.kind,
+      }),
+    );
+  };
+
+  const updateGroup = (
+    index: number,
+    field: keyof ExerciseGroupSettings,
+    value: string,
+  ) => {
+    const run = getExerciseRuns(exercises).find((entry) => entry.includes(index))!;
+    setExercises(
+      applyGroupSettings(exercises, run, {
+        ...exercises[run[0]].group,
+        [field]: value,
+      }),
+    );
+  };
+
+  // The same body saves a client's routine or a template.
+  const buildRoutineBody = () => {
+    const groupRuns = getExerciseRuns(exercises).filter((run) => run.length > 1);
+    const groupKeys = new Map<number, string>();
+    groupRuns.forEach((run) =>
+      run.forEach((index) => groupKeys.set(index, exercises[run[0]].id)),
+    );
+
+    return {
+      name: routineName,
+      groups: groupRuns.map((run) => {
+        const { id, kind, rounds, rest } = exercises[run[0]].group;
+        return {
+          key: exercises[run[0]].id,
+          id,
+          kind,
+          rounds: parseInt(rounds, 10) || 1,
+          restSeconds: rest.trim() ? Number(rest) : null,
+        };
+      }),
+      intervalBlocks: intervalBlocks.map(fromIntervalBlockDraft),
+      exercises: exercises.map(({ id, catalogId, defaultRestSeconds, sets, linkedToPrevious, group, ...ex }, index) => ({
+        ...ex,
+        catalogId,
+        defaultRestSeconds,
+        groupKey: groupKeys.get(index) ?? null,
+        sets: sets.map(({ id: setId, weight, storedWeight, duration, distance, tempo, rir, rpe, percentOneRepMax, ...set }) => ({
+          ...set,
+          tempo: parseTempo(tempo),
+          targetRir: rir.trim() ? Number(rir) : null,
+          targetRpe: rpe.trim() ? Number(rpe) : null,
+          percentOneRepMax: percentOneRepMax.trim()
+            ? Number(percentOneRepMax)
+            : null,
+          weight:
+            storedWeight && storedWeight.display === weight
+              ? storedWeight.pounds
+              : weight.trim() && Number.isFinite(Number(weight))
+                ? fromDisplayWeight(Number(weight), weightUnit)
+                : null,
+          durationSeconds: parseDuration(duration) || null,
+          distanceMeters:
+            distance.trim() && Number(distance) > 0
+              ? fromDisplayDistance(Number(distance), weightUnit)
+              : null,
+        })),
+      })),
+    };
+  };
+
   const saveRoutine = async () => {
     if (
       !routineName.trim() ||
       exercises.length === 0 ||
-      !selectedClientId
+      (!isTemplate && !selectedClientId)
     ) {
       return;
     }
 
     setSaving(true);
     try {
+      const basePath = isTemplate ? "pt/templates" : "pt/routine";
       const url = routineId
-        ? `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/pt/routine/${routineId}`
-        : `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/pt/routine`;
+        ? `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/${basePath}/${routineId}`
+        : `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/${basePath}`;
 
       const response = await fetch(url, {
         method: routineId ? "PUT" : "POST",
@@ -465,16 +806,11 @@ export function RoutineBuilder({
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({
-          name: routineName,
-          clientId: selectedClientId,
-          exercises: exercises.map(({ id, catalogId, defaultRestSeconds, sets, ...ex }) => ({
-            ...ex,
-            catalogId,
-            defaultRestSeconds,
-            sets: sets.map(({ id: setId, ...set }) => set),
-          })),
-        }),
+        body: JSON.stringify(
+          isTemplate
+            ? buildRoutineBody()
+            : { ...buildRoutineBody(), clientId: selectedClientId },
+        ),
       });
 
       if (response.ok) {
@@ -492,6 +828,110 @@ export function RoutineBuilder({
     }
   };
 
+  const updateRoutineActive = async (isActive: boolean) => {
+    if (!routineId) return;
+
+    setSaving(true);
+    setManageError(null);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/pt/routine/${routineId}`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ isActive }),
+        },
+      );
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setManageError(data.error || "Failed to update routine");
+        return;
+      }
+
+      setRoutineActive(isActive);
+    } catch (error) {
+      console.error("Error archiving routine:", error);
+      setManageError("Unable to update routine. Check your connection and try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRoutine = async () => {
+    if (!routineId) return;
+
+    setSaving(true);
+    setManageError(null);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/pt/routine/${routineId}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setManageError(data.error || "Failed to delete routine");
+        setConfirmDelete(false);
+        return;
+      }
+
+      onSuccess();
+    } catch (error) {
+      console.error("Error deleting routine:", error);
+      setManageError("Unable to delete routine. Check your connection and try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Keeps a copy of the routine as it stands, without leaving the builder.
+  const saveAsTemplate = async () => {
+    if (!routineName.trim() || exercises.length === 0) return;
+
+    setSaving(true);
+    setTemplateNotice(null);
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/pt/templates`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify(buildRoutineBody()),
+        },
+      );
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setTemplateNotice(data.error || "Failed to save template");
+        return;
+      }
+
+      if (data.template) {
+        setTemplates((prev) => [...prev, data.template]);
+      }
+      setTemplateNotice(`Saved "${routineName.trim()}" to your templates.`);
+    } catch (error) {
+      console.error("Error saving template:", error);
+      setTemplateNotice("Unable to save template. Check your connection and try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const exerciseRuns = getExerciseRuns(exercises);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -502,7 +942,7 @@ export function RoutineBuilder({
     );
   }
 
-  if (clients.length === 0) {
+  if (!isTemplate && clients.length === 0) {
     return (
       <div className="min-h-screen bg-background">
         <div className="bg-primary text-primary-foreground px-6 py-6">
@@ -549,12 +989,27 @@ export function RoutineBuilder({
           </Button>
           <div className="flex-1">
             <h2 className="text-primary-foreground">
-              Create Routine
+              {isTemplate
+                ? routineId
+                  ? "Edit Template"
+                  : "Create Template"
+                : "Create Routine"}
             </h2>
             <p className="text-sm text-primary-foreground/80">
               {exercises.length} exercises
             </p>
           </div>
+          {routineId && (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setShowHistory(true)}
+              className="gap-2"
+            >
+              <History className="w-4 h-4" />
+              History
+            </Button>
+          )}
           <Button
             variant="secondary"
             size="sm"
@@ -568,26 +1023,58 @@ export function RoutineBuilder({
 
       <div className="px-6 py-6 space-y-6">
         {/* Client Selection */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-        >
-          <Label htmlFor="client">Client</Label>
-          <select
-            id="client"
-            value={selectedClientId}
-            onChange={(e) =>
-              setSelectedClientId(e.target.value)
-            }
-            className="w-full mt-1.5 px-4 py-2 bg-background border border-border rounded-lg"
+        {!isTemplate && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
           >
-            {clients.map((client) => (
-              <option key={client.id} value={client.id}>
-                {client.name} ({client.email})
-              </option>
-            ))}
-          </select>
-        </motion.div>
+            <Label htmlFor="client">Client</Label>
+            <select
+              id="client"
+              value={selectedClientId}
+              onChange={(e) =>
+                setSelectedClientId(e.target.value)
+              }
+              className="w-full mt-1.5 px-4 py-2 bg-background border border-border rounded-lg"
+            >
+              {clients.map((client) => (
+                <option key={client.id} value={client.id}>
+                  {client.name} ({client.email})
+                </option>
+              ))}
+            </select>
+          </motion.div>
+        )}
+
+        {/* Start from a template; the copy can be changed freely for this client */}
+        {!isTemplate && !routineId && templates.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <Label htmlFor="template">Start from template</Label>
+            <select
+              id="template"
+              value=""
+              onChange={(e) => {
+                const template = templates.find(
+                  (entry) => entry.id === e.target.value,
+                );
+                if (template) {
+                  loadRoutine(template);
+                }
+              }}
+              className="w-full mt-1.5 px-4 py-2 bg-background border border-border rounded-lg"
+            >
+              <option value="">Choose a template...</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name} ({template.exercises.length} exercises)
+                </option>
+              ))}
+            </select>
+          </motion.div>
+        )}
 
         {/* Routine Name */}
         <motion.div
@@ -595,7 +1082,9 @@ export function RoutineBuilder({
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.05 }}
         >
-          <Label htmlFor="routineName">Routine Name</Label>
+          <Label htmlFor="routineName">
+            {isTemplate ? "Template Name" : "Routine Name"}
+          </Label>
           <Input
             id="routineName"
             value={routineName}
@@ -729,153 +1218,438 @@ export function RoutineBuilder({
               onReorder={setExercises}
               className="space-y-3"
             >
-              {exercises.map((exercise, index) => (
-                <Reorder.Item
-                  key={exercise.id}
-                  value={exercise}
-                >
-                  <motion.div
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    className="bg-card rounded-2xl p-4 border border-border shadow-sm cursor-grab active:cursor-grabbing"
+              {exercises.map((exercise, index) => {
+                const run = exerciseRuns.find((entry) => entry.includes(index)) ?? [index];
+                const isGrouped = run.length > 1;
+                return (
+                  <Reorder.Item
+                    key={exercise.id}
+                    value={exercise}
                   >
-                    <div className="relative flex items-start gap-3 mb-4">
-                      <GripVertical className="w-5 h-5 text-muted-foreground mt-2 flex-shrink-0" />
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-3">
-                          <span className="text-sm text-muted-foreground w-8">
-                            #{index + 1}
-                          </span>
-                          <Input
-                            value={exercise.name}
-                            onChange={(e) =>
-                              updateExercise(
-                                exercise.id,
-                                "name",
-                                e.target.value,
-                              )
-                            }
-                            placeholder="Exercise name"
-                            className="flex-1 py-[4px] px-[12px] mr-12"
-                          />
-                        </div>
+                    {isGrouped && run[0] === index && (
+                      <div className="flex flex-wrap items-center gap-2 mb-2 px-1">
+                        <Link2 className="w-4 h-4 text-accent" />
+                        <select
+                          value={exercise.group.kind}
+                          onChange={(e) =>
+                            updateGroup(index, "kind", e.target.value)
+                          }
+                          className="h-7 px-2 bg-background border border-border rounded-md text-xs"
+                        >
+                          {EXERCISE_GROUP_KINDS.map((kind) => (
+                            <option key={kind} value={kind}>
+                              {EXERCISE_GROUP_LABELS[kind]}
+                            </option>
+                          ))}
+                        </select>
+                        <Label className="text-xs text-muted-foreground">
+                          Rounds
+                        </Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={20}
+                          value={exercise.group.rounds}
+                          onChange={(e) =>
+                            updateGroup(index, "rounds", e.target.value)
+                          }
+                          className="h-7 w-16 text-xs"
+                        />
+                        <Label className="text-xs text-muted-foreground">
+                          Rest after each round (s)
+                        </Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={exercise.group.rest}
+                          onChange={(e) =>
+                            updateGroup(index, "rest", e.target.value)
+                          }
+                          className="h-7 w-20 text-xs"
+                        />
+                      </div>
+                    )}
+                    <motion.div
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className={`bg-card rounded-2xl p-4 border border-border shadow-sm cursor-grab active:cursor-grabbing ${
+                        isGrouped ? "border-l-4 border-l-accent" : ""
+                      }`}
+                    >
+                      <div className="relative flex items-start gap-3 mb-4">
+                        <GripVertical className="w-5 h-5 text-muted-foreground mt-2 flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-3">
+                            <span className="text-sm text-muted-foreground w-8">
+                              #{index + 1}
+                            </span>
+                            {index > 0 && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => toggleLinkToPrevious(index)}
+                                title={
+                                  exercise.linkedToPrevious
+                                    ? "Ungroup from the exercise above"
+                                    : "Group with the exercise above"
+                                }
+                                className={`h-7 w-7 p-0 flex-shrink-0 ${
+                                  exercise.linkedToPrevious
+                                    ? "text-accent"
+                                    : "text-muted-foreground"
+                                }`}
+                              >
+                                <Link2 className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Input
+                              value={exercise.name}
+                              onChange={(e) =>
+                                updateExercise(
+                                  exercise.id,
+                                  "name",
+                                  e.target.value,
+                                )
+                              }
+                              placeholder="Exercise name"
+                              className="flex-1 py-[4px] px-[12px] mr-12"
+                            />
+                          </div>
 
-                        {/* Individual Sets */}
-                        <div className="-mx-4 px-4 space-y-2 mb-[8px] p-[0px] mt-[0px] mr-[0px] ml-[-32px]">
-                          <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2 mb-3 pl-10 mr-12">
                             <Label className="text-xs text-muted-foreground">
-                              Sets ({exercise.sets.length})
+                              Tracked by
                             </Label>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() =>
-                                addSetToExercise(exercise.id)
+                            {/* Catalogue exercises keep their own mode; it is changed from the exercise's page. */}
+                            <select
+                              value={exercise.trackingMode}
+                              onChange={(e) =>
+                                updateExercise(
+                                  exercise.id,
+                                  "trackingMode",
+                                  e.target.value,
+                                )
                               }
-                              className="h-6 px-2 text-xs"
+                              disabled={Boolean(exercise.catalogId)}
+                              className="h-7 px-2 bg-background border border-border rounded-md text-xs disabled:opacity-70"
                             >
-                              <Plus className="w-3 h-3 mr-1" />
-                              Add Set
-                            </Button>
+                              {TRACKING_MODES.map((mode) => (
+                                <option key={mode} value={mode}>
+                                  {TRACKING_MODE_LABELS[mode]}
+                                </option>
+                              ))}
+                            </select>
                           </div>
 
-                          {exercise.sets.map(
-                            (set, setIndex) => (
-                              <div
-                                key={set.id}
-                                className="flex items-center gap-2 bg-muted/50 rounded-lg p-2"
+                          {/* Individual Sets */}
+                          <div className="-mx-4 px-4 space-y-2 mb-[8px] p-[0px] mt-[0px] mr-[0px] ml-[-32px]">
+                            <div className="flex items-center justify-between">
+                              <Label className="text-xs text-muted-foreground">
+                                Sets ({exercise.sets.length})
+                              </Label>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() =>
+                                  addSetToExercise(exercise.id)
+                                }
+                                className="h-6 px-2 text-xs"
                               >
-                                <span className="text-xs text-muted-foreground w-6 text-center">
-                                  {setIndex + 1}
-                                </span>
-                                <div className="flex-1 grid grid-cols-2 gap-2">
-                                  <div>
-                                    <Label className="text-xs text-muted-foreground">
-                                      Reps
-                                    </Label>
-                                    <Input
-                                      type="text"
-                                      value={set.reps}
-                                      onChange={(e) =>
-                                        updateSet(
-                                          exercise.id,
-                                          set.id,
-                                          "reps",
-                                          e.target.value,
-                                        )
-                                      }
-                                      placeholder="10 or 10-12"
-                                      className="mt-1 h-8 text-sm"
-                                    />
+                                <Plus className="w-3 h-3 mr-1" />
+                                Add Set
+                              </Button>
+                            </div>
+
+                            {exercise.sets.map(
+                              (set, setIndex) => (
+                                <div
+                                  key={set.id}
+                                  className="flex items-center gap-2 bg-muted/50 rounded-lg p-2"
+                                >
+                                  <span className="text-xs text-muted-foreground w-6 text-center">
+                                    {set.setType === "working"
+                                      ? setIndex + 1
+                                      : SET_TYPE_MARKERS[set.setType]}
+                                  </span>
+                                  <div className="flex-1 grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                    <div>
+                                      <Label className="text-xs text-muted-foreground">
+                                        Type
+                                      </Label>
+                                      <select
+                                        value={set.setType}
+                                        onChange={(e) =>
+                                          updateSet(
+                                            exercise.id,
+                                            set.id,
+                                            "setType",
+                                            e.target.value,
+                                          )
+                                        }
+                                        className="mt-1 w-full h-8 px-2 bg-background border border-border rounded-md text-sm"
+                                      >
+                                        {SET_TYPES.map((type) => (
+                                          <option key={type} value={type}>
+                                            {SET_TYPE_LABELS[type]}
+                                          </option>
+                                        ))}
+                                      </select>
+                                    </div>
+                                    {tracksReps(exercise.trackingMode) && (
+                                      <div>
+                                        <Label className="text-xs text-muted-foreground">
+                                          Reps
+                                        </Label>
+                                        <Input
+                                          type="text"
+                                          value={set.reps}
+                                          onChange={(e) =>
+                                            updateSet(
+                                              exercise.id,
+                                              set.id,
+                                              "reps",
+                                              e.target.value,
+                                            )
+                                          }
+                                          placeholder={
+                                            set.setType === "amrap"
+                                              ? "Min reps"
+                                              : "10 or 10-12"
+                                          }
+                                          className="mt-1 h-8 text-sm"
+                                        />
+                                      </div>
+                                    )}
+                                    <div>
+                                      <Label className="text-xs text-muted-foreground">
+                                        Rest (sec)
+                                      </Label>
+                                      <Input
+                                        type="text"
+                                        value={set.rest}
+                                        onChange={(e) =>
+                                          updateSet(
+                                            exercise.id,
+                                            set.id,
+                                            "rest",
+                                            e.target.value,
+                                          )
+                                        }
+                                        placeholder="90 or 60-90"
+                                        className="mt-1 h-8 text-sm"
+                                      />
+                                    </div>
+                                    {tracksWeight(exercise.trackingMode) && (
+                                      <div>
+                                        <Label className="text-xs text-muted-foreground">
+                                          Weight ({weightUnit})
+                                        </Label>
+                                        <Input
+                                          type="text"
+                                          inputMode="decimal"
+                                          value={set.weight}
+                                          onChange={(e) =>
+                                            updateSet(
+                                              exercise.id,
+                                              set.id,
+                                              "weight",
+                                              e.target.value,
+                                            )
+                                          }
+                                          placeholder="Optional"
+                                          className="mt-1 h-8 text-sm"
+                                        />
+                                      </div>
+                                    )}
+                                    {tracksDistance(exercise.trackingMode) && (
+                                      <div>
+                                        <Label className="text-xs text-muted-foreground">
+                                          Distance ({getDistanceUnit(weightUnit)})
+                                        </Label>
+                                        <Input
+                                          type="text"
+                                          inputMode="decimal"
+                                          value={set.distance}
+                                          onChange={(e) =>
+                                            updateSet(
+                                              exercise.id,
+                                              set.id,
+                                              "distance",
+                                              e.target.value,
+                                            )
+                                          }
+                                          placeholder="Optional"
+                                          className="mt-1 h-8 text-sm"
+                                        />
+                                      </div>
+                                    )}
+                                    {tracksTime(exercise.trackingMode) && (
+                                      <div>
+                                        <Label className="text-xs text-muted-foreground">
+                                          Time (m:ss)
+                                        </Label>
+                                        <Input
+                                          type="text"
+                                          value={set.duration}
+                                          onChange={(e) =>
+                                            updateSet(
+                                              exercise.id,
+                                              set.id,
+                                              "duration",
+                                              e.target.value,
+                                            )
+                                          }
+                                          placeholder="0:45"
+                                          className="mt-1 h-8 text-sm"
+                                        />
+                                      </div>
+                                    )}
+                                    {tracksWeight(exercise.trackingMode) && (
+                                      <div>
+                                        <Label className="text-xs text-muted-foreground">
+                                          % of 1RM
+                                        </Label>
+                                        <Input
+                                          type="text"
+                                          inputMode="decimal"
+                                          value={set.percentOneRepMax}
+                                          onChange={(e) =>
+                                            updateSet(
+                                              exercise.id,
+                                              set.id,
+                                              "percentOneRepMax",
+                                              e.target.value,
+                                            )
+                                          }
+                                          placeholder="e.g. 75"
+                                          className="mt-1 h-8 text-sm"
+                                        />
+                                      </div>
+                                    )}
+                                    {tracksReps(exercise.trackingMode) && (
+                                      <>
+                                        <div>
+                                          <Label className="text-xs text-muted-foreground">
+                                            Tempo
+                                          </Label>
+                                          <Input
+                                            type="text"
+                                            value={set.tempo}
+                                            onChange={(e) =>
+                                              updateSet(
+                                                exercise.id,
+                                                set.id,
+                                                "tempo",
+                                                e.target.value,
+                                              )
+                                            }
+                                            onBlur={() =>
+                                              updateSet(
+                                                exercise.id,
+                                                set.id,
+                                                "tempo",
+                                                parseTempo(set.tempo) ?? set.tempo,
+                                              )
+                                            }
+                                            placeholder="3-1-1-0"
+                                            className="mt-1 h-8 text-sm"
+                                          />
+                                        </div>
+                                        <div>
+                                          <Label className="text-xs text-muted-foreground">
+                                            RIR
+                                          </Label>
+                                          <Input
+                                            type="number"
+                                            min={0}
+                                            max={10}
+                                            value={set.rir}
+                                            onChange={(e) =>
+                                              updateSet(
+                                                exercise.id,
+                                                set.id,
+                                                "rir",
+                                                e.target.value,
+                                              )
+                                            }
+                                            placeholder="Optional"
+                                            className="mt-1 h-8 text-sm"
+                                          />
+                                        </div>
+                                        <div>
+                                          <Label className="text-xs text-muted-foreground">
+                                            RPE
+                                          </Label>
+                                          <Input
+                                            type="number"
+                                            min={1}
+                                            max={10}
+                                            step={0.5}
+                                            value={set.rpe}
+                                            onChange={(e) =>
+                                              updateSet(
+                                                exercise.id,
+                                                set.id,
+                                                "rpe",
+                                                e.target.value,
+                                              )
+                                            }
+                                            placeholder="Optional"
+                                            className="mt-1 h-8 text-sm"
+                                          />
+                                        </div>
+                                      </>
+                                    )}
                                   </div>
-                                  <div>
-                                    <Label className="text-xs text-muted-foreground">
-                                      Rest (sec)
-                                    </Label>
-                                    <Input
-                                      type="text"
-                                      value={set.rest}
-                                      onChange={(e) =>
-                                        updateSet(
+                                  {exercise.sets.length > 1 && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() =>
+                                        removeSetFromExercise(
                                           exercise.id,
                                           set.id,
-                                          "rest",
-                                          e.target.value,
                                         )
                                       }
-                                      placeholder="90 or 60-90"
-                                      className="mt-1 h-8 text-sm"
-                                    />
-                                  </div>
+                                      className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                                    >
+                                      <Trash2 className="w-3 h-3" />
+                                    </Button>
+                                  )}
                                 </div>
-                                {exercise.sets.length > 1 && (
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() =>
-                                      removeSetFromExercise(
-                                        exercise.id,
-                                        set.id,
-                                      )
-                                    }
-                                    className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
-                                  >
-                                    <Trash2 className="w-3 h-3" />
-                                  </Button>
-                                )}
-                              </div>
-                            ),
-                          )}
-                        </div>
+                              ),
+                            )}
+                          </div>
 
-                        <Textarea
-                          value={exercise.notes}
-                          onChange={(e) =>
-                            updateExercise(
-                              exercise.id,
-                              "notes",
-                              e.target.value,
-                            )
+                          <Textarea
+                            value={exercise.notes}
+                            onChange={(e) =>
+                              updateExercise(
+                                exercise.id,
+                                "notes",
+                                e.target.value,
+                              )
+                            }
+                            placeholder="Notes (optional)"
+                            className="resize-none -mx-4 px-4"
+                            rows={2}
+                          />
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            removeExercise(exercise.id)
                           }
-                          placeholder="Notes (optional)"
-                          className="resize-none -mx-4 px-4"
-                          rows={2}
-                        />
+                          className="absolute top-0 right-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() =>
-                          removeExercise(exercise.id)
-                        }
-                        className="absolute top-0 right-0 text-destructive hover:text-destructive hover:bg-destructive/10"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  </motion.div>
-                </Reorder.Item>
-              ))}
+                    </motion.div>
+                  </Reorder.Item>
+                );
+              })}
             </Reorder.Group>
           ) : (
             <div className="bg-card rounded-2xl p-8 border border-border text-center">
@@ -889,6 +1663,53 @@ export function RoutineBuilder({
           )}
         </div>
 
+        {/* Finishers */}
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h3>Finishers</h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setIntervalBlocks([
+                  ...intervalBlocks,
+                  createIntervalBlockDraft("emom"),
+                ])
+              }
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+
+          {intervalBlocks.length > 0 ? (
+            <div className="space-y-3">
+              {intervalBlocks.map((block) => (
+                <IntervalBlockEditor
+                  key={block.id}
+                  block={block}
+                  onChange={(updated) =>
+                    setIntervalBlocks(
+                      intervalBlocks.map((entry) =>
+                        entry.id === block.id ? updated : entry,
+                      ),
+                    )
+                  }
+                  onRemove={() =>
+                    setIntervalBlocks(
+                      intervalBlocks.filter((entry) => entry.id !== block.id),
+                    )
+                  }
+                />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              EMOM, AMRAP, Tabata or custom intervals, timed for the client after the last exercise.
+            </p>
+          )}
+        </div>
+
         {/* Save Button */}
         <Button
           onClick={saveRoutine}
@@ -897,26 +1718,134 @@ export function RoutineBuilder({
           disabled={
             !routineName.trim() ||
             exercises.length === 0 ||
-            !selectedClientId ||
+            (!isTemplate && !selectedClientId) ||
             saving
           }
         >
-          {saving ? "Saving..." : "Save Routine"}
+          {saving ? "Saving..." : isTemplate ? "Save Template" : "Save Routine"}
         </Button>
+        {!isTemplate && (
+          <div className="-mt-3 text-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={saveAsTemplate}
+              disabled={!routineName.trim() || exercises.length === 0 || saving}
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Save as Template
+            </Button>
+            {templateNotice && (
+              <p className="text-xs text-muted-foreground">{templateNotice}</p>
+            )}
+          </div>
+        )}
+
+        {/* Archiving keeps the routine and its sessions; only unused routines can be deleted */}
+        {!isTemplate && routineId && (
+          <div className="border-t border-border pt-6 space-y-3">
+            {!routineActive && (
+              <p className="text-sm text-muted-foreground">
+                This routine is archived. The client can't see it until you reactivate it.
+              </p>
+            )}
+            {manageError && (
+              <div className="rounded-md border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+                {manageError}
+              </div>
+            )}
+            {confirmDelete ? (
+              <div className="bg-destructive/10 border border-destructive/40 rounded-2xl p-4">
+                <p className="text-sm mb-3">
+                  Delete this routine for good? Routines with logged sessions can only be archived.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <Button variant="outline" onClick={() => setConfirmDelete(false)} disabled={saving}>
+                    Cancel
+                  </Button>
+                  <Button variant="destructive" onClick={deleteRoutine} disabled={saving}>
+                    {saving ? "Deleting..." : "Delete"}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  variant="outline"
+                  onClick={() => updateRoutineActive(!routineActive)}
+                  disabled={saving}
+                >
+                  {routineActive ? (
+                    <Archive className="w-4 h-4 mr-2" />
+                  ) : (
+                    <ArchiveRestore className="w-4 h-4 mr-2" />
+                  )}
+                  {routineActive ? "Archive" : "Reactivate"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setConfirmDelete(true)}
+                  disabled={saving}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
       </div>
+
+      {showHistory && routineId && (
+        <RoutineVersionHistory
+          token={token}
+          routineId={routineId}
+          weightUnit={weightUnit}
+          onClose={() => setShowHistory(false)}
+          onRestored={() => {
+            setShowHistory(false);
+            // Reloading the source list reloads the routine into the builder.
+            if (isTemplate) {
+              fetchTemplates();
+            } else {
+              fetchClients();
+            }
+          }}
+        />
+      )}
     </div>
   );
 }
 
 const parsePrescriptionFromNotes = (notes: string | null | undefined) => {
-  if (!notes) return { reps: undefined as string | undefined, rest: undefined as string | undefined };
+  if (!notes) {
+    return {
+      reps: undefined as string | undefined,
+      rest: undefined as string | undefined,
+      targets: EMPTY_TARGETS,
+    };
+  }
 
   const repsMatch = notes.match(/\b(\d{1,3})(?:-\d{1,3})?\s*(?:reps|rep)/i);
   const restMatch = notes.match(/(\d{1,3})\s*(?:sec|seconds)/i);
+  // "3-1-1-0 tempo", "tempo 31X0", "2 RIR", "RPE 8", "75% 1RM"
+  const tempoMatch = notes.match(
+    /(?:tempo\s*:?\s*([0-9x]{1,2}(?:-[0-9x]{1,2}){3}|[0-9x]{4})\b)|(?:\b([0-9x]{1,2}(?:-[0-9x]{1,2}){3}|[0-9x]{4})\s*tempo)/i,
+  );
+  const rirMatch = notes.match(/\b(\d{1,2})\s*RIR\b/i);
+  const rpeMatch = notes.match(/\bRPE\s*(\d{1,2}(?:\.5)?)\b/i);
+  const percentMatch = notes.match(/(\d{1,3}(?:\.\d+)?)\s*%\s*(?:of\s*)?(?:1\s*RM|one[- ]rep max)/i);
 
   return {
     reps: repsMatch ? repsMatch[1] : undefined,
     rest: restMatch ? restMatch[1] : undefined,
+    targets: {
+      tempo: tempoMatch ? parseTempo(tempoMatch[1] ?? tempoMatch[2]) ?? "" : "",
+      rir: rirMatch ? rirMatch[1] : "",
+      rpe: rpeMatch ? rpeMatch[1] : "",
+      percentOneRepMax: percentMatch ? percentMatch[1] : "",
+    },
   };
 };
 
@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from "react";
+import { motion } from "motion/react";
+import { History, RotateCcw, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { projectId } from "../../utils/supabase/info";
+import { WeightUnit } from "../../utils/units";
+import {
+  diffRoutineSnapshots,
+  RoutineSnapshot,
+  RoutineVersionSummary,
+} from "../../utils/routineVersions";
+
+interface RoutineVersionHistoryProps {
+  token: string;
+  routineId: string;
+  weightUnit: WeightUnit;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const SESSION_EXPIRED_MESSAGE = "Your session has expired. Please sign out and log in again.";
+
+const CHANGE_STYLES = {
+  added: "text-emerald-600",
+  removed: "text-destructive",
+  changed: "text-foreground",
+};
+
+const CHANGE_MARKERS = { added: "+", removed: "−", changed: "~" };
+
+const formatSavedAt = (value: string) =>
+  new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export function RoutineVersionHistory({
+  token,
+  routineId,
+  weightUnit,
+  onClose,
+  onRestored,
+}: RoutineVersionHistoryProps) {
+  const [versions, setVersions] = useState<RoutineVersionSummary[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Snapshots are fetched as versions are opened and kept for comparing against.
+  const [snapshots, setSnapshots] = useState<Record<string, RoutineSnapshot>>({});
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/pt/routine/${routineId}/versions`;
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      try {
+        const response = await fetch(baseUrl, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        });
+
+        if (response.status === 401) {
+          throw new Error(SESSION_EXPIRED_MESSAGE);
+        }
+
+        if (!response.ok) {
+          throw new Error("Failed to load routine history");
+        }
+
+        const data = await response.json();
+        setVersions(data.versions || []);
+        setSelectedId(data.versions?.[0]?.id ?? null);
+      } catch (err: any) {
+        console.error("Load routine versions error", err);
+        setVersions([]);
+        setError(err.message || "Unable to load routine history");
+      }
+    };
+
+    loadVersions();
+  }, [routineId, token]);
+
+  const selectedIndex = versions?.findIndex((version) => version.id === selectedId) ?? -1;
+  const selected = versions && selectedIndex >= 0 ? versions[selectedIndex] : null;
+  // Versions are newest first, so the one saved before the selection is next in the list.
+  const previous = versions && selectedIndex >= 0 ? versions[selectedIndex + 1] ?? null : null;
+
+  useEffect(() => {
+    const loadSnapshot = async (versionId: string) => {
+      try {
+        const response = await fetch(`${baseUrl}/${versionId}`, {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to load version");
+        }
+
+        const data = await response.json();
+        setSnapshots((prev) => ({ ...prev, [versionId]: data.version.routine }));
+      } catch (err: any) {
+        console.error("Load routine version error", err);
+        setError(err.message || "Unable to load version");
+      }
+    };
+
+    [selected?.id, previous?.id].forEach((versionId) => {
+      if (versionId && !snapshots[versionId]) {
+        loadSnapshot(versionId);
+      }
+    });
+  }, [selected?.id, previous?.id]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setRestoring(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${baseUrl}/${selected.id}/restore`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (response.status === 401) {
+        throw new Error(SESSION_EXPIRED_MESSAGE);
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to restore version");
+      }
+
+      onRestored();
+    } catch (err: any) {
+      console.error("Restore routine version error", err);
+      setError(err.message || "Unable to restore version");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const selectedSnapshot = selected ? snapshots[selected.id] : undefined;
+  const previousSnapshot = previous ? snapshots[previous.id] : undefined;
+  const changes =
+    selectedSnapshot && previousSnapshot
+      ? diffRoutineSnapshots(previousSnapshot, selectedSnapshot, weightUnit)
+      : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-background rounded-2xl p-6 max-w-lg w-full border border-border max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-accent rounded-full flex items-center justify-center">
+              <History className="w-5 h-5 text-accent-foreground" />
+            </div>
+            <h2>Routine History</h2>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {error && (
+          <div className="rounded-md border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm text-destructive mb-4">
+            {error}
+          </div>
+        )}
+
+        {versions === null ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No saved versions yet. Each save from now on is kept here.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => setSelectedId(version.id)}
+                  className={`flex-shrink-0 rounded-lg border px-3 py-2 text-left text-xs transition-colors ${
+                    version.id === selectedId
+                      ? "border-accent bg-accent/10"
+                      : "border-border hover:bg-muted/50"
+                  }`}
+                >
+                  <span className="block text-sm font-semibold">
+                    v{version.versionNumber}
+                    {version.isCurrent && <span className="ml-1 font-normal text-accent">current</span>}
+                  </span>
+                  <span className="text-muted-foreground">{formatSavedAt(version.createdAt)}</span>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="bg-card border border-border rounded-2xl p-4 shadow-sm space-y-3">
+                <div className="text-xs text-muted-foreground space-y-0.5">
+                  <p>
+                    {selected.sessionCount > 0
+                      ? `${selected.sessionCount} ${selected.sessionCount === 1 ? "session" : "sessions"} performed against this version`
+                      : "No sessions performed against this version"}
+                  </p>
+                  {selected.restoredFromVersionNumber != null && (
+                    <p>Restored from v{selected.restoredFromVersionNumber}</p>
+                  )}
+                </div>
+
+                {!previous ? (
+                  <p className="text-sm text-muted-foreground">The first saved version.</p>
+                ) : !changes ? (
+                  <p className="text-sm text-muted-foreground">Comparing with v{previous.versionNumber}...</p>
+                ) : changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Saved with no changes from v{previous.versionNumber}.
+                  </p>
+                ) : (
+                  <div>
+                    <p className="text-xs uppercase tracking-wide text-muted-foreground mb-2">
+                      Changes from v{previous.versionNumber}
+                    </p>
+                    <ul className="space-y-1.5">
+                      {changes.map((change, index) => (
+                        <li key={index} className={`flex gap-2 text-sm ${CHANGE_STYLES[change.kind]}`}>
+                          <span className="w-3 flex-shrink-0 font-mono">{CHANGE_MARKERS[change.kind]}</span>
+                          <span>{change.text}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {!selected.isCurrent && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRestore}
+                    disabled={restoring}
+                    className="w-full"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    {restoring ? "Restoring..." : `Restore v${selected.versionNumber}`}
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -1,51 +1,102 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Play, Pause, RotateCcw, Plus, Minus } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { Button } from '../ui/button';
+import { alertRestOver, primeRestAlerts } from '../../utils/restAlerts';
 
 interface RestTimerProps {
+  // The rest shown while the timer is idle.
   initialSeconds?: number;
+  onStart?: () => void;
   onComplete?: () => void;
+  // Each new request starts a countdown from its own timestamp without calling onStart.
+  startRequest?: { seconds: number; startedAt: number } | null;
 }
 
-export function RestTimer({ initialSeconds = 90, onComplete }: RestTimerProps) {
-  const [seconds, setSeconds] = useState(initialSeconds);
-  const [isActive, setIsActive] = useState(false);
+export function RestTimer({ initialSeconds = 90, onStart, onComplete, startRequest }: RestTimerProps) {
   const [targetSeconds, setTargetSeconds] = useState(initialSeconds);
+  // The countdown is worked out from the end time rather than counted down, so
+  // it stays right when the phone locks and timers are throttled or paused.
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [pausedSeconds, setPausedSeconds] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const completedAt = useRef<number | null>(null);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+  const isActive = endsAt !== null;
 
   useEffect(() => {
-    let interval: any = null;
-
-    if (isActive && seconds > 0) {
-      interval = setInterval(() => {
-        setSeconds(s => {
-          if (s <= 1) {
-            setIsActive(false);
-            onComplete?.();
-            return 0;
-          }
-          return s - 1;
-        });
-      }, 1000);
+    if (!isActive && pausedSeconds === null) {
+      setTargetSeconds(initialSeconds);
     }
+  }, [initialSeconds]);
+
+  useEffect(() => {
+    if (!startRequest) return;
+    setTargetSeconds(startRequest.seconds);
+    setPausedSeconds(null);
+    setNow(Date.now());
+    setEndsAt(startRequest.startedAt + startRequest.seconds * 1000);
+  }, [startRequest]);
+
+  useEffect(() => {
+    if (endsAt === null) return;
+
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      if (current < endsAt || completedAt.current === endsAt) return;
+
+      completedAt.current = endsAt;
+      setEndsAt(null);
+      setPausedSeconds(0);
+      alertRestOver();
+      onCompleteRef.current?.();
+    };
+
+    const interval = setInterval(tick, 250);
+    const timeout = setTimeout(tick, Math.max(0, endsAt - Date.now()));
+    // Catch up straight away when the app comes back to the foreground.
+    document.addEventListener('visibilitychange', tick);
 
     return () => {
-      if (interval) clearInterval(interval);
+      clearInterval(interval);
+      clearTimeout(timeout);
+      document.removeEventListener('visibilitychange', tick);
     };
-  }, [isActive, seconds, onComplete]);
+  }, [endsAt]);
+
+  const seconds = endsAt !== null
+    ? Math.max(0, Math.ceil((endsAt - now) / 1000))
+    : pausedSeconds ?? targetSeconds;
+
+  const toggleTimer = () => {
+    if (isActive) {
+      setPausedSeconds(seconds);
+      setEndsAt(null);
+      return;
+    }
 
-  const toggleTimer = () => setIsActive(!isActive);
+    primeRestAlerts();
+    onStart?.();
+    const current = Date.now();
+    setNow(current);
+    setEndsAt(current + (pausedSeconds || targetSeconds) * 1000);
+    setPausedSeconds(null);
+  };
 
   const resetTimer = () => {
-    setIsActive(false);
-    setSeconds(targetSeconds);
+    setEndsAt(null);
+    setPausedSeconds(null);
   };
 
   const adjustTime = (delta: number) => {
     const newTarget = Math.max(30, Math.min(600, targetSeconds + delta));
     setTargetSeconds(newTarget);
-    if (!isActive) {
-      setSeconds(newTarget);
+    if (endsAt !== null) {
+      setEndsAt(endsAt + (newTarget - targetSeconds) * 1000);
+    } else {
+      setPausedSeconds(null);
     }
   };
 
@@ -66,7 +117,6 @@ export function RestTimer({ initialSeconds = 90, onComplete }: RestTimerProps) {
             variant="ghost"
             size="sm"
             onClick={() => adjustTime(-15)}
-            disabled={isActive}
             className="h-8 w-8 p-0"
           >
             <Minus className="w-4 h-4" />
@@ -75,7 +125,6 @@ export function RestTimer({ initialSeconds = 90, onComplete }: RestTimerProps) {
             variant="ghost"
             size="sm"
             onClick={() => adjustTime(15)}
-            disabled={isActive}
             className="h-8 w-8 p-0"
           >
             <Plus className="w-4 h-4" />
@@ -153,6 +202,12 @@ export function RestTimer({ initialSeconds = 90, onComplete }: RestTimerProps) {
           <RotateCcw className="w-4 h-4" />
         </Button>
       </div>
+
+      {isActive && (
+        <p className="text-xs text-muted-foreground text-center mt-3">
+          Keep your screen on: the alert can't sound while the phone is locked.
+        </p>
+      )}
     </motion.div>
   );
 }
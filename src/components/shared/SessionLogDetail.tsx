@@ -0,0 +1,508 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ArrowLeft, Clock, Pencil, Plus, Save, Trash2, Trophy, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { projectId } from '../../utils/supabase/info';
+import {
+  fromDisplayDistance,
+  fromDisplayWeight,
+  getDistanceUnit,
+  toDisplayDistance,
+  toDisplayWeight,
+  WeightUnit,
+} from '../../utils/units';
+import { formatSetMarker, getSetType, SET_TYPE_COLORS, SetType } from '../../utils/setTypes';
+import {
+  formatSessionDuration,
+  formatSetPerformance,
+  TrackingMode,
+  tracksDistance,
+  tracksReps,
+  tracksTime,
+  tracksWeight,
+} from '../../utils/tracking';
+import { SetDurationInput } from './SetDurationInput';
+import { formatIntervalResult, INTERVAL_KIND_LABELS, IntervalKind } from '../../utils/intervals';
+
+interface SessionLogDetailProps {
+  token: string;
+  sessionLogId: string;
+  scope: 'client' | 'pt';
+  weightUnit: WeightUnit;
+  onBack: () => void;
+  onDeleted: () => void;
+}
+
+interface LoggedSet {
+  id?: string;
+  setNumber?: number;
+  reps: number;
+  weight: number;
+  rpe: number | null;
+  rest?: number | null;
+  isPersonalBest?: boolean;
+  setType?: SetType;
+  durationSeconds?: number | null;
+  distanceMeters?: number | null;
+}
+
+interface LoggedExercise {
+  exerciseId: string;
+  name: string;
+  substitutedForName: string | null;
+  trackingMode: TrackingMode;
+  sets: LoggedSet[];
+}
+
+interface SessionLog {
+  id: string;
+  routineName: string;
+  // The version of the routine the session was performed against.
+  routineVersionNumber?: number | null;
+  performedAt: string;
+  durationSeconds: number | null;
+  clientNotes: string | null;
+  perceivedEffort: number | null;
+  exercises: LoggedExercise[];
+  intervalBlocks?: Array<{
+    id: string;
+    kind: IntervalKind;
+    name: string | null;
+    roundsCompleted: number;
+    extraReps: number | null;
+    durationSeconds: number | null;
+  }>;
+}
+
+export function SessionLogDetail({ token, sessionLogId, scope, weightUnit, onBack, onDeleted }: SessionLogDetailProps) {
+  const [session, setSession] = useState<SessionLog | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<LoggedExercise[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState('');
+
+  const endpoint = `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/${scope}/sessions/${sessionLogId}`;
+
+  useEffect(() => {
+    fetchSession();
+  }, [sessionLogId]);
+
+  const fetchSession = async () => {
+    try {
+      const response = await fetch(endpoint, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSession(data.session);
+      } else {
+        setError('Session not found');
+      }
+    } catch (err) {
+      console.error('Error fetching session:', err);
+      setError('Unable to load session');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = () => {
+    if (!session) return;
+    setDraft(session.exercises.map((exercise) => ({ ...exercise, sets: exercise.sets.map((set) => ({ ...set })) })));
+    setError('');
+    setEditing(true);
+  };
+
+  const updateDraftSet = (
+    exerciseIndex: number,
+    setIndex: number,
+    field: 'reps' | 'weight' | 'rpe' | 'durationSeconds' | 'distanceMeters',
+    value: number | null
+  ) => {
+    setDraft((prev) =>
+      prev.map((exercise, i) =>
+        i === exerciseIndex
+          ? {
+              ...exercise,
+              sets: exercise.sets.map((set, j) => (j === setIndex ? { ...set, [field]: value } : set)),
+            }
+          : exercise
+      )
+    );
+  };
+
+  const addDraftSet = (exerciseIndex: number) => {
+    setDraft((prev) =>
+      prev.map((exercise, i) => {
+        if (i !== exerciseIndex) return exercise;
+        const lastSet = exercise.sets[exercise.sets.length - 1];
+        return {
+          ...exercise,
+          sets: [
+            ...exercise.sets,
+            {
+              reps: lastSet?.reps ?? 10,
+              weight: lastSet?.weight ?? 0,
+              rpe: null,
+              durationSeconds: lastSet?.durationSeconds ?? null,
+              distanceMeters: lastSet?.distanceMeters ?? null,
+              setType: getSetType(lastSet),
+            },
+          ],
+        };
+      })
+    );
+  };
+
+  const removeDraftSet = (exerciseIndex: number, setIndex: number) => {
+    setDraft((prev) =>
+      prev.map((exercise, i) =>
+        i === exerciseIndex ? { ...exercise, sets: exercise.sets.filter((_, j) => j !== setIndex) } : exercise
+      )
+    );
+  };
+
+  const saveChanges = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          exercises: draft.map((exercise) => ({
+            exerciseId: exercise.exerciseId,
+            sets: exercise.sets.map((set) => ({
+              id: set.id,
+              reps: set.reps,
+              weight: set.weight,
+              rpe: set.rpe,
+              durationSeconds: set.durationSeconds ?? null,
+              distanceMeters: set.distanceMeters ?? null,
+              setType: getSetType(set),
+            })),
+          })),
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || 'Failed to save changes');
+        return;
+      }
+
+      setSession(data.session);
+      setEditing(false);
+    } catch (err) {
+      console.error('Error updating session:', err);
+      setError('Unable to save changes. Check your connection and try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteSession = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(endpoint, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to delete session');
+        return;
+      }
+
+      onDeleted();
+    } catch (err) {
+      console.error('Error deleting session:', err);
+      setError('Unable to delete session. Check your connection and try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background pb-20 flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  const exercises = editing ? draft : session?.exercises ?? [];
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {/* Header */}
+      <div className="bg-primary text-primary-foreground px-6 py-6 sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={editing ? () => setEditing(false) : onBack}
+            className="text-primary-foreground hover:bg-white/10 -ml-2"
+          >
+            {editing ? <X className="w-5 h-5" /> : <ArrowLeft className="w-5 h-5" />}
+          </Button>
+          <div className="flex-1">
+            <h2 className="text-primary-foreground">{session?.routineName ?? 'Workout'}</h2>
+            {session && (
+              <p className="text-sm text-primary-foreground/80">
+                {new Date(session.performedAt).toLocaleDateString('en-US', {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+                {session.routineVersionNumber != null && ` · v${session.routineVersionNumber}`}
+              </p>
+            )}
+          </div>
+          {session && !editing && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={startEditing}
+              className="text-primary-foreground hover:bg-white/10"
+            >
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        {error && (
+          <div className="bg-destructive/10 border border-destructive/40 rounded-xl p-3 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {session && !editing && (session.durationSeconds != null || session.perceivedEffort != null) && (
+          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+            {session.durationSeconds != null && (
+              <span className="flex items-center gap-1.5">
+                <Clock className="w-4 h-4" />
+                {formatSessionDuration(session.durationSeconds)}
+              </span>
+            )}
+            {session.perceivedEffort != null && <span>Effort {session.perceivedEffort}/10</span>}
+          </div>
+        )}
+
+        {exercises.map((exercise, exerciseIndex) => (
+          <motion.div
+            key={exercise.exerciseId}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: exerciseIndex * 0.05 }}
+            className="bg-card rounded-2xl p-6 border border-border"
+          >
+            <h3>{exercise.name}</h3>
+            {exercise.substitutedForName && (
+              <p className="text-xs text-muted-foreground">Swapped in for {exercise.substitutedForName}</p>
+            )}
+
+            <div className="space-y-2 mt-4">
+              <AnimatePresence>
+                {exercise.sets.map((set, setIndex) => (
+                  <motion.div
+                    key={set.id ?? `new-${setIndex}`}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="flex items-center gap-2"
+                  >
+                    <span className={`text-xs w-6 ${SET_TYPE_COLORS[getSetType(set)]}`}>
+                      {formatSetMarker(getSetType(set), setIndex + 1)}
+                    </span>
+                    {editing ? (
+                      <>
+                        {tracksReps(exercise.trackingMode) && (
+                          <Input
+                            type="number"
+                            value={set.reps}
+                            onChange={(e) => updateDraftSet(exerciseIndex, setIndex, 'reps', parseInt(e.target.value) || 0)}
+                            className="text-center h-8"
+                            aria-label="Reps"
+                          />
+                        )}
+                        {tracksWeight(exercise.trackingMode) && (
+                          <>
+                            <span className="text-muted-foreground">×</span>
+                            <Input
+                              type="number"
+                              value={toDisplayWeight(set.weight, weightUnit)}
+                              onChange={(e) =>
+                                updateDraftSet(
+                                  exerciseIndex,
+                                  setIndex,
+                                  'weight',
+                                  fromDisplayWeight(parseFloat(e.target.value) || 0, weightUnit)
+                                )
+                              }
+                              className="text-center h-8"
+                              aria-label={`Weight (${weightUnit})`}
+                            />
+                          </>
+                        )}
+                        {tracksDistance(exercise.trackingMode) && (
+                          <Input
+                            type="number"
+                            step={0.01}
+                            value={set.distanceMeters != null ? toDisplayDistance(set.distanceMeters, weightUnit) : ''}
+                            onChange={(e) =>
+                              updateDraftSet(
+                                exerciseIndex,
+                                setIndex,
+                                'distanceMeters',
+                                e.target.value === '' ? null : fromDisplayDistance(parseFloat(e.target.value) || 0, weightUnit)
+                              )
+                            }
+                            className="text-center h-8"
+                            aria-label={`Distance (${getDistanceUnit(weightUnit)})`}
+                          />
+                        )}
+                        {tracksTime(exercise.trackingMode) && (
+                          <SetDurationInput
+                            value={set.durationSeconds ?? null}
+                            onChange={(seconds) => updateDraftSet(exerciseIndex, setIndex, 'durationSeconds', seconds)}
+                            showStopwatch={false}
+                          />
+                        )}
+                        <Input
+                          type="number"
+                          step="0.5"
+                          value={set.rpe ?? ''}
+                          placeholder="RPE"
+                          onChange={(e) =>
+                            updateDraftSet(
+                              exerciseIndex,
+                              setIndex,
+                              'rpe',
+                              e.target.value === '' ? null : parseFloat(e.target.value)
+                            )
+                          }
+                          className="text-center h-8 w-20"
+                          aria-label="RPE"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeDraftSet(exerciseIndex, setIndex)}
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                        >
+                          ×
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        {tracksWeight(exercise.trackingMode) ? (
+                          <>
+                            <span className="text-lg">{set.reps}</span>
+                            <span className="text-xs text-muted-foreground">reps</span>
+                            <span className="text-muted-foreground">×</span>
+                            <span className="text-lg">{toDisplayWeight(set.weight, weightUnit)}</span>
+                            <span className="text-xs text-muted-foreground">{weightUnit}</span>
+                          </>
+                        ) : (
+                          <span className="text-lg">{formatSetPerformance(set, exercise.trackingMode, weightUnit)}</span>
+                        )}
+                        {set.isPersonalBest && <Trophy className="w-4 h-4 text-accent" />}
+                        {set.rpe != null && (
+                          <span className="text-xs text-muted-foreground ml-auto">RPE {set.rpe}</span>
+                        )}
+                      </>
+                    )}
+                  </motion.div>
+                ))}
+              </AnimatePresence>
+            </div>
+
+            {editing && (
+              <Button onClick={() => addDraftSet(exerciseIndex)} variant="outline" size="sm" className="w-full mt-3">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Set
+              </Button>
+            )}
+          </motion.div>
+        ))}
+
+        {!editing && session?.intervalBlocks && session.intervalBlocks.length > 0 && (
+          <div className="bg-card rounded-2xl p-6 border border-border">
+            <p className="text-xs text-muted-foreground mb-2">Finishers</p>
+            <div className="space-y-2">
+              {session.intervalBlocks.map((block) => (
+                <div key={block.id} className="flex items-baseline justify-between gap-3">
+                  <span>{block.name || INTERVAL_KIND_LABELS[block.kind]}</span>
+                  <span className="text-sm text-muted-foreground">
+                    {formatIntervalResult(block.kind, block)}
+                    {block.durationSeconds ? ` · ${formatSessionDuration(block.durationSeconds)}` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {session?.clientNotes && !editing && (
+          <div className="bg-card rounded-2xl p-6 border border-border">
+            <p className="text-xs text-muted-foreground mb-1">Notes</p>
+            <p className="text-sm whitespace-pre-wrap">{session.clientNotes}</p>
+          </div>
+        )}
+
+        {editing && (
+          <Button onClick={saveChanges} className="w-full" size="lg" disabled={saving}>
+            <Save className="w-5 h-5 mr-2" />
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        )}
+
+        {session && !editing && (
+          confirmDelete ? (
+            <div className="bg-destructive/10 border border-destructive/40 rounded-2xl p-4">
+              <p className="text-sm mb-3">
+                Delete this session? Streaks, weekly goal and personal bests will be recalculated.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <Button variant="outline" onClick={() => setConfirmDelete(false)} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button variant="destructive" onClick={deleteSession} disabled={saving}>
+                  {saving ? 'Deleting...' : 'Delete'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={() => setConfirmDelete(true)}
+              className="w-full text-destructive hover:text-destructive"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Session
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
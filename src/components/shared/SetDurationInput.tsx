@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Square } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { formatDuration, parseDuration } from '../../utils/tracking';
+
+interface SetDurationInputProps {
+  value: number | null;
+  onChange: (seconds: number | null) => void;
+  // Editing a past session has nothing to time.
+  showStopwatch?: boolean;
+}
+
+/**
+ * A time field with a stopwatch beside it. Elapsed time is measured from the
+ * wall clock, so a backgrounded tab still records the full hold.
+ */
+export function SetDurationInput({ value, onChange, showStopwatch = true }: SetDurationInputProps) {
+  const [draft, setDraft] = useState(value != null ? formatDuration(value) : '');
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setDraft(value != null ? formatDuration(value) : '');
+  }, [value]);
+
+  useEffect(() => {
+    if (startedAt == null) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  const commitDraft = () => {
+    const seconds = parseDuration(draft);
+    if (seconds == null && draft.trim()) {
+      setDraft(value != null ? formatDuration(value) : '');
+      return;
+    }
+    onChange(seconds);
+  };
+
+  const toggleStopwatch = () => {
+    if (startedAt == null) {
+      const startTime = Date.now();
+      setNow(startTime);
+      setStartedAt(startTime);
+      return;
+    }
+
+    onChange(Math.round((Date.now() - startedAt) / 1000));
+    setStartedAt(null);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="text"
+        inputMode="numeric"
+        value={startedAt != null ? formatDuration((now - startedAt) / 1000) : draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commitDraft}
+        placeholder="m:ss"
+        readOnly={startedAt != null}
+        className={`text-center h-8 ${startedAt != null ? 'text-accent' : ''}`}
+        aria-label="Time"
+      />
+      {showStopwatch && (
+        <Button
+          variant={startedAt != null ? 'default' : 'outline'}
+          size="sm"
+          onClick={toggleStopwatch}
+          className="h-8 w-8 p-0"
+          aria-label={startedAt != null ? 'Stop stopwatch' : 'Start stopwatch'}
+        >
+          {startedAt != null ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { ChevronRight, Clock, Dumbbell } from 'lucide-react';
+import { ChevronRight, Clock, Dumbbell, History, Trash2 } from 'lucide-react';
 import { motion } from 'motion/react';
 import { Button } from '../ui/button';
 
@@ -8,10 +8,20 @@ interface WorkoutCardProps {
   exercises: number;
   estimatedTime?: number;
   scheduled?: string;
+  resumeLabel?: string;
   onStart: () => void;
+  onDiscard?: () => void;
 }
 
-export function WorkoutCard({ title, exercises, estimatedTime, scheduled, onStart }: WorkoutCardProps) {
+export function WorkoutCard({
+  title,
+  exercises,
+  estimatedTime,
+  scheduled,
+  resumeLabel,
+  onStart,
+  onDiscard,
+}: WorkoutCardProps) {
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -44,9 +54,35 @@ export function WorkoutCard({ title, exercises, estimatedTime, scheduled, onStar
         )}
       </div>
 
-      <Button className="w-full mt-4">
-        Start Workout
-      </Button>
+      {resumeLabel ? (
+        <>
+          <div className="flex items-center gap-1.5 text-sm text-accent mt-4">
+            <History className="w-4 h-4" />
+            <span>In progress · {resumeLabel}</span>
+          </div>
+          <div className="flex gap-2 mt-3">
+            <Button className="flex-1">
+              Resume Workout
+            </Button>
+            {onDiscard && (
+              <Button
+                variant="outline"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDiscard();
+                }}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Discard
+              </Button>
+            )}
+          </div>
+        </>
+      ) : (
+        <Button className="w-full mt-4">
+          Start Workout
+        </Button>
+      )}
     </motion.div>
   );
 }
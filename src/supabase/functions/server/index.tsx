@@ -21,6 +21,29 @@ app.use("*", logger());
 
 type UserRole = "pt" | "client";
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// check_violation, not_null_violation, invalid_text_representation, numeric_value_out_of_range
+const INVALID_INPUT_ERROR_CODES = ["23514", "23502", "22P02", "22003"];
+// Raised by functions such as save_program when a row they were given isn't the caller's.
+const NOT_FOUND_ERROR_CODE = "P0002";
+// Mirrors the set_type check on routine_exercise_sets and session_log_sets.
+const SET_TYPES = ["working", "warmup", "drop", "amrap", "failure", "rest_pause"] as const;
+type SetType = (typeof SET_TYPES)[number];
+// Mirrors the tracking_mode check on exercises_catalog.
+const TRACKING_MODES = ["weight_reps", "reps", "time", "distance", "distance_time"] as const;
+type TrackingMode = (typeof TRACKING_MODES)[number];
+// Mirrors the kind check on routine_exercise_groups.
+const EXERCISE_GROUP_KINDS = ["superset", "giant_set", "circuit"] as const;
+type ExerciseGroupKind = (typeof EXERCISE_GROUP_KINDS)[number];
+// Mirrors the kind check on routine_interval_blocks and session_log_interval_blocks.
+const INTERVAL_KINDS = ["emom", "amrap", "tabata", "custom"] as const;
+type IntervalKind = (typeof INTERVAL_KINDS)[number];
+// Mirrors the content_source_type enum on pt_content_sources.
+const CONTENT_SOURCE_TYPES = ["youtube_video", "youtube_playlist", "youtube_channel", "article", "custom"] as const;
+type ContentSourceType = (typeof CONTENT_SOURCE_TYPES)[number];
+
+type IntervalStep = { label: string; seconds: number; phase: "work" | "rest" };
+
 type ProfileRow = {
   id: string;
   role: UserRole;
@@ -41,22 +64,83 @@ type RoutineSummary = {
   id: string;
   name: string;
   ptId: string;
-  clientId: string;
+  // Null for templates, which belong to the PT rather than a client.
+  clientId: string | null;
+  // The dates the routine runs between; for a program routine, the weeks of its phase.
+  startDate: string | null;
+  endDate: string | null;
+  programId: string | null;
+  programDay: number | null;
+  // The version saved last, which is what a client starting the routine now performs.
+  versionId: string | null;
+  // Archived routines are hidden from the client but kept with their sessions.
+  isActive: boolean;
+  groups: Array<{
+    id: string;
+    kind: ExerciseGroupKind;
+    rounds: number;
+    restSeconds: number | null;
+  }>;
+  intervalBlocks: Array<{
+    id: string;
+    kind: IntervalKind;
+    name: string | null;
+    notes: string | null;
+    rounds: number;
+    workSeconds: number | null;
+    restSeconds: number | null;
+    intervals: IntervalStep[];
+  }>;
   exercises: Array<{
     id: string;
+    groupId: string | null;
     exerciseId: string;
     name: string;
     notes: string | null;
+    equipmentRequired: string | null;
     defaultRestSeconds: number | null;
+    trackingMode: TrackingMode;
     sets: Array<{
       setNumber: number;
       reps: string;
+      // Resolved through the routine and catalog defaults; restSeconds is only what the set itself says.
       rest: string;
+      restSeconds: number | null;
       targetWeight: number | null;
+      targetDurationSeconds: number | null;
+      targetDistanceMeters: number | null;
+      setType: SetType;
+      tempo: string | null;
+      targetRir: number | null;
+      targetRpe: number | null;
+      percentOneRepMax: number | null;
+      // percentOneRepMax of the client's estimated max; null until they have one.
+      resolvedTargetWeight: number | null;
     }>;
   }>;
 };
 
+type ProgramWeek = {
+  weekNumber: number;
+  phaseName: string | null;
+  isDeload: boolean;
+  loadPercent: number;
+  setAdjustment: number;
+  repAdjustment: number;
+};
+
+type ProgramStatus = {
+  id: string;
+  name: string;
+  startDate: string;
+  weekCount: number;
+  // Where the client is today: the program week, and the next training day in it.
+  week: number;
+  day: number;
+  dayCount: number;
+  currentWeek: ProgramWeek;
+};
+
 type HealthLog = {
   id: string;
   client_id: string;
@@ -147,7 +231,7 @@ function startOfWeek(date: Date): Date {
 function formatSets(
   exercise: any,
   defaultRestSeconds: number | null,
-): Array<{ setNumber: number; reps: string; rest: string; targetWeight: number | null }> {
+): RoutineSummary["exercises"][number]["sets"] {
   const sets = Array.isArray(exercise.routine_exercise_sets)
     ? exercise.routine_exercise_sets
     : [];
@@ -164,7 +248,16 @@ function formatSets(
           setNumber: set.set_number,
           reps,
           rest: restSeconds != null ? String(restSeconds) : "",
+          restSeconds: set.target_rest_seconds ?? null,
           targetWeight: set.target_weight ?? exercise.prescribed_weight ?? null,
+          targetDurationSeconds: set.target_duration_seconds ?? null,
+          targetDistanceMeters: set.target_distance_meters != null ? Number(set.target_distance_meters) : null,
+          setType: parseSetType(set.set_type),
+          tempo: set.tempo ?? null,
+          targetRir: set.target_rir ?? null,
+          targetRpe: set.target_rpe != null ? Number(set.target_rpe) : null,
+          percentOneRepMax: set.percent_one_rep_max != null ? Number(set.percent_one_rep_max) : null,
+          resolvedTargetWeight: null,
         };
       });
   }
@@ -177,10 +270,80 @@ function formatSets(
     setNumber: index + 1,
     reps: fallbackReps,
     rest: restSeconds != null ? String(restSeconds) : "",
+    restSeconds: null,
     targetWeight: exercise.prescribed_weight ?? null,
+    targetDurationSeconds: null,
+    targetDistanceMeters: null,
+    setType: "working" as const,
+    tempo: null,
+    targetRir: null,
+    targetRpe: null,
+    percentOneRepMax: null,
+    resolvedTargetWeight: null,
   }));
 }
 
+function parseSetType(value: unknown): SetType {
+  return SET_TYPES.includes(value as SetType) ? (value as SetType) : "working";
+}
+
+function parseTrackingMode(value: unknown): TrackingMode {
+  return TRACKING_MODES.includes(value as TrackingMode) ? (value as TrackingMode) : "weight_reps";
+}
+
+// Accepts "3-1-1-0", "3110" or "31X0" and stores the dashed form.
+function parseTempo(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const compact = value.trim().toUpperCase().replace(/\s+/g, "");
+  const phases = compact.includes("-") ? compact.split("-") : compact.split("");
+  return phases.length === 4 && phases.every((phase) => /^([0-9]{1,2}|X)$/.test(phase)) ? phases.join("-") : null;
+}
+
+// Drops any step that isn't a positive length of work or rest.
+function parseIntervalSteps(value: unknown): IntervalStep[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map((step: any) => ({
+      label: typeof step?.label === "string" ? step.label.trim().slice(0, 30) : "",
+      seconds: Math.round(Number(step?.seconds)),
+      phase: step?.phase === "rest" ? "rest" as const : "work" as const,
+    }))
+    .filter((step) => Number.isFinite(step.seconds) && step.seconds > 0);
+}
+
+function parseBoundedNumber(value: unknown, min: number, max: number): number | null {
+  if (value == null || value === "") {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : null;
+}
+
+/**
+ * Time and distance exercises have no reps to fall back on, so each set must
+ * carry the measurement its exercise is tracked by. Returns what is missing.
+ */
+function describeMissingMeasurement(
+  set: { reps?: unknown; durationSeconds?: unknown; distanceMeters?: unknown },
+  trackingMode: TrackingMode,
+): string | null {
+  const hasPositive = (value: unknown) => value != null && Number(value) > 0;
+  if ((trackingMode === "time" || trackingMode === "distance_time") && !hasPositive(set.durationSeconds)) {
+    return "a time";
+  }
+  if ((trackingMode === "distance" || trackingMode === "distance_time") && !hasPositive(set.distanceMeters)) {
+    return "a distance";
+  }
+  if (trackingMode === "reps" && !hasPositive(set.reps)) {
+    return "reps";
+  }
+  return null;
+}
+
 function formatRepsFallback(min: number | null, max: number | null): string {
   if (min && max && min !== max) {
     return `${min}-${max}`;
@@ -324,73 +487,369 @@ async function fetchClientAssignment(clientId: string) {
   return data?.pt_id ?? null;
 }
 
-async function fetchClientRoutines(clientId: string): Promise<RoutineSummary[]> {
-  const { data, error } = await supabase
-    .from("routines")
-    .select(`
+const ROUTINE_SELECT = `
+  id,
+  pt_id,
+  client_id,
+  routine_name,
+  start_date,
+  end_date,
+  program_id,
+  program_day,
+  current_version_id,
+  is_active,
+  routine_exercise_groups (
+    id,
+    kind,
+    rounds,
+    rest_seconds
+  ),
+  routine_interval_blocks (
+    id,
+    position,
+    kind,
+    name,
+    notes,
+    rounds,
+    work_seconds,
+    rest_seconds,
+    intervals
+  ),
+  routine_exercises (
+    id,
+    exercise_id,
+    group_id,
+    position,
+    notes,
+    prescribed_sets,
+    prescribed_reps_min,
+    prescribed_reps_max,
+    prescribed_weight,
+    prescribed_rest_seconds,
+    exercise:exercises_catalog (
       id,
-      pt_id,
-      client_id,
-      routine_name,
-      routine_exercises (
-        id,
-        exercise_id,
-        position,
-        notes,
-        prescribed_sets,
-        prescribed_reps_min,
-        prescribed_reps_max,
-        prescribed_weight,
-        prescribed_rest_seconds,
-        exercise:exercises_catalog (
-          id,
-          name,
-          instruction_notes,
-          default_rest_seconds
-        ),
-        routine_exercise_sets (
-          set_number,
-          target_reps,
-          target_rep_range,
-          target_weight,
-          target_rest_seconds
-        )
-      )
-    `)
-    .eq("client_id", clientId)
-    .eq("is_active", true)
-    .order("created_at", { ascending: true });
+      name,
+      instruction_notes,
+      equipment_required,
+      default_rest_seconds,
+      tracking_mode
+    ),
+    routine_exercise_sets (
+      set_number,
+      target_reps,
+      target_rep_range,
+      target_weight,
+      target_rest_seconds,
+      target_duration_seconds,
+      target_distance_meters,
+      set_type,
+      tempo,
+      target_rir,
+      target_rpe,
+      percent_one_rep_max
+    )
+  )
+`;
+
+function mapRoutine(routine: any): RoutineSummary {
+  const exercises = (routine.routine_exercises || [])
+    .sort((a: any, b: any) => a.position - b.position)
+    .map((exercise: any) => {
+      const defaultRestSeconds = exercise.exercise?.default_rest_seconds ?? null;
+      return {
+        id: exercise.id,
+        groupId: exercise.group_id ?? null,
+        exerciseId: exercise.exercise_id,
+        name: exercise.exercise?.name ?? "Exercise",
+        notes: exercise.notes ?? exercise.exercise?.instruction_notes ?? null,
+        equipmentRequired: exercise.exercise?.equipment_required ?? null,
+        trackingMode: parseTrackingMode(exercise.exercise?.tracking_mode),
+        defaultRestSeconds,
+        sets: formatSets(exercise, defaultRestSeconds),
+      };
+    });
+
+  return {
+    id: routine.id,
+    name: routine.routine_name,
+    ptId: routine.pt_id,
+    clientId: routine.client_id,
+    startDate: routine.start_date ?? null,
+    endDate: routine.end_date ?? null,
+    programId: routine.program_id ?? null,
+    programDay: routine.program_day ?? null,
+    versionId: routine.current_version_id ?? null,
+    isActive: routine.is_active ?? true,
+    groups: (routine.routine_exercise_groups || []).map((group: any) => ({
+      id: group.id,
+      kind: group.kind,
+      rounds: group.rounds,
+      restSeconds: group.rest_seconds,
+    })),
+    intervalBlocks: (routine.routine_interval_blocks || [])
+      .sort((a: any, b: any) => a.position - b.position)
+      .map((block: any) => ({
+        id: block.id,
+        kind: block.kind,
+        name: block.name ?? null,
+        notes: block.notes ?? null,
+        rounds: block.rounds,
+        workSeconds: block.work_seconds ?? null,
+        restSeconds: block.rest_seconds ?? null,
+        intervals: parseIntervalSteps(block.intervals),
+      })),
+    exercises,
+  };
+}
+
+async function fetchClientRoutines(clientId: string, includeArchived = false): Promise<RoutineSummary[]> {
+  let query = supabase
+    .from("routines")
+    .select(ROUTINE_SELECT)
+    .eq("client_id", clientId);
+
+  if (!includeArchived) {
+    query = query.eq("is_active", true);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: true });
 
   if (error) {
     console.error("Error fetching routines", error);
     throw new Error("Failed to fetch routines");
   }
 
-  return (data || []).map((routine: any) => {
-    const exercises = (routine.routine_exercises || [])
-      .sort((a: any, b: any) => a.position - b.position)
-      .map((exercise: any) => {
-        const defaultRestSeconds = exercise.exercise?.default_rest_seconds ?? null;
-        return {
-          id: exercise.id,
-          exerciseId: exercise.exercise_id,
-          name: exercise.exercise?.name ?? "Exercise",
-          notes: exercise.notes ?? exercise.exercise?.instruction_notes ?? null,
-          defaultRestSeconds,
-          sets: formatSets(exercise, defaultRestSeconds),
-        };
+  const routines = (data || []).map(mapRoutine);
+  await resolveOneRepMaxTargets(clientId, routines);
+  return routines;
+}
+
+async function fetchPtTemplates(ptId: string): Promise<RoutineSummary[]> {
+  const { data, error } = await supabase
+    .from("routines")
+    .select(ROUTINE_SELECT)
+    .eq("pt_id", ptId)
+    .eq("is_template", true)
+    .order("routine_name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching routine templates", error);
+    throw new Error("Failed to fetch routine templates");
+  }
+
+  return (data || []).map(mapRoutine);
+}
+
+/**
+ * Turns %1RM targets into weights from the client's estimated max, which is
+ * kept up to date in personal_bests. Without an estimate the set keeps only
+ * its percentage (and any fixed target weight the PT entered).
+ */
+async function resolveOneRepMaxTargets(clientId: string, routines: RoutineSummary[]) {
+  const exerciseIds = Array.from(
+    new Set(
+      routines.flatMap((routine) =>
+        routine.exercises
+          .filter((exercise) => exercise.sets.some((set) => set.percentOneRepMax != null))
+          .map((exercise) => exercise.exerciseId),
+      ),
+    ),
+  );
+  if (!exerciseIds.length) {
+    return;
+  }
+
+  const { data, error } = await supabase
+    .from("personal_bests")
+    .select("exercise_id, metric_value")
+    .eq("client_id", clientId)
+    .eq("metric", "estimated_1rm")
+    .in("exercise_id", exerciseIds);
+
+  if (error) {
+    console.error("Estimated max lookup error", error);
+    return;
+  }
+
+  const estimatedMaxes = new Map<string, number>(
+    (data || []).map((row: any) => [row.exercise_id, Number(row.metric_value)]),
+  );
+
+  routines.forEach((routine) => {
+    routine.exercises.forEach((exercise) => {
+      const estimatedMax = estimatedMaxes.get(exercise.exerciseId);
+      if (!estimatedMax) {
+        return;
+      }
+      exercise.sets.forEach((set) => {
+        if (set.percentOneRepMax != null) {
+          // Half-pound steps; the client rounds again to its own unit for display.
+          set.resolvedTargetWeight = Math.round(((estimatedMax * set.percentOneRepMax) / 100) * 2) / 2;
+        }
       });
+    });
+  });
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Calendar dates (YYYY-MM-DD) are compared as UTC days, like the weekly goal.
+function toDateString(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number) {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+}
+
+function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+function isRoutineScheduled(routine: RoutineSummary, today: string) {
+  return (!routine.startDate || routine.startDate <= today) && (!routine.endDate || routine.endDate >= today);
+}
+
+function mapProgramWeek(row: any): ProgramWeek {
+  return {
+    weekNumber: row.week_number,
+    phaseName: row.phase_name ?? null,
+    isDeload: Boolean(row.is_deload),
+    loadPercent: Number(row.load_percent),
+    setAdjustment: row.set_adjustment ?? 0,
+    repAdjustment: row.rep_adjustment ?? 0,
+  };
+}
+
+/**
+ * The client's program running today, if any. The day is the next one to
+ * train: one past the number of program workouts already logged this week.
+ */
+async function fetchProgramStatus(
+  clientId: string,
+  routines: RoutineSummary[],
+  sessionLogs: Array<{ routine_id: string | null; performed_at: string }>,
+  today: string,
+): Promise<ProgramStatus | null> {
+  const { data, error } = await supabase
+    .from("programs")
+    .select("id, name, start_date, program_weeks (week_number, phase_name, is_deload, load_percent, set_adjustment, rep_adjustment)")
+    .eq("client_id", clientId)
+    .lte("start_date", today)
+    .order("start_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching program", error);
+    return null;
+  }
+  if (!data) {
+    return null;
+  }
+
+  const weeks: ProgramWeek[] = (data.program_weeks || [])
+    .map(mapProgramWeek)
+    .sort((a: ProgramWeek, b: ProgramWeek) => a.weekNumber - b.weekNumber);
+  const week = Math.floor(daysBetween(data.start_date, today) / 7) + 1;
+  const currentWeek = weeks.find((entry) => entry.weekNumber === week);
+  if (!currentWeek) {
+    return null;
+  }
+
+  const programRoutines = routines.filter(
+    (routine) => routine.programId === data.id && isRoutineScheduled(routine, today),
+  );
+  const dayCount = Math.max(0, ...programRoutines.map((routine) => routine.programDay ?? 0));
+  const programRoutineIds = new Set(programRoutines.map((routine) => routine.id));
+  const weekStart = addDays(data.start_date, (week - 1) * 7);
+  const completedThisWeek = sessionLogs.filter(
+    (log) => log.routine_id && programRoutineIds.has(log.routine_id) && log.performed_at.slice(0, 10) >= weekStart,
+  ).length;
+
+  return {
+    id: data.id,
+    name: data.name,
+    startDate: data.start_date,
+    weekCount: weeks.length,
+    week,
+    day: Math.min(completedThisWeek + 1, Math.max(dayCount, 1)),
+    dayCount,
+    currentWeek,
+  };
+}
+
+// Rep ranges shift as a whole ("8-10" becomes "9-11"); reps with no number are left alone.
+function shiftReps(reps: string, by: number) {
+  return by ? reps.replace(/\d+/g, (value) => String(Math.max(1, Number(value) + by))) : reps;
+}
+
+function applyProgramWeekToSets(sets: RoutineSummary["exercises"][number]["sets"], week: ProgramWeek) {
+  let adjusted = [...sets];
+  const workingSets = sets.filter((set) => set.setType !== "warmup");
+
+  if (week.setAdjustment > 0 && workingSets.length) {
+    const lastSet = workingSets[workingSets.length - 1];
+    adjusted = [...adjusted, ...Array.from({ length: week.setAdjustment }, () => ({ ...lastSet }))];
+  } else if (week.setAdjustment < 0) {
+    // Sets come off the end, but at least one working set always stays.
+    let toRemove = Math.min(-week.setAdjustment, workingSets.length - 1);
+    for (let index = adjusted.length - 1; index >= 0 && toRemove > 0; index -= 1) {
+      if (adjusted[index].setType !== "warmup") {
+        adjusted.splice(index, 1);
+        toRemove -= 1;
+      }
+    }
+  }
 
+  return adjusted.map((set, index) => {
+    if (set.setType === "warmup") {
+      return { ...set, setNumber: index + 1 };
+    }
+    const baseWeight = set.resolvedTargetWeight ?? set.targetWeight;
     return {
-      id: routine.id,
-      name: routine.routine_name,
-      ptId: routine.pt_id,
-      clientId: routine.client_id,
-      exercises,
+      ...set,
+      setNumber: index + 1,
+      reps: shiftReps(set.reps, week.repAdjustment),
+      resolvedTargetWeight:
+        baseWeight != null && week.loadPercent !== 100
+          ? Math.round(((baseWeight * week.loadPercent) / 100) * 2) / 2
+          : set.resolvedTargetWeight,
     };
   });
 }
 
+/**
+ * Applies this week's progression to the program's routines, for the client
+ * to train from. Like %1RM weights, scaled loads go in resolvedTargetWeight
+ * so the PT's own prescription is never overwritten.
+ */
+function applyProgramWeek(routines: RoutineSummary[], program: ProgramStatus | null): RoutineSummary[] {
+  if (!program) {
+    return routines;
+  }
+
+  const week = program.currentWeek;
+  return routines.map((routine) =>
+    routine.programId === program.id
+      ? {
+          ...routine,
+          // Grouped exercises do one set per round, so rounds follow the set change.
+          groups: routine.groups.map((group) => ({
+            ...group,
+            rounds: Math.max(1, group.rounds + week.setAdjustment),
+          })),
+          exercises: routine.exercises.map((exercise) => ({
+            ...exercise,
+            sets: applyProgramWeekToSets(exercise.sets, week),
+          })),
+        }
+      : routine,
+  );
+}
+
 async function fetchClientSessions(clientId: string) {
   const { data, error } = await supabase
     .from("session_logs")
@@ -489,82 +948,240 @@ function computeWeeklyGoal(
   };
 }
 
-async function fetchClientDashboard(profile: ProfileRow): Promise<{
+async function fetchClientDashboard(profile: ProfileRow, audience: UserRole = "client"): Promise<{
   routines: RoutineSummary[];
+  program: ProgramStatus | null;
   streak: StreakStats;
   weeklyGoal: WeeklyGoalStats;
 }> {
+  // PTs also see archived routines so they can bring them back.
   const [routines, sessions] = await Promise.all([
-    fetchClientRoutines(profile.id),
+    fetchClientRoutines(profile.id, audience === "pt"),
     fetchClientSessions(profile.id),
   ]);
 
+  const today = toDateString(new Date());
+  const activeRoutines = routines.filter((routine) => routine.isActive);
+  const scheduledRoutines = activeRoutines.filter((routine) => isRoutineScheduled(routine, today));
+  const program = await fetchProgramStatus(profile.id, activeRoutines, sessions, today);
   const streak = computeStreakStats(sessions);
-  const weeklyGoal = computeWeeklyGoal(profile, sessions, routines.length);
+  const weeklyGoal = computeWeeklyGoal(profile, sessions, scheduledRoutines.length);
 
-  return { routines, streak, weeklyGoal };
+  // PTs edit routines as written, later phases included; clients train from this week's version.
+  return {
+    routines: audience === "pt" ? routines : applyProgramWeek(scheduledRoutines, program),
+    program,
+    streak,
+    weeklyGoal,
+  };
 }
 
-async function fetchRoutineDetail(routineId: string, clientId: string): Promise<RoutineSummary | null> {
-  const routines = await fetchClientRoutines(clientId);
+async function fetchRoutineDetail(
+  routineId: string,
+  clientId: string,
+  includeArchived = false,
+): Promise<RoutineSummary | null> {
+  const routines = await fetchClientRoutines(clientId, includeArchived);
   return routines.find((routine) => routine.id === routineId) ?? null;
 }
 
-async function fetchLastWorkout(clientId: string, routineId: string, routine: RoutineSummary) {
+/**
+ * Returns the client's most recent sessions containing the exercise, across
+ * every routine and quick workout, newest first. Only working sets are included.
+ */
+async function fetchExerciseHistory(clientId: string, exerciseId: string, limit: number) {
   const { data, error } = await supabase
     .from("session_logs")
     .select(`
       id,
+      routine_id,
       performed_at,
-      session_log_sets (
+      routine:routines (
+        routine_name
+      ),
+      session_log_sets!inner (
         exercise_id,
         set_number,
         logged_weight,
         logged_reps,
         logged_rpe,
-        actual_rest_seconds
+        actual_rest_seconds,
+        completed_at,
+        set_type,
+        logged_duration_seconds,
+        logged_distance_meters
       )
     `)
     .eq("client_id", clientId)
-    .eq("routine_id", routineId)
+    .eq("session_log_sets.exercise_id", exerciseId)
+    .neq("session_log_sets.set_type", "warmup")
     .order("performed_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
+    .limit(limit);
 
   if (error) {
-    console.error("Error fetching last workout", error);
-    return null;
-  }
-
-  if (!data) {
-    return null;
+    console.error("Error fetching exercise history", error);
+    throw new Error("Failed to fetch exercise history");
   }
 
-  const exercises = routine.exercises.map((exercise) => {
-    const sets = (data.session_log_sets || [])
-      .filter((set: any) => set.exercise_id === exercise.exerciseId)
+  return (data || []).map((row: any) => ({
+    sessionLogId: row.id,
+    performedAt: row.performed_at,
+    routineName: row.routine?.routine_name ?? (row.routine_id ? "Deleted routine" : "Quick workout"),
+    sets: (row.session_log_sets || [])
       .sort((a: any, b: any) => a.set_number - b.set_number)
       .map((set: any) => ({
         setNumber: set.set_number,
         reps: set.logged_reps ?? 0,
         weight: Number(set.logged_weight ?? 0),
-        rpe: set.logged_rpe,
+        rpe: set.logged_rpe != null ? Number(set.logged_rpe) : null,
         rest: set.actual_rest_seconds,
-      }));
+        completedAt: set.completed_at,
+        setType: parseSetType(set.set_type),
+        durationSeconds: set.logged_duration_seconds,
+        distanceMeters: set.logged_distance_meters != null ? Number(set.logged_distance_meters) : null,
+      })),
+  }));
+}
 
-    return {
-      exerciseId: exercise.exerciseId,
-      sets,
-    };
-  });
+const PROGRESSION_STRATEGIES = ["double_progression", "fixed_increment", "none"] as const;
+
+type ProgressionSettings = {
+  strategy: (typeof PROGRESSION_STRATEGIES)[number];
+  weightIncrement: number;
+  maxRpe: number;
+};
+
+const DEFAULT_PROGRESSION_SETTINGS: ProgressionSettings = {
+  strategy: "double_progression",
+  weightIncrement: 5,
+  maxRpe: 9,
+};
+
+function parseRepRange(reps: string): { min: number; max: number } | null {
+  const match = reps.match(/^\s*(\d+)\s*(?:-\s*(\d+))?\s*$/);
+  if (!match) {
+    return null;
+  }
+  const min = Number(match[1]);
+  const max = match[2] ? Number(match[2]) : min;
+  return { min: Math.min(min, max), max: Math.max(min, max) };
+}
+
+async function fetchProgressionSettings(ptId: string): Promise<ProgressionSettings> {
+  const { data, error } = await supabase
+    .from("pt_progression_settings")
+    .select("strategy, weight_increment, max_rpe")
+    .eq("pt_id", ptId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching progression settings", error);
+    throw new Error("Failed to fetch progression settings");
+  }
+
+  if (!data) {
+    return { ...DEFAULT_PROGRESSION_SETTINGS };
+  }
 
   return {
-    id: data.id,
-    performedAt: data.performed_at,
-    exercises,
+    strategy: data.strategy,
+    weightIncrement: Number(data.weight_increment),
+    maxRpe: Number(data.max_rpe),
   };
 }
 
+/**
+ * Suggests next-session targets for each routine exercise from the client's
+ * last performance of it. Double progression adds reps within the prescribed
+ * range before adding weight; fixed increment adds weight whenever every set
+ * hit its prescription. A set logged above the PT's RPE ceiling holds the load.
+ */
+async function computeProgressionSuggestions(routine: RoutineSummary, clientId: string) {
+  const settings = await fetchProgressionSettings(routine.ptId);
+  if (settings.strategy === "none") {
+    return [];
+  }
+
+  const suggestions = await Promise.all(
+    routine.exercises.map(async (exercise) => {
+      // Weight and rep targets mean nothing for timed or distance work.
+      if (exercise.trackingMode !== "weight_reps") {
+        return null;
+      }
+
+      // History already leaves warm-ups out, so only the prescribed hard sets are paired with it.
+      const prescribedSets = exercise.sets.filter((set) => set.setType !== "warmup");
+      const [lastPerformance] = await fetchExerciseHistory(clientId, exercise.exerciseId, 1);
+      if (!lastPerformance || lastPerformance.sets.length === 0 || prescribedSets.length === 0) {
+        return null;
+      }
+
+      const pairs = prescribedSets.map((prescribed, index) => ({
+        prescribed,
+        range: parseRepRange(prescribed.reps),
+        logged: lastPerformance.sets[index] ?? lastPerformance.sets[lastPerformance.sets.length - 1],
+      }));
+
+      if (pairs.some((pair) => !pair.range)) {
+        return null;
+      }
+
+      const withinEffort = lastPerformance.sets.every((set) => set.rpe == null || set.rpe <= settings.maxRpe);
+      const coveredAllSets = lastPerformance.sets.length >= prescribedSets.length;
+      const hitTop = coveredAllSets && pairs.every((pair) => pair.logged.reps >= pair.range!.max);
+      const hitBottom = coveredAllSets && pairs.every((pair) => pair.logged.reps >= pair.range!.min);
+      const increaseWeight = withinEffort && (settings.strategy === "double_progression" ? hitTop : hitBottom);
+
+      const sets = pairs.map(({ prescribed, range, logged }) => {
+        if (increaseWeight) {
+          return {
+            setNumber: prescribed.setNumber,
+            weight: logged.weight + settings.weightIncrement,
+            reps: range!.min,
+          };
+        }
+        const reps = settings.strategy === "double_progression" && withinEffort
+          ? Math.min(Math.max(logged.reps + 1, range!.min), range!.max)
+          : Math.max(logged.reps, range!.min);
+        return {
+          setNumber: prescribed.setNumber,
+          weight: logged.weight,
+          reps,
+        };
+      });
+
+      let action: "increase_weight" | "increase_reps" | "hold";
+      let reason: string;
+      if (increaseWeight) {
+        action = "increase_weight";
+        reason = settings.strategy === "double_progression"
+          ? "Top of the rep range last time"
+          : "Hit every prescribed set last time";
+      } else if (!withinEffort) {
+        action = "hold";
+        reason = `Last session went above RPE ${settings.maxRpe}`;
+      } else if (settings.strategy === "double_progression") {
+        action = "increase_reps";
+        reason = "Build reps before adding weight";
+      } else {
+        action = "hold";
+        reason = "Match the prescription before adding weight";
+      }
+
+      return {
+        routineExerciseId: exercise.id,
+        exerciseId: exercise.exerciseId,
+        action,
+        reason,
+        basedOn: lastPerformance.sessionLogId,
+        sets,
+      };
+    }),
+  );
+
+  return suggestions.filter(Boolean);
+}
+
 async function createNotification(params: {
   userId: string;
   type: string;
@@ -587,53 +1204,361 @@ async function createNotification(params: {
   }
 }
 
-app.post("/make-server-d58ce8ef/auth/signup", async (c) => {
-  try {
-    const { email, password, name, role } = await c.req.json();
+const PB_METRIC_LABELS: Record<string, string> = {
+  heaviest_weight: "Heaviest weight",
+  estimated_1rm: "Estimated 1RM",
+  set_tonnage: "Best set tonnage",
+};
+const REPS_AT_WEIGHT_METRIC_PREFIX = "reps_at_weight:";
+
+// Weights are stored in pounds; profiles.prefers_metric_units only changes how they are shown.
+const LB_PER_KG = 2.2046226218;
+
+type PersonalBestRecord = {
+  exerciseId: string;
+  metric: string;
+  value: number;
+  setId: string;
+  sessionLogId: string;
+  achievedAt: string;
+};
 
-    if (!email || !password || !name || !role) {
-      return c.json({ error: "Missing required fields" }, 400);
-    }
+function formatStoredWeight(pounds: number, prefersMetricUnits: boolean | null) {
+  if (prefersMetricUnits) {
+    return `${Math.round((pounds / LB_PER_KG) * 4) / 4} kg`;
+  }
+  return `${Math.round(pounds * 2) / 2} lb`;
+}
 
-    if (role !== "pt" && role !== "client") {
-      return c.json({ error: "Invalid role" }, 400);
-    }
+function describePersonalBestMetric(metric: string, prefersMetricUnits: boolean | null) {
+  if (metric.startsWith(REPS_AT_WEIGHT_METRIC_PREFIX)) {
+    const weight = Number(metric.slice(REPS_AT_WEIGHT_METRIC_PREFIX.length));
+    return `Most reps at ${formatStoredWeight(weight, prefersMetricUnits)}`;
+  }
+  return PB_METRIC_LABELS[metric] ?? metric;
+}
 
-    const loweredEmail = String(email).toLowerCase();
-    const nameParts = splitNameInput(String(name));
+/**
+ * Rebuilds personal_bests for the given exercises and re-flags the client's
+ * sets (see recompute_personal_bests). The whole replay runs in the database
+ * as one transaction, so history is never truncated by the row limit and a
+ * failure leaves the previous records in place.
+ */
+async function recomputePersonalBests(clientId: string, exerciseIds: string[]) {
+  const uniqueExerciseIds = Array.from(new Set(exerciseIds));
+  if (!uniqueExerciseIds.length) {
+    return { records: [] as PersonalBestRecord[], flaggedSetIds: new Set<string>() };
+  }
 
-    const { data, error } = await supabase.auth.admin.createUser({
-      email: loweredEmail,
-      password,
-      user_metadata: { name: nameParts.fullName, role },
-      email_confirm: true,
-    });
+  const { data, error } = await supabase.rpc("recompute_personal_bests", {
+    p_client_id: clientId,
+    p_exercise_ids: uniqueExerciseIds,
+  });
 
-    if (error || !data.user) {
-      console.error("Signup error", error);
-      return c.json({ error: error?.message ?? "Failed to create user" }, 400);
-    }
+  if (error) {
+    console.error("Recompute personal bests error", error);
+    throw new Error("Failed to update personal bests");
+  }
 
-    const insertProfile = await supabase.from("profiles").insert({
-      id: data.user.id,
-      role,
-      full_name: nameParts.fullName,
-      first_name: nameParts.firstName,
-      last_name: nameParts.lastName,
-      email: loweredEmail,
-      training_frequency_goal: role === "client" ? 3 : null,
-    });
+  const rows = data || [];
+  const records: PersonalBestRecord[] = rows.map((row: any) => ({
+    exerciseId: row.record_exercise_id,
+    metric: row.record_metric,
+    value: Number(row.record_value),
+    setId: row.record_set_id,
+    sessionLogId: row.record_session_log_id,
+    achievedAt: row.record_achieved_at,
+  }));
+  const flaggedSetIds = new Set<string>(
+    rows.filter((row: any) => row.set_flagged).map((row: any) => row.record_set_id),
+  );
 
-    if (insertProfile.error) {
-      console.error("Profile insert error", insertProfile.error);
-      return c.json({ error: "Failed to create profile" }, 400);
-    }
+  return { records, flaggedSetIds };
+}
 
-    return c.json({
-      user: {
-        id: data.user.id,
-        email: loweredEmail,
-        role,
+async function fetchPersonalBests(clientId: string, prefersMetricUnits: boolean | null) {
+  const { data, error } = await supabase
+    .from("personal_bests")
+    .select(`
+      id,
+      exercise_id,
+      metric,
+      metric_value,
+      achieved_at,
+      exercise:exercises_catalog (
+        name
+      ),
+      session_log_set:session_log_sets (
+        session_log_id,
+        logged_weight,
+        logged_reps
+      )
+    `)
+    .eq("client_id", clientId)
+    .order("achieved_at", { ascending: false });
+
+  if (error) {
+    console.error("Fetch personal bests error", error);
+    throw new Error("Failed to fetch personal bests");
+  }
+
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    exerciseId: row.exercise_id,
+    exerciseName: row.exercise?.name ?? "Exercise",
+    metric: row.metric,
+    label: describePersonalBestMetric(row.metric, prefersMetricUnits),
+    value: Number(row.metric_value),
+    weight: row.session_log_set?.logged_weight != null ? Number(row.session_log_set.logged_weight) : null,
+    reps: row.session_log_set?.logged_reps ?? null,
+    sessionLogId: row.session_log_set?.session_log_id ?? null,
+    achievedAt: row.achieved_at,
+  }));
+}
+
+async function fetchClientStats(clientId: string) {
+  const [{ data: clientProfile, error: profileError }, sessions, routines] = await Promise.all([
+    supabase.from("profiles").select("*").eq("id", clientId).maybeSingle(),
+    fetchClientSessions(clientId),
+    fetchClientRoutines(clientId),
+  ]);
+
+  if (profileError || !clientProfile) {
+    console.error("Client profile lookup error", profileError);
+    throw new Error("Failed to load client profile");
+  }
+
+  return {
+    streak: computeStreakStats(sessions),
+    weeklyGoal: computeWeeklyGoal(
+      clientProfile as ProfileRow,
+      sessions,
+      routines.filter((routine) => isRoutineScheduled(routine, toDateString(new Date()))).length,
+    ),
+  };
+}
+
+/**
+ * Loads a logged session the caller may manage: clients their own sessions,
+ * PTs the sessions of their active clients.
+ */
+async function resolveSessionLogAccess(profile: ProfileRow, sessionLogId: string) {
+  if (!UUID_PATTERN.test(sessionLogId)) {
+    return { error: { status: 404, message: "Session not found" } };
+  }
+
+  const { data: session, error } = await supabase
+    .from("session_logs")
+    .select("id, client_id")
+    .eq("id", sessionLogId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Session log lookup error", error);
+    return { error: { status: 500, message: "Failed to load session" } };
+  }
+
+  if (!session) {
+    return { error: { status: 404, message: "Session not found" } };
+  }
+
+  if (profile.role === "client" && session.client_id !== profile.id) {
+    return { error: { status: 404, message: "Session not found" } };
+  }
+
+  if (profile.role === "pt") {
+    const { data: assignment, error: assignmentError } = await supabase
+      .from("pt_clients")
+      .select("client_id")
+      .eq("pt_id", profile.id)
+      .eq("client_id", session.client_id)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (assignmentError || !assignment) {
+      return { error: { status: 404, message: "Session not found" } };
+    }
+  }
+
+  return { clientId: session.client_id as string };
+}
+
+async function fetchSessionLogDetail(sessionLogId: string) {
+  const { data, error } = await supabase
+    .from("session_logs")
+    .select(`
+      id,
+      client_id,
+      routine_id,
+      performed_at,
+      duration_seconds,
+      client_notes,
+      perceived_effort,
+      routine_version_id,
+      routine:routines (
+        routine_name
+      ),
+      routine_version:routine_versions (
+        version_number
+      ),
+      session_log_interval_blocks (
+        id,
+        kind,
+        name,
+        rounds_completed,
+        extra_reps,
+        duration_seconds
+      ),
+      session_log_sets (
+        id,
+        exercise_id,
+        substituted_for_exercise_id,
+        set_number,
+        logged_weight,
+        logged_reps,
+        logged_rpe,
+        actual_rest_seconds,
+        completed_at,
+        is_personal_best,
+        set_type,
+        logged_duration_seconds,
+        logged_distance_meters,
+        exercise:exercises_catalog!exercise_id (
+          name,
+          tracking_mode
+        ),
+        substituted_for:exercises_catalog!substituted_for_exercise_id (
+          name
+        )
+      )
+    `)
+    .eq("id", sessionLogId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Session log detail error", error);
+    throw new Error("Failed to load session");
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const sets = (data.session_log_sets || []).sort((a: any, b: any) => {
+    const byCompletion = (a.completed_at ?? "").localeCompare(b.completed_at ?? "");
+    return byCompletion !== 0 ? byCompletion : a.set_number - b.set_number;
+  });
+
+  // Exercises are listed in the order their first set was performed.
+  const exercises: Array<{
+    exerciseId: string;
+    name: string;
+    substitutedForExerciseId: string | null;
+    substitutedForName: string | null;
+    trackingMode: TrackingMode;
+    sets: any[];
+  }> = [];
+  sets.forEach((set: any) => {
+    let exercise = exercises.find((entry) => entry.exerciseId === set.exercise_id);
+    if (!exercise) {
+      exercise = {
+        exerciseId: set.exercise_id,
+        name: set.exercise?.name ?? "Exercise",
+        substitutedForExerciseId: set.substituted_for_exercise_id ?? null,
+        substitutedForName: set.substituted_for?.name ?? null,
+        trackingMode: parseTrackingMode(set.exercise?.tracking_mode),
+        sets: [],
+      };
+      exercises.push(exercise);
+    }
+
+    exercise.sets.push({
+      id: set.id,
+      setNumber: set.set_number,
+      reps: set.logged_reps ?? 0,
+      weight: Number(set.logged_weight ?? 0),
+      rpe: set.logged_rpe != null ? Number(set.logged_rpe) : null,
+      rest: set.actual_rest_seconds,
+      completedAt: set.completed_at,
+      isPersonalBest: Boolean(set.is_personal_best),
+      setType: parseSetType(set.set_type),
+      durationSeconds: set.logged_duration_seconds,
+      distanceMeters: set.logged_distance_meters != null ? Number(set.logged_distance_meters) : null,
+    });
+  });
+
+  exercises.forEach((exercise) => exercise.sets.sort((a, b) => a.setNumber - b.setNumber));
+
+  return {
+    id: data.id,
+    clientId: data.client_id,
+    routineId: data.routine_id,
+    routineName: data.routine?.routine_name ?? (data.routine_id ? "Deleted routine" : "Quick workout"),
+    routineVersionId: data.routine_version_id ?? null,
+    routineVersionNumber: data.routine_version?.version_number ?? null,
+    performedAt: data.performed_at,
+    durationSeconds: data.duration_seconds,
+    clientNotes: data.client_notes,
+    perceivedEffort: data.perceived_effort != null ? Number(data.perceived_effort) : null,
+    exercises,
+    intervalBlocks: (data.session_log_interval_blocks || []).map((block: any) => ({
+      id: block.id,
+      kind: block.kind,
+      name: block.name,
+      roundsCompleted: block.rounds_completed,
+      extraReps: block.extra_reps,
+      durationSeconds: block.duration_seconds,
+    })),
+  };
+}
+
+app.post("/make-server-d58ce8ef/auth/signup", async (c) => {
+  try {
+    const { email, password, name, role } = await c.req.json();
+
+    if (!email || !password || !name || !role) {
+      return c.json({ error: "Missing required fields" }, 400);
+    }
+
+    if (role !== "pt" && role !== "client") {
+      return c.json({ error: "Invalid role" }, 400);
+    }
+
+    const loweredEmail = String(email).toLowerCase();
+    const nameParts = splitNameInput(String(name));
+
+    const { data, error } = await supabase.auth.admin.createUser({
+      email: loweredEmail,
+      password,
+      user_metadata: { name: nameParts.fullName, role },
+      email_confirm: true,
+    });
+
+    if (error || !data.user) {
+      console.error("Signup error", error);
+      return c.json({ error: error?.message ?? "Failed to create user" }, 400);
+    }
+
+    const insertProfile = await supabase.from("profiles").insert({
+      id: data.user.id,
+      role,
+      full_name: nameParts.fullName,
+      first_name: nameParts.firstName,
+      last_name: nameParts.lastName,
+      email: loweredEmail,
+      training_frequency_goal: role === "client" ? 3 : null,
+    });
+
+    if (insertProfile.error) {
+      console.error("Profile insert error", insertProfile.error);
+      return c.json({ error: "Failed to create profile" }, 400);
+    }
+
+    return c.json({
+      user: {
+        id: data.user.id,
+        email: loweredEmail,
+        role,
         name: nameParts.fullName,
         firstName: nameParts.firstName,
         lastName: nameParts.lastName,
@@ -680,8 +1605,7 @@ app.get("/make-server-d58ce8ef/client/dashboard", async (c) => {
   }
 });
 
-app.get("/make-server-d58ce8ef/client/session/:routineId", async (c) => {
-  const routineId = c.req.param("routineId");
+app.patch("/make-server-d58ce8ef/client/profile", async (c) => {
   const context = await extractAuthContext(c);
   if (context.error) {
     return c.json({ error: context.error.message }, context.error.status);
@@ -693,20 +1617,90 @@ app.get("/make-server-d58ce8ef/client/session/:routineId", async (c) => {
   }
 
   try {
-    const routine = await fetchRoutineDetail(routineId, profile.id);
-    if (!routine) {
-      return c.json({ error: "Routine not found" }, 404);
+    const body = await c.req.json();
+    if (typeof body.prefersMetricUnits !== "boolean") {
+      return c.json({ error: "prefersMetricUnits must be true or false" }, 400);
     }
 
-    const lastWorkout = await fetchLastWorkout(profile.id, routineId, routine);
-    return c.json({ routine, lastWorkout });
+    const { data: updatedProfile, error } = await supabase
+      .from("profiles")
+      .update({ prefers_metric_units: body.prefersMetricUnits })
+      .eq("id", profile.id)
+      .select("prefers_metric_units")
+      .single();
+
+    if (error || !updatedProfile) {
+      console.error("Update client profile error", error);
+      return c.json({ error: "Failed to update profile" }, 500);
+    }
+
+    return c.json({ prefersMetricUnits: Boolean(updatedProfile.prefers_metric_units) });
   } catch (error) {
-    console.error("Session lookup error", error);
-    return c.json({ error: "Failed to load session" }, 500);
+    console.error("Client profile update exception", error);
+    return c.json({ error: "Failed to update profile" }, 500);
   }
 });
 
-app.post("/make-server-d58ce8ef/client/log-workout", async (c) => {
+function mapGymSetup(row: any) {
+  return {
+    id: row.id,
+    name: row.name,
+    unit: row.unit,
+    barWeight: Number(row.bar_weight),
+    plates: (row.plates || []).map(Number).sort((a: number, b: number) => b - a),
+    isDefault: Boolean(row.is_default),
+  };
+}
+
+function parseGymSetupInput(body: any) {
+  const name = typeof body.name === "string" ? normalizeSpaces(body.name) : "";
+  const unit = body.unit;
+  const barWeight = Number(body.barWeight);
+  const plates = Array.isArray(body.plates) ? body.plates.map(Number) : [];
+
+  if (!name || name.length > 60) {
+    return { error: "Give the gym a name of up to 60 characters." };
+  }
+  if (unit !== "kg" && unit !== "lb") {
+    return { error: "Unit must be kg or lb." };
+  }
+  if (!Number.isFinite(barWeight) || barWeight < 0 || barWeight > 200) {
+    return { error: "Bar weight must be between 0 and 200." };
+  }
+  if (!plates.length || plates.some((plate: number) => !Number.isFinite(plate) || plate <= 0 || plate > 100)) {
+    return { error: "List at least one plate, each between 0 and 100." };
+  }
+
+  return {
+    values: {
+      name,
+      unit,
+      bar_weight: barWeight,
+      plates: Array.from(new Set<number>(plates)).sort((a, b) => b - a),
+      is_default: Boolean(body.isDefault),
+    },
+  };
+}
+
+async function clearDefaultGymSetup(clientId: string, exceptId?: string) {
+  let query = supabase
+    .from("gym_setups")
+    .update({ is_default: false })
+    .eq("client_id", clientId)
+    .eq("is_default", true);
+
+  if (exceptId) {
+    query = query.neq("id", exceptId);
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error("Clear default gym setup error", error);
+    throw new Error("Failed to update gym setups");
+  }
+}
+
+app.get("/make-server-d58ce8ef/client/gym-setups", async (c) => {
   const context = await extractAuthContext(c);
   if (context.error) {
     return c.json({ error: context.error.message }, context.error.status);
@@ -718,410 +1712,2733 @@ app.post("/make-server-d58ce8ef/client/log-workout", async (c) => {
   }
 
   try {
-    const body = await c.req.json();
-    const routineId = body.routineId as string;
-    const exercises = Array.isArray(body.exercises) ? body.exercises : [];
-    const performedAt = body.date ? new Date(body.date).toISOString() : new Date().toISOString();
-
-    const routine = await fetchRoutineDetail(routineId, profile.id);
-    if (!routine) {
-      return c.json({ error: "Routine not found" }, 404);
-    }
-
-    const ptId = routine.ptId ?? null;
-
-    const { data: insertedLog, error: logError } = await supabase
-      .from("session_logs")
-      .insert({
-        routine_id: routineId,
-        client_id: profile.id,
-        pt_id: ptId,
-        performed_at: performedAt,
-      })
-      .select("id")
-      .single();
+    const { data, error } = await supabase
+      .from("gym_setups")
+      .select("*")
+      .eq("client_id", profile.id)
+      .order("created_at", { ascending: true });
 
-    if (logError || !insertedLog) {
-      console.error("Log workout error", logError);
-      return c.json({ error: "Failed to log workout" }, 500);
+    if (error) {
+      console.error("Gym setups fetch error", error);
+      return c.json({ error: "Failed to load gym setups" }, 500);
     }
 
-    const sessionLogId = insertedLog.id;
-
-    const setsPayload: any[] = [];
-    exercises.forEach((exercise: any) => {
-      const routineExercise = routine.exercises.find((ex) =>
-        ex.id === exercise.routineExerciseId || ex.exerciseId === exercise.exerciseId || ex.name === exercise.name
-      );
+    return c.json({ gymSetups: (data || []).map(mapGymSetup) });
+  } catch (error) {
+    console.error("Gym setups error", error);
+    return c.json({ error: "Failed to load gym setups" }, 500);
+  }
+});
 
-      if (!routineExercise) {
-        return;
-      }
+app.post("/make-server-d58ce8ef/client/gym-setups", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
 
-      const sets = Array.isArray(exercise.sets) ? exercise.sets : [];
-      sets.forEach((set: any, index: number) => {
-        setsPayload.push({
-          session_log_id: sessionLogId,
-          exercise_id: routineExercise.exerciseId,
-          set_number: index + 1,
-          logged_weight: set.weight ?? set.logged_weight ?? null,
-          logged_reps: set.reps ?? set.logged_reps ?? null,
-          logged_rpe: set.rpe ?? null,
-          actual_rest_seconds: set.rest ?? null,
-        });
-      });
-    });
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
 
-    if (setsPayload.length) {
-      const { error: setsError } = await supabase
-        .from("session_log_sets")
-        .insert(setsPayload);
+  try {
+    const parsed = parseGymSetupInput(await c.req.json());
+    if (parsed.error) {
+      return c.json({ error: parsed.error }, 400);
+    }
 
-      if (setsError) {
-        console.error("Failed to insert log sets", setsError);
-      }
+    if (parsed.values.is_default) {
+      await clearDefaultGymSetup(profile.id);
     }
 
-    // Refresh stats for response
-    const [sessions, routines] = await Promise.all([
-      fetchClientSessions(profile.id),
-      fetchClientRoutines(profile.id),
-    ]);
-    const streak = computeStreakStats(sessions);
-    const weeklyGoal = computeWeeklyGoal(profile, sessions, routines.length);
+    const { data, error } = await supabase
+      .from("gym_setups")
+      .insert({ ...parsed.values, client_id: profile.id })
+      .select("*")
+      .single();
 
-    // Notify PT if assigned
-    if (ptId) {
-      const clientNameParts = splitNameInput(profile.full_name || "");
-      const notificationName = profile.first_name ?? clientNameParts.firstName ?? clientNameParts.fullName;
-      await createNotification({
-        userId: ptId,
-        type: "client_logged_workout",
-        clientId: profile.id,
-        title: "Client workout",
-        message: `${notificationName} completed a workout`,
-        metadata: { routineId },
-      });
+    if (error || !data) {
+      console.error("Create gym setup error", error);
+      return c.json({ error: "Failed to save gym setup" }, 500);
     }
 
-    return c.json({ success: true, streak, weeklyGoal });
+    return c.json({ gymSetup: mapGymSetup(data) }, 201);
   } catch (error) {
-    console.error("Log workout exception", error);
-    return c.json({ error: "Server error logging workout" }, 500);
+    console.error("Create gym setup exception", error);
+    return c.json({ error: "Failed to save gym setup" }, 500);
   }
 });
 
-app.get("/make-server-d58ce8ef/pt/dashboard", async (c) => {
+app.put("/make-server-d58ce8ef/client/gym-setups/:gymSetupId", async (c) => {
+  const gymSetupId = c.req.param("gymSetupId");
   const context = await extractAuthContext(c);
   if (context.error) {
     return c.json({ error: context.error.message }, context.error.status);
   }
 
   const { profile } = context;
-  if (profile.role !== "pt") {
+  if (profile.role !== "client") {
     return c.json({ error: "Forbidden" }, 403);
   }
 
+  if (!UUID_PATTERN.test(gymSetupId)) {
+    return c.json({ error: "Gym setup not found" }, 404);
+  }
+
   try {
-    const { data: assignments, error } = await supabase
-      .from("pt_clients")
+    const parsed = parseGymSetupInput(await c.req.json());
+    if (parsed.error) {
+      return c.json({ error: parsed.error }, 400);
+    }
+
+    if (parsed.values.is_default) {
+      await clearDefaultGymSetup(profile.id, gymSetupId);
+    }
+
+    const { data, error } = await supabase
+      .from("gym_setups")
+      .update(parsed.values)
+      .eq("id", gymSetupId)
+      .eq("client_id", profile.id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Update gym setup error", error);
+      return c.json({ error: "Failed to save gym setup" }, 500);
+    }
+
+    if (!data) {
+      return c.json({ error: "Gym setup not found" }, 404);
+    }
+
+    return c.json({ gymSetup: mapGymSetup(data) });
+  } catch (error) {
+    console.error("Update gym setup exception", error);
+    return c.json({ error: "Failed to save gym setup" }, 500);
+  }
+});
+
+app.delete("/make-server-d58ce8ef/client/gym-setups/:gymSetupId", async (c) => {
+  const gymSetupId = c.req.param("gymSetupId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  if (!UUID_PATTERN.test(gymSetupId)) {
+    return c.json({ error: "Gym setup not found" }, 404);
+  }
+
+  try {
+    const { error } = await supabase
+      .from("gym_setups")
+      .delete()
+      .eq("id", gymSetupId)
+      .eq("client_id", profile.id);
+
+    if (error) {
+      console.error("Delete gym setup error", error);
+      return c.json({ error: "Failed to delete gym setup" }, 500);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Delete gym setup exception", error);
+    return c.json({ error: "Failed to delete gym setup" }, 500);
+  }
+});
+
+app.get("/make-server-d58ce8ef/client/session/:routineId", async (c) => {
+  const routineId = c.req.param("routineId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const routine = await fetchRoutineDetail(routineId, profile.id);
+    if (!routine) {
+      return c.json({ error: "Routine not found" }, 404);
+    }
+
+    // A program sets each week's targets itself, so its routines get no suggestions.
+    const suggestions = routine.programId ? [] : await computeProgressionSuggestions(routine, profile.id);
+    return c.json({ routine, suggestions });
+  } catch (error) {
+    console.error("Session lookup error", error);
+    return c.json({ error: "Failed to load session" }, 500);
+  }
+});
+
+// A session is filed against the version the client started from, which may be
+// older than the current one if the PT saved changes while it was in progress
+// or it was queued offline.
+async function resolveLoggedRoutineVersion(routine: RoutineSummary, startedVersionId: unknown) {
+  if (typeof startedVersionId !== "string" || !UUID_PATTERN.test(startedVersionId)) {
+    return routine.versionId;
+  }
+
+  const { data, error } = await supabase
+    .from("routine_versions")
+    .select("id")
+    .eq("id", startedVersionId)
+    .eq("routine_id", routine.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Routine version lookup error", error);
+  }
+
+  return data?.id ?? routine.versionId;
+}
+
+app.post("/make-server-d58ce8ef/client/log-workout", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const body = await c.req.json();
+    const routineId = (body.routineId ?? null) as string | null;
+    const exercises = Array.isArray(body.exercises) ? body.exercises : [];
+    const performedDate = body.date ? new Date(body.date) : new Date();
+    const clientSessionId = (body.clientSessionId ?? c.req.header("Idempotency-Key") ?? null) as string | null;
+
+    if (Number.isNaN(performedDate.getTime())) {
+      return c.json({ error: "date must be a valid date" }, 400);
+    }
+    const performedAt = performedDate.toISOString();
+
+    if (clientSessionId && !UUID_PATTERN.test(clientSessionId)) {
+      return c.json({ error: "clientSessionId must be a UUID" }, 400);
+    }
+
+    const durationSeconds = body.durationSeconds != null ? Math.round(Number(body.durationSeconds)) : null;
+    const clientNotes = typeof body.clientNotes === "string" && body.clientNotes.trim()
+      ? body.clientNotes.trim()
+      : null;
+    const perceivedEffort = body.perceivedEffort != null ? Number(body.perceivedEffort) : null;
+
+    if (durationSeconds != null && (Number.isNaN(durationSeconds) || durationSeconds < 0)) {
+      return c.json({ error: "Duration must be a positive number of seconds." }, 400);
+    }
+
+    if (perceivedEffort != null && (Number.isNaN(perceivedEffort) || perceivedEffort < 0 || perceivedEffort > 10)) {
+      return c.json({ error: "Perceived effort must be between 0 and 10." }, 400);
+    }
+
+    let routine: RoutineSummary | null = null;
+    let ptId: string | null = null;
+    let sessionExercises: Array<{ id?: string; exerciseId: string; name: string; trackingMode: TrackingMode }> = [];
+
+    let routineVersionId: string | null = null;
+
+    if (routineId) {
+      // A session started before the PT archived the routine is still saved against it.
+      routine = await fetchRoutineDetail(routineId, profile.id, true);
+      if (!routine) {
+        return c.json({ error: "Routine not found" }, 404);
+      }
+      ptId = routine.ptId ?? null;
+      sessionExercises = routine.exercises;
+      routineVersionId = await resolveLoggedRoutineVersion(routine, body.routineVersionId);
+    } else {
+      // Quick workouts have no routine; exercises must come from the PT's catalog.
+      ptId = await fetchClientAssignment(profile.id);
+      const requestedIds = Array.from(new Set<string>(
+        exercises.map((exercise: any) => String(exercise?.exerciseId ?? "")),
+      ));
+      const exerciseIds = requestedIds.filter((id) => UUID_PATTERN.test(id));
+
+      if (ptId && exerciseIds.length) {
+        const { data: catalogRows, error: catalogError } = await supabase
+          .from("exercises_catalog")
+          .select("id, name, tracking_mode")
+          .eq("pt_id", ptId)
+          .in("id", exerciseIds);
+
+        if (catalogError) {
+          console.error("Quick workout exercise lookup error", catalogError);
+          return c.json({ error: "Failed to log workout" }, 500);
+        }
+
+        sessionExercises = (catalogRows || []).map((row: any) => ({
+          exerciseId: row.id,
+          name: row.name,
+          trackingMode: parseTrackingMode(row.tracking_mode),
+        }));
+      }
+
+      // Dropping unknown exercises would save a workout with sets missing and no word of it.
+      const unknownExerciseIds = requestedIds.filter((id) =>
+        !sessionExercises.some((exercise) => exercise.exerciseId === id)
+      );
+      if (unknownExerciseIds.length) {
+        return c.json({
+          error: `These exercises aren't in your trainer's catalog: ${unknownExerciseIds.join(", ")}`,
+          unknownExerciseIds,
+        }, 400);
+      }
+
+      if (!sessionExercises.length) {
+        return c.json({ error: "Add at least one exercise from your trainer's catalog." }, 400);
+      }
+    }
+
+    const sessionName = routine?.name ?? "Quick workout";
+
+    // Swapped-in exercises must also come from the PT's catalog.
+    const substituteIds = routine
+      ? Array.from(new Set<string>(
+        exercises
+          .filter((exercise: any) => exercise.substitutedForExerciseId && typeof exercise.exerciseId === "string")
+          .map((exercise: any) => exercise.exerciseId)
+          .filter((id: string) => UUID_PATTERN.test(id)),
+      ))
+      : [];
+    const substituteExercises = new Map<string, { name: string; trackingMode: TrackingMode }>();
+    if (ptId && substituteIds.length) {
+      const { data: substituteRows, error: substituteError } = await supabase
+        .from("exercises_catalog")
+        .select("id, name, tracking_mode")
+        .eq("pt_id", ptId)
+        .in("id", substituteIds);
+
+      if (substituteError) {
+        console.error("Substitute exercise lookup error", substituteError);
+        return c.json({ error: "Failed to log workout" }, 500);
+      }
+
+      (substituteRows || []).forEach((row: any) =>
+        substituteExercises.set(row.id, { name: row.name, trackingMode: parseTrackingMode(row.tracking_mode) })
+      );
+    }
+
+    const setsPayload: any[] = [];
+    const substitutions: Array<{
+      originalExerciseId: string;
+      originalName: string;
+      exerciseId: string;
+      name: string;
+    }> = [];
+    let missingMeasurement: string | null = null;
+    exercises.forEach((exercise: any) => {
+      const routineExercise = sessionExercises.find((ex) =>
+        (ex.id && ex.id === exercise.routineExerciseId) || ex.exerciseId === exercise.exerciseId || ex.name === exercise.name
+      );
+
+      if (!routineExercise) {
+        return;
+      }
+
+      const sets = Array.isArray(exercise.sets) ? exercise.sets : [];
+      const substitute = exercise.substitutedForExerciseId && exercise.exerciseId !== routineExercise.exerciseId
+        ? substituteExercises.get(exercise.exerciseId)
+        : undefined;
+      const substituteName = substitute?.name;
+      const trackingMode = substitute?.trackingMode ?? routineExercise.trackingMode;
+      if (substituteName && sets.length) {
+        substitutions.push({
+          originalExerciseId: routineExercise.exerciseId,
+          originalName: routineExercise.name,
+          exerciseId: exercise.exerciseId,
+          name: substituteName,
+        });
+      }
+
+      sets.forEach((set: any, index: number) => {
+        const missing = describeMissingMeasurement(set, trackingMode);
+        if (missing && !missingMeasurement) {
+          missingMeasurement = `Log ${missing} for every set of ${substituteName ?? routineExercise.name}.`;
+        }
+
+        setsPayload.push({
+          exercise_id: substituteName ? exercise.exerciseId : routineExercise.exerciseId,
+          substituted_for_exercise_id: substituteName ? routineExercise.exerciseId : null,
+          set_number: index + 1,
+          logged_weight: set.weight ?? set.logged_weight ?? null,
+          logged_reps: set.reps ?? set.logged_reps ?? null,
+          logged_rpe: set.rpe ?? null,
+          actual_rest_seconds: set.rest != null ? Math.round(Number(set.rest)) : null,
+          completed_at: set.completedAt ?? null,
+          set_type: parseSetType(set.setType),
+          logged_duration_seconds: set.durationSeconds != null ? Math.round(Number(set.durationSeconds)) : null,
+          logged_distance_meters: set.distanceMeters ?? null,
+        });
+      });
+    });
+
+    if (missingMeasurement) {
+      return c.json({ error: missingMeasurement }, 400);
+    }
+
+    const intervalBlocksPayload = (Array.isArray(body.intervalBlocks) ? body.intervalBlocks : [])
+      .filter((block: any) => INTERVAL_KINDS.includes(block?.kind))
+      .map((block: any) => ({
+        // Only blocks from this routine are linked; anything else is kept as a plain record.
+        routine_interval_block_id: routine?.intervalBlocks.some((entry) => entry.id === block.routineIntervalBlockId)
+          ? block.routineIntervalBlockId
+          : null,
+        kind: block.kind,
+        name: typeof block.name === "string" && block.name.trim() ? block.name.trim().slice(0, 60) : null,
+        rounds_completed: Math.max(0, Math.round(Number(block.roundsCompleted) || 0)),
+        extra_reps: block.extraReps != null && Number(block.extraReps) >= 0 ? Math.round(Number(block.extraReps)) : null,
+        duration_seconds: block.durationSeconds != null && Number(block.durationSeconds) >= 0
+          ? Math.round(Number(block.durationSeconds))
+          : null,
+      }));
+
+    // Warm-ups are stored with the session but left out of its totals.
+    const workingSets = setsPayload.filter((set) => set.set_type !== "warmup");
+
+    const { data: logged, error: logError } = await supabase
+      .rpc("log_workout_session", {
+        p_client_id: profile.id,
+        p_pt_id: ptId,
+        p_routine_id: routineId,
+        p_client_session_id: clientSessionId,
+        p_performed_at: performedAt,
+        p_sets: setsPayload,
+        p_duration_seconds: durationSeconds,
+        p_client_notes: clientNotes,
+        p_perceived_effort: perceivedEffort,
+        p_interval_blocks: intervalBlocksPayload,
+        p_routine_version_id: routineVersionId,
+      })
+      .single();
+
+    if (logError || !logged) {
+      console.error("Log workout error", logError);
+      if (logError && INVALID_INPUT_ERROR_CODES.includes(logError.code)) {
+        return c.json({ error: "Workout contains invalid set values" }, 400);
+      }
+      return c.json({ error: "Failed to log workout" }, 500);
+    }
+
+    const sessionLogId = logged.logged_session_id as string;
+    const isDuplicate = Boolean(logged.was_duplicate);
+
+    if (clientSessionId && routineId) {
+      const { error: draftError } = await supabase
+        .from("session_drafts")
+        .delete()
+        .eq("client_id", profile.id)
+        .eq("routine_id", routineId)
+        .eq("client_session_id", clientSessionId);
+
+      if (draftError) {
+        console.error("Session draft cleanup error", draftError);
+      }
+    }
+
+    // Refresh stats for response
+    const [sessions, routines] = await Promise.all([
+      fetchClientSessions(profile.id),
+      fetchClientRoutines(profile.id),
+    ]);
+    const streak = computeStreakStats(sessions);
+    const today = toDateString(new Date());
+    const weeklyGoal = computeWeeklyGoal(
+      profile,
+      sessions,
+      routines.filter((routine) => isRoutineScheduled(routine, today)).length,
+    );
+
+    // Notify PT if assigned
+    if (ptId && !isDuplicate) {
+      const clientNameParts = splitNameInput(profile.full_name || "");
+      const notificationName = profile.first_name ?? clientNameParts.firstName ?? clientNameParts.fullName;
+      await createNotification({
+        userId: ptId,
+        type: "client_logged_workout",
+        clientId: profile.id,
+        title: "Client workout",
+        message: routine
+          ? `${notificationName} completed a workout`
+          : `${notificationName} completed a quick workout`,
+        metadata: {
+          routineId,
+          routineName: sessionName,
+          sessionLogId,
+          durationSeconds,
+          clientNotes,
+          perceivedEffort,
+          substitutions,
+          setsCompleted: workingSets.length,
+          setsPrescribed: routine
+            ? routine.exercises.reduce(
+              (total, exercise) => total + exercise.sets.filter((set) => set.setType !== "warmup").length,
+              0,
+            )
+            : null,
+          totalVolume: workingSets.reduce(
+            (total, set) => total + Number(set.logged_weight ?? 0) * Number(set.logged_reps ?? 0),
+            0,
+          ),
+        },
+      });
+    }
+
+    let personalBests: Array<PersonalBestRecord & { exerciseName: string; label: string }> = [];
+    if (!isDuplicate) {
+      try {
+        const { records, flaggedSetIds } = await recomputePersonalBests(
+          profile.id,
+          setsPayload.map((set) => set.exercise_id),
+        );
+        personalBests = records
+          .filter((record) => record.sessionLogId === sessionLogId && flaggedSetIds.has(record.setId))
+          .map((record) => ({
+            ...record,
+            exerciseName: substituteExercises.get(record.exerciseId)
+              ?? sessionExercises.find((ex) => ex.exerciseId === record.exerciseId)?.name
+              ?? "Exercise",
+            label: describePersonalBestMetric(record.metric, profile.prefers_metric_units),
+          }));
+      } catch (pbError) {
+        // The workout itself is stored; a failed PB refresh is recomputed on the next log.
+        console.error("Personal best evaluation error", pbError);
+      }
+    }
+
+    if (personalBests.length) {
+      const exerciseNames = Array.from(new Set(personalBests.map((pb) => pb.exerciseName)));
+      const pbMetadata = {
+        sessionLogId,
+        personalBests: personalBests.map((pb) => ({
+          exerciseId: pb.exerciseId,
+          exerciseName: pb.exerciseName,
+          metric: pb.metric,
+          label: pb.label,
+          value: pb.value,
+        })),
+      };
+      const summary = `${personalBests.length} new personal best${personalBests.length === 1 ? "" : "s"}`;
+
+      await createNotification({
+        userId: profile.id,
+        type: "personal_best",
+        title: "New personal best!",
+        message: `${summary}: ${exerciseNames.join(", ")}`,
+        metadata: pbMetadata,
+      });
+
+      if (ptId) {
+        const clientNameParts = splitNameInput(profile.full_name || "");
+        const notificationName = profile.first_name ?? clientNameParts.firstName ?? clientNameParts.fullName;
+        await createNotification({
+          userId: ptId,
+          type: "client_personal_best",
+          clientId: profile.id,
+          title: "Client personal best",
+          message: `${notificationName} set ${summary} on ${exerciseNames.join(", ")}`,
+          metadata: pbMetadata,
+        });
+      }
+    }
+
+    return c.json({ success: true, sessionLogId, duplicate: isDuplicate, streak, weeklyGoal, personalBests });
+  } catch (error) {
+    console.error("Log workout exception", error);
+    return c.json({ error: "Server error logging workout" }, 500);
+  }
+});
+
+function mapSessionDraft(row: any) {
+  return {
+    sessionId: row.client_session_id,
+    routineId: row.routine_id,
+    routineVersionId: row.routine_version_id ?? null,
+    exercises: row.exercises ?? undefined,
+    currentExerciseIndex: row.current_exercise_index ?? 0,
+    exerciseLogs: row.exercise_logs ?? {},
+    intervalLogs: row.interval_logs ?? {},
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+app.get("/make-server-d58ce8ef/client/session-drafts", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("session_drafts")
+      .select("client_session_id, routine_id, routine_version_id, exercises, current_exercise_index, exercise_logs, interval_logs, started_at, updated_at")
+      .eq("client_id", profile.id)
+      .order("updated_at", { ascending: false });
+
+    if (error) {
+      console.error("Session drafts fetch error", error);
+      return c.json({ error: "Failed to load session drafts" }, 500);
+    }
+
+    return c.json({ drafts: (data ?? []).map(mapSessionDraft) });
+  } catch (error) {
+    console.error("Session drafts error", error);
+    return c.json({ error: "Failed to load session drafts" }, 500);
+  }
+});
+
+app.put("/make-server-d58ce8ef/client/session-drafts/:routineId", async (c) => {
+  const routineId = c.req.param("routineId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const body = await c.req.json();
+    const clientSessionId = body.clientSessionId as string;
+    if (!clientSessionId || !UUID_PATTERN.test(clientSessionId)) {
+      return c.json({ error: "clientSessionId must be a UUID" }, 400);
+    }
+
+    const currentExerciseIndex = Math.max(0, Math.round(Number(body.currentExerciseIndex ?? 0)) || 0);
+    const exerciseLogs = body.exerciseLogs && typeof body.exerciseLogs === "object" ? body.exerciseLogs : {};
+    const intervalLogs = body.intervalLogs && typeof body.intervalLogs === "object" && !Array.isArray(body.intervalLogs)
+      ? body.intervalLogs
+      : {};
+    const draftExercises = Array.isArray(body.exercises) ? body.exercises : null;
+    const startedAt = body.startedAt ? new Date(body.startedAt).toISOString() : new Date().toISOString();
+
+    const routine = await fetchRoutineDetail(routineId, profile.id, true);
+    if (!routine) {
+      return c.json({ error: "Routine not found" }, 404);
+    }
+    const routineVersionId = await resolveLoggedRoutineVersion(routine, body.routineVersionId);
+
+    // A session that has already been logged must not be revived by a late save.
+    const { data: loggedSession } = await supabase
+      .from("session_logs")
+      .select("id")
+      .eq("client_id", profile.id)
+      .eq("client_session_id", clientSessionId)
+      .maybeSingle();
+
+    if (loggedSession) {
+      return c.json({ success: true, draft: null });
+    }
+
+    const { data, error } = await supabase
+      .from("session_drafts")
+      .upsert(
+        {
+          client_id: profile.id,
+          routine_id: routineId,
+          client_session_id: clientSessionId,
+          routine_version_id: routineVersionId,
+          exercises: draftExercises,
+          current_exercise_index: currentExerciseIndex,
+          exercise_logs: exerciseLogs,
+          interval_logs: intervalLogs,
+          started_at: startedAt,
+        },
+        { onConflict: "client_id,routine_id" },
+      )
+      .select("client_session_id, routine_id, routine_version_id, exercises, current_exercise_index, exercise_logs, interval_logs, started_at, updated_at")
+      .single();
+
+    if (error) {
+      console.error("Session draft save error", error);
+      return c.json({ error: "Failed to save session draft" }, 500);
+    }
+
+    return c.json({ success: true, draft: mapSessionDraft(data) });
+  } catch (error) {
+    console.error("Session draft save exception", error);
+    return c.json({ error: "Failed to save session draft" }, 500);
+  }
+});
+
+app.delete("/make-server-d58ce8ef/client/session-drafts/:routineId", async (c) => {
+  const routineId = c.req.param("routineId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const { error } = await supabase
+      .from("session_drafts")
+      .delete()
+      .eq("client_id", profile.id)
+      .eq("routine_id", routineId);
+
+    if (error) {
+      console.error("Session draft delete error", error);
+      return c.json({ error: "Failed to discard session draft" }, 500);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Session draft delete exception", error);
+    return c.json({ error: "Failed to discard session draft" }, 500);
+  }
+});
+
+app.get("/make-server-d58ce8ef/client/exercises", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const ptId = await fetchClientAssignment(profile.id);
+    if (!ptId) {
+      return c.json({ exercises: [] });
+    }
+
+    const searchQuery = c.req.query("query") ?? c.req.query("q") ?? "";
+    const parsedLimit = Number.parseInt(c.req.query("limit") ?? "", 10);
+    const limit = Number.isNaN(parsedLimit) ? 20 : Math.min(Math.max(parsedLimit, 1), 100);
+
+    const { data, error } = await supabase.rpc("search_pt_exercises", {
+      pt_uuid: ptId,
+      search_query: searchQuery,
+      result_limit: limit,
+    });
+
+    if (error) {
+      console.error("Client exercise search error", error);
+      return c.json({ error: "Failed to search exercises" }, 500);
+    }
+
+    const exercises = (data || []).map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      primaryMuscleGroup: row.primary_muscle_group,
+      equipmentRequired: row.equipment_required,
+      defaultRestSeconds: row.default_rest_seconds,
+      instructionNotes: row.instruction_notes,
+      videoLink: row.video_link,
+      trackingMode: parseTrackingMode(row.tracking_mode),
+    }));
+
+    return c.json({ exercises });
+  } catch (error) {
+    console.error("Client exercises error", error);
+    return c.json({ error: "Failed to search exercises" }, 500);
+  }
+});
+
+app.get("/make-server-d58ce8ef/client/exercises/:exerciseId/alternatives", async (c) => {
+  const exerciseId = c.req.param("exerciseId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const ptId = await fetchClientAssignment(profile.id);
+    if (!ptId) {
+      return c.json({ exercises: [] });
+    }
+
+    const { data: original, error: originalError } = await supabase
+      .from("exercises_catalog")
+      .select("id, primary_muscle_group, equipment_required, tracking_mode")
+      .eq("id", exerciseId)
+      .eq("pt_id", ptId)
+      .maybeSingle();
+
+    if (originalError) {
+      console.error("Alternative exercise lookup error", originalError);
+      return c.json({ error: "Failed to load alternatives" }, 500);
+    }
+
+    if (!original) {
+      return c.json({ error: "Exercise not found" }, 404);
+    }
+
+    // Values are quoted so catalogue entries containing commas survive the PostgREST filter syntax.
+    const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+    const filters = [
+      original.primary_muscle_group && `primary_muscle_group.eq.${quote(original.primary_muscle_group)}`,
+      original.equipment_required && `equipment_required.eq.${quote(original.equipment_required)}`,
+    ].filter(Boolean) as string[];
+
+    if (!filters.length) {
+      return c.json({ exercises: [] });
+    }
+
+    const { data, error } = await supabase
+      .from("exercises_catalog")
+      .select("id, name, primary_muscle_group, equipment_required, default_rest_seconds, instruction_notes, video_link, tracking_mode")
+      .eq("pt_id", ptId)
+      .neq("id", exerciseId)
+      // A swap keeps the sets loggable: a plank can't stand in for a bench press.
+      .eq("tracking_mode", original.tracking_mode)
+      .or(filters.join(","))
+      .order("name", { ascending: true })
+      .limit(50);
+
+    if (error) {
+      console.error("Alternative exercises error", error);
+      return c.json({ error: "Failed to load alternatives" }, 500);
+    }
+
+    // Same muscle group ranks first; a shared equipment setup breaks ties.
+    const score = (row: any) =>
+      (row.primary_muscle_group === original.primary_muscle_group ? 2 : 0) +
+      (row.equipment_required === original.equipment_required ? 1 : 0);
+
+    const exercises = (data || [])
+      .sort((a: any, b: any) => score(b) - score(a))
+      .map((row: any) => ({
+        id: row.id,
+        name: row.name,
+        primaryMuscleGroup: row.primary_muscle_group,
+        equipmentRequired: row.equipment_required,
+        defaultRestSeconds: row.default_rest_seconds,
+        instructionNotes: row.instruction_notes,
+        videoLink: row.video_link,
+        trackingMode: parseTrackingMode(row.tracking_mode),
+      }));
+
+    return c.json({ exercises });
+  } catch (error) {
+    console.error("Alternative exercises exception", error);
+    return c.json({ error: "Failed to load alternatives" }, 500);
+  }
+});
+
+app.get("/make-server-d58ce8ef/client/exercises/:exerciseId/history", async (c) => {
+  const exerciseId = c.req.param("exerciseId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  if (!UUID_PATTERN.test(exerciseId)) {
+    return c.json({ error: "Exercise not found" }, 404);
+  }
+
+  const parsedLimit = Number.parseInt(c.req.query("limit") ?? "", 10);
+  const limit = Number.isNaN(parsedLimit) ? 3 : Math.min(Math.max(parsedLimit, 1), 20);
+
+  try {
+    const performances = await fetchExerciseHistory(profile.id, exerciseId, limit);
+    return c.json({ exerciseId, performances });
+  } catch (error) {
+    console.error("Exercise history error", error);
+    return c.json({ error: "Failed to load exercise history" }, 500);
+  }
+});
+
+// What the client sees between sets: the exercise's own demo first, then
+// whatever their PT has curated.
+app.get("/make-server-d58ce8ef/client/exercises/:exerciseId/rest-hub", async (c) => {
+  const exerciseId = c.req.param("exerciseId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  if (!UUID_PATTERN.test(exerciseId)) {
+    return c.json({ error: "Exercise not found" }, 404);
+  }
+
+  try {
+    const ptId = await fetchClientAssignment(profile.id);
+    if (!ptId) {
+      return c.json({ error: "Exercise not found" }, 404);
+    }
+
+    // Only exercises from the client's own PT's catalog.
+    const { data: exercise, error: exerciseError } = await supabase
+      .from("exercises_catalog")
+      .select("id, name, video_link")
+      .eq("id", exerciseId)
+      .eq("pt_id", ptId)
+      .maybeSingle();
+
+    if (exerciseError) {
+      console.error("Rest hub exercise error", exerciseError);
+      return c.json({ error: "Failed to load rest hub content" }, 500);
+    }
+
+    if (!exercise) {
+      return c.json({ error: "Exercise not found" }, 404);
+    }
+
+    const items: ReturnType<typeof mapContentSource>[] = [];
+
+    if (exercise.video_link) {
+      const videoId = normalizeContentSourceIdentifier("youtube_video", exercise.video_link);
+      const link = videoId ? null : normalizeContentSourceIdentifier("custom", exercise.video_link);
+      if (videoId || link) {
+        items.push(
+          mapContentSource({
+            id: `exercise-${exercise.id}`,
+            source_type: videoId ? "youtube_video" : "custom",
+            source_identifier: videoId ?? link,
+            title: `${exercise.name} technique`,
+            thumbnail_url: null,
+            is_active: true,
+          }),
+        );
+      }
+    }
+
+    const { data, error } = await supabase
+      .from("pt_content_sources")
+      .select("*")
+      .eq("pt_id", ptId)
+      .eq("is_active", true)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Rest hub content sources error", error);
+      return c.json({ error: "Failed to load rest hub content" }, 500);
+    }
+
+    items.push(...(data || []).map(mapContentSource));
+
+    return c.json({ exerciseId, items });
+  } catch (error) {
+    console.error("Rest hub exception", error);
+    return c.json({ error: "Failed to load rest hub content" }, 500);
+  }
+});
+
+app.get("/make-server-d58ce8ef/client/personal-bests", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const personalBests = await fetchPersonalBests(profile.id, profile.prefers_metric_units);
+    return c.json({ personalBests });
+  } catch (error) {
+    console.error("Client personal bests error", error);
+    return c.json({ error: "Failed to load personal bests" }, 500);
+  }
+});
+
+app.get("/make-server-d58ce8ef/pt/personal-bests", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  const clientId = c.req.query("clientId");
+  if (!clientId) {
+    return c.json({ error: "clientId query parameter is required" }, 400);
+  }
+
+  if (!UUID_PATTERN.test(clientId) || !(await hasActiveClient(profile.id, clientId))) {
+    return c.json({ error: "Client not found" }, 404);
+  }
+
+  try {
+    const personalBests = await fetchPersonalBests(clientId, profile.prefers_metric_units);
+    return c.json({ personalBests });
+  } catch (fetchError) {
+    console.error("PT personal bests error", fetchError);
+    return c.json({ error: "Failed to load personal bests" }, 500);
+  }
+});
+
+const getSessionLogRoute = (role: UserRole) => async (c: any) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== role) {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  const access = await resolveSessionLogAccess(profile, c.req.param("sessionLogId"));
+  if (access.error) {
+    return c.json({ error: access.error.message }, access.error.status);
+  }
+
+  try {
+    const session = await fetchSessionLogDetail(c.req.param("sessionLogId"));
+    if (!session) {
+      return c.json({ error: "Session not found" }, 404);
+    }
+    return c.json({ session });
+  } catch (error) {
+    console.error("Session log fetch error", error);
+    return c.json({ error: "Failed to load session" }, 500);
+  }
+};
+
+const updateSessionLogRoute = (role: UserRole) => async (c: any) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== role) {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  const sessionLogId = c.req.param("sessionLogId");
+  const access = await resolveSessionLogAccess(profile, sessionLogId);
+  if (access.error) {
+    return c.json({ error: access.error.message }, access.error.status);
+  }
+
+  try {
+    const body = await c.req.json();
+    const exercises = Array.isArray(body.exercises) ? body.exercises : [];
+
+    const existing = await fetchSessionLogDetail(sessionLogId);
+    if (!existing) {
+      return c.json({ error: "Session not found" }, 404);
+    }
+
+    // Only exercises already in the session can be edited; new sets are added to them.
+    const existingSetIds = new Set(existing.exercises.flatMap((exercise) => exercise.sets.map((set) => set.id)));
+    const setsPayload: any[] = [];
+    for (const exercise of exercises) {
+      const original = existing.exercises.find((entry) => entry.exerciseId === exercise.exerciseId);
+      if (!original) {
+        return c.json({ error: "Sessions can only be edited for exercises they already contain" }, 400);
+      }
+
+      const sets = Array.isArray(exercise.sets) ? exercise.sets : [];
+      const missing = sets
+        .map((set: any) => describeMissingMeasurement(set, original.trackingMode))
+        .find(Boolean);
+      if (missing) {
+        return c.json({ error: `Log ${missing} for every set of ${original.name}.` }, 400);
+      }
+
+      sets.forEach((set: any, index: number) => {
+        setsPayload.push({
+          id: existingSetIds.has(set.id) ? set.id : null,
+          exercise_id: original.exerciseId,
+          substituted_for_exercise_id: original.substitutedForExerciseId,
+          set_number: index + 1,
+          logged_weight: set.weight ?? null,
+          logged_reps: set.reps ?? null,
+          logged_rpe: set.rpe ?? null,
+          logged_duration_seconds: set.durationSeconds != null ? Math.round(Number(set.durationSeconds)) : null,
+          logged_distance_meters: set.distanceMeters ?? null,
+          // Older clients don't send set types; their existing sets keep the ones they have.
+          set_type: set.setType != null ? parseSetType(set.setType) : null,
+        });
+      });
+    }
+
+    if (!setsPayload.length) {
+      return c.json({ error: "A session needs at least one set. Delete the session instead." }, 400);
+    }
+
+    const { error: updateError } = await supabase.rpc("update_workout_session_sets", {
+      p_session_log_id: sessionLogId,
+      p_sets: setsPayload,
+    });
+
+    if (updateError) {
+      console.error("Session log update error", updateError);
+      if (INVALID_INPUT_ERROR_CODES.includes(updateError.code)) {
+        return c.json({ error: "Session contains invalid set values" }, 400);
+      }
+      return c.json({ error: "Failed to update session" }, 500);
+    }
+
+    try {
+      await recomputePersonalBests(
+        access.clientId,
+        existing.exercises.map((exercise) => exercise.exerciseId),
+      );
+    } catch (pbError) {
+      // The edit is already saved; a failed PB refresh is recomputed on the next change.
+      console.error("Personal best refresh error", pbError);
+    }
+
+    const [session, stats] = await Promise.all([
+      fetchSessionLogDetail(sessionLogId),
+      fetchClientStats(access.clientId),
+    ]);
+
+    return c.json({ success: true, session, ...stats });
+  } catch (error) {
+    console.error("Session log update exception", error);
+    return c.json({ error: "Failed to update session" }, 500);
+  }
+};
+
+const deleteSessionLogRoute = (role: UserRole) => async (c: any) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== role) {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  const sessionLogId = c.req.param("sessionLogId");
+  const access = await resolveSessionLogAccess(profile, sessionLogId);
+  if (access.error) {
+    return c.json({ error: access.error.message }, access.error.status);
+  }
+
+  try {
+    const { data: sets } = await supabase
+      .from("session_log_sets")
+      .select("exercise_id")
+      .eq("session_log_id", sessionLogId);
+
+    // Sets and the personal bests that point at them cascade with the session.
+    const { error: deleteError } = await supabase
+      .from("session_logs")
+      .delete()
+      .eq("id", sessionLogId);
+
+    if (deleteError) {
+      console.error("Session log delete error", deleteError);
+      return c.json({ error: "Failed to delete session" }, 500);
+    }
+
+    try {
+      await recomputePersonalBests(access.clientId, (sets || []).map((set: any) => set.exercise_id));
+    } catch (pbError) {
+      // The session is already gone; a failed PB refresh is recomputed on the next change.
+      console.error("Personal best refresh error", pbError);
+    }
+    const stats = await fetchClientStats(access.clientId);
+
+    return c.json({ success: true, ...stats });
+  } catch (error) {
+    console.error("Session log delete exception", error);
+    return c.json({ error: "Failed to delete session" }, 500);
+  }
+};
+
+app.get("/make-server-d58ce8ef/client/sessions", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  const parsedPage = Number.parseInt(c.req.query("page") ?? "", 10);
+  const page = Number.isNaN(parsedPage) ? 0 : Math.max(parsedPage, 0);
+  const parsedLimit = Number.parseInt(c.req.query("limit") ?? "", 10);
+  const limit = Number.isNaN(parsedLimit) ? 10 : Math.min(Math.max(parsedLimit, 1), 50);
+  const routineId = c.req.query("routineId");
+  const exerciseId = c.req.query("exerciseId");
+
+  if ((routineId && routineId !== "none" && !UUID_PATTERN.test(routineId)) || (exerciseId && !UUID_PATTERN.test(exerciseId))) {
+    return c.json({ error: "Invalid filter" }, 400);
+  }
+
+  try {
+    let query = supabase
+      .from("session_logs")
+      .select(`
+        id,
+        routine_id,
+        performed_at,
+        duration_seconds,
+        routine:routines (
+          routine_name
+        ),
+        session_log_sets (
+          exercise_id,
+          logged_weight,
+          logged_reps,
+          is_personal_best,
+          set_type,
+          exercise:exercises_catalog!exercise_id (
+            name
+          )
+        )${exerciseId ? ",\n        matched_sets:session_log_sets!inner (id)" : ""}
+      `, { count: "exact" })
+      .eq("client_id", profile.id);
+
+    if (routineId === "none") {
+      query = query.is("routine_id", null);
+    } else if (routineId) {
+      query = query.eq("routine_id", routineId);
+    }
+
+    // A second, inner-joined copy of the sets narrows the sessions without trimming the summary.
+    if (exerciseId) {
+      query = query.eq("matched_sets.exercise_id", exerciseId);
+    }
+
+    const { data, error, count } = await query
+      .order("performed_at", { ascending: false })
+      .range(page * limit, page * limit + limit - 1);
+
+    if (error) {
+      console.error("Client sessions fetch error", error);
+      return c.json({ error: "Failed to load sessions" }, 500);
+    }
+
+    const sessions = (data || []).map((row: any) => {
+      const sets = row.session_log_sets || [];
+      const workingSets = sets.filter((set: any) => set.set_type !== "warmup");
+      const exerciseNames: string[] = Array.from(
+        new Set(sets.map((set: any) => set.exercise?.name ?? "Exercise")),
+      );
+      return {
+        id: row.id,
+        routineId: row.routine_id,
+        routineName: row.routine?.routine_name ?? (row.routine_id ? "Deleted routine" : "Quick workout"),
+        performedAt: row.performed_at,
+        durationSeconds: row.duration_seconds,
+        exerciseNames,
+        setCount: workingSets.length,
+        personalBestCount: sets.filter((set: any) => set.is_personal_best).length,
+        totalVolume: workingSets.reduce(
+          (total: number, set: any) => total + Number(set.logged_weight ?? 0) * Number(set.logged_reps ?? 0),
+          0,
+        ),
+      };
+    });
+
+    const total = count ?? sessions.length;
+    return c.json({ sessions, page, limit, total, hasMore: (page + 1) * limit < total });
+  } catch (error) {
+    console.error("Client sessions error", error);
+    return c.json({ error: "Failed to load sessions" }, 500);
+  }
+});
+
+// Registered before /client/sessions/:sessionLogId so "filters" is not read as a session id.
+app.get("/make-server-d58ce8ef/client/sessions/filters", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "client") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const { data, error } = await supabase.rpc("session_history_filters", {
+      p_client_id: profile.id,
+    });
+
+    if (error) {
+      console.error("Session history filters error", error);
+      return c.json({ error: "Failed to load filters" }, 500);
+    }
+
+    const rows = data || [];
+    const toOptions = (kind: string) =>
+      rows
+        .filter((row: any) => row.filter_kind === kind)
+        .map((row: any) => ({ id: row.filter_id as string, name: row.filter_name as string }));
+
+    const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+    return c.json({
+      routines: toOptions("routine").sort(byName),
+      hasQuickWorkouts: rows.some((row: any) => row.filter_kind === "quick"),
+      exercises: toOptions("exercise").sort(byName),
+    });
+  } catch (error) {
+    console.error("Session history filters exception", error);
+    return c.json({ error: "Failed to load filters" }, 500);
+  }
+});
+
+app.get("/make-server-d58ce8ef/client/sessions/:sessionLogId", getSessionLogRoute("client"));
+app.put("/make-server-d58ce8ef/client/sessions/:sessionLogId", updateSessionLogRoute("client"));
+app.delete("/make-server-d58ce8ef/client/sessions/:sessionLogId", deleteSessionLogRoute("client"));
+app.get("/make-server-d58ce8ef/pt/sessions/:sessionLogId", getSessionLogRoute("pt"));
+app.put("/make-server-d58ce8ef/pt/sessions/:sessionLogId", updateSessionLogRoute("pt"));
+app.delete("/make-server-d58ce8ef/pt/sessions/:sessionLogId", deleteSessionLogRoute("pt"));
+
+app.get("/make-server-d58ce8ef/pt/dashboard", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const { data: assignments, error } = await supabase
+      .from("pt_clients")
       .select("client_id")
       .eq("pt_id", profile.id)
-      .eq("status", "active");
+      .eq("status", "active");
+
+    if (error) {
+      console.error("PT dashboard assignments error", error);
+      return c.json({ error: "Failed to load clients" }, 500);
+    }
+
+    const clientIds = (assignments || []).map((row) => row.client_id);
+    if (clientIds.length === 0) {
+      return c.json({ clients: [], alerts: [] });
+    }
+
+    const { data: clientProfiles, error: clientError } = await supabase
+      .from("profiles")
+      .select("*")
+      .in("id", clientIds);
+
+    if (clientError) {
+      console.error("PT dashboard client profiles error", clientError);
+      return c.json({ error: "Failed to load client profiles" }, 500);
+    }
+
+    const clients = await Promise.all(
+      (clientProfiles || []).map(async (clientProfile: ProfileRow) => {
+        const dashboard = await fetchClientDashboard(clientProfile, "pt");
+        const nameParts = splitNameInput(clientProfile.full_name || "");
+        const firstName = clientProfile.first_name ?? nameParts.firstName;
+        const lastName = clientProfile.last_name ?? nameParts.lastName;
+        const displayName = [firstName, lastName].filter(Boolean).join(" ") || nameParts.fullName;
+        
+        return {
+          id: clientProfile.id,
+          name: displayName,
+          fullName: displayName,
+          firstName,
+          lastName,
+          email: clientProfile.email,
+          streak: dashboard.streak,
+          weeklyGoal: dashboard.weeklyGoal,
+          routines: dashboard.routines,
+          program: dashboard.program,
+        };
+      }),
+    );
+
+    const clientIdToProfile = (clientProfiles || []).reduce<Record<string, ProfileRow>>((acc, profileRow) => {
+      acc[profileRow.id] = profileRow as ProfileRow;
+      return acc;
+    }, {});
+
+    const { data: healthLogs, error: healthError } = await supabase
+      .from("client_health_logs")
+      .select("id, client_id, injury_title, details, status, logged_at, created_by_pt")
+      .in("client_id", clientIds)
+      .order("logged_at", { ascending: false });
+
+    if (healthError) {
+      console.error("PT dashboard health logs error", healthError);
+      return c.json({ error: "Failed to load client health logs" }, 500);
+    }
+
+    const healthLogsByClient = new Map<string, HealthLog[]>();
+    (healthLogs || []).forEach((log: HealthLog) => {
+      if (!healthLogsByClient.has(log.client_id)) {
+        healthLogsByClient.set(log.client_id, []);
+      }
+      healthLogsByClient.get(log.client_id)!.push(log);
+    });
+
+    const activeIssueByClient = new Map<string, HealthLog>();
+    healthLogsByClient.forEach((logs, clientId) => {
+      const active = logs.find((log) => log.status === "ACUTE" || log.status === "LINGERING");
+      if (active) {
+        activeIssueByClient.set(clientId, active);
+      }
+    });
+
+    const { data: upcomingSessions, error: upcomingError } = await supabase
+      .from("pt_calendar_events")
+      .select("id, title, client_id, start_at, end_at, event_type")
+      .eq("pt_id", profile.id)
+      .eq("event_type", "session")
+      .gte("start_at", new Date().toISOString())
+      .lte("start_at", new Date(Date.now() + 15 * 60 * 1000).toISOString());
+
+    if (upcomingError) {
+      console.error("PT dashboard upcoming sessions error", upcomingError);
+      return c.json({ error: "Failed to load upcoming sessions" }, 500);
+    }
+
+    const alerts =
+      (upcomingSessions || [])
+        .filter((session: any) => session.client_id && activeIssueByClient.has(session.client_id))
+        .map((session: any) => {
+          const issue = activeIssueByClient.get(session.client_id)!;
+          const clientProfile = clientIdToProfile[session.client_id];
+          const clientNameParts = clientProfile
+            ? splitNameInput(clientProfile.full_name || "")
+            : { firstName: "Client", lastName: null, fullName: "Client" };
+          const alertFirstName = clientProfile?.first_name ?? clientNameParts.firstName;
+          const alertLastName = clientProfile?.last_name ?? clientNameParts.lastName;
+          const alertDisplayName = [alertFirstName, alertLastName].filter(Boolean).join(" ") || clientNameParts.fullName;
+          return {
+            eventId: session.id,
+            clientId: session.client_id,
+            clientName: alertDisplayName,
+            sessionStart: session.start_at,
+            sessionEnd: session.end_at,
+            injuryTitle: issue.injury_title,
+            status: issue.status,
+          };
+        }) || [];
+
+    const clientsWithHealth = clients.map((client) => {
+      const logs = healthLogsByClient.get(client.id) || [];
+      const activeIssue = activeIssueByClient.get(client.id) || null;
+      const mostRecentLog = logs[0] ?? null;
+      return {
+        ...client,
+        activeHealthIssue: activeIssue
+          ? {
+              id: activeIssue.id,
+              status: activeIssue.status,
+              injuryTitle: activeIssue.injury_title,
+              loggedAt: activeIssue.logged_at,
+            }
+          : null,
+        mostRecentHealthLog: mostRecentLog
+          ? {
+              id: mostRecentLog.id,
+              status: mostRecentLog.status,
+              injuryTitle: mostRecentLog.injury_title,
+              loggedAt: mostRecentLog.logged_at,
+            }
+          : null,
+      };
+    });
+
+    return c.json({ clients: clientsWithHealth, alerts });
+  } catch (error) {
+    console.error("PT dashboard error", error);
+    return c.json({ error: "Failed to load PT dashboard" }, 500);
+  }
+});
+
+async function resolveExerciseCatalogId(
+  ptId: string,
+  exercise: {
+    catalogId?: string | null;
+    name: string;
+    notes?: string | null;
+    defaultRestSeconds?: number | null;
+    trackingMode?: string | null;
+  },
+) {
+  const trimmedName = exercise.name.trim();
+
+  if (exercise.catalogId) {
+    const { data, error } = await supabase
+      .from("exercises_catalog")
+      .select("id")
+      .eq("id", exercise.catalogId)
+      .eq("pt_id", ptId)
+      .maybeSingle();
+
+    if (!error && data) {
+      return data.id;
+    }
+  }
+
+  const { data: existing, error: lookupError } = await supabase
+    .from("exercises_catalog")
+    .select("id")
+    .eq("pt_id", ptId)
+    .ilike("name", trimmedName)
+    .maybeSingle();
+
+  if (lookupError && lookupError.code !== "PGRST116") {
+    console.error("Lookup exercise error", lookupError);
+  }
+
+  if (existing) {
+    return existing.id;
+  }
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("exercises_catalog")
+    .insert({
+      pt_id: ptId,
+      name: trimmedName,
+      instruction_notes: exercise.notes ?? null,
+      default_rest_seconds: exercise.defaultRestSeconds ?? null,
+      tracking_mode: parseTrackingMode(exercise.trackingMode),
+    })
+    .select("id")
+    .single();
+
+  if (insertError || !inserted) {
+    throw new Error("Failed to create exercise in catalog");
+  }
+
+  return inserted.id;
+}
+
+type RoutineInput = Parameters<typeof upsertRoutine>[0];
+
+// What a version keeps: what was prescribed, not when it runs (dates and program day).
+function toRoutineSnapshot({ name, groups, intervalBlocks, exercises }: RoutineSummary) {
+  return { name, groups, intervalBlocks, exercises };
+}
+
+const roundToPlaces = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+// A submitted row id is kept only when it is one of the routine's own rows, and
+// only once; anything else becomes a new row. Claimed ids are taken out of ids.
+function claimRowId(id: unknown, ids: Set<string>) {
+  return typeof id === "string" && ids.delete(id) ? id : crypto.randomUUID();
+}
+
+/**
+ * Turns the routine as submitted into the rows save_routine writes, shaped as
+ * ROUTINE_SELECT reads them back so the version snapshot can be built from them.
+ * Row ids are chosen here for the same reason: rows still in the routine (as
+ * read into existing) keep theirs, so sessions in progress and logged interval
+ * blocks keep matching them. Exercises not yet in the PT's catalog are added
+ * to it first.
+ */
+async function buildRoutineRows(params: RoutineInput, existing: any | null) {
+  const blockIds = new Set<string>((existing?.routine_interval_blocks || []).map((block: any) => block.id));
+  const groupRowIds = new Set<string>((existing?.routine_exercise_groups || []).map((group: any) => group.id));
+  const exerciseRows = new Map<string, string>(
+    (existing?.routine_exercises || []).map((exercise: any) => [exercise.id, exercise.exercise_id]),
+  );
+
+  const intervalBlocks = (params.intervalBlocks ?? [])
+    .filter((block) => INTERVAL_KINDS.includes(block?.kind as IntervalKind))
+    .map((block) => ({
+      submittedId: block.id,
+      kind: block.kind as IntervalKind,
+      name: typeof block.name === "string" && block.name.trim() ? block.name.trim().slice(0, 60) : null,
+      notes: typeof block.notes === "string" && block.notes.trim() ? block.notes.trim() : null,
+      rounds: Math.round(parseBoundedNumber(block.rounds, 1, 100) ?? 1),
+      work_seconds: block.workSeconds != null && Number(block.workSeconds) > 0 ? Math.round(Number(block.workSeconds)) : null,
+      rest_seconds: block.restSeconds != null && Number(block.restSeconds) >= 0 ? Math.round(Number(block.restSeconds)) : null,
+      intervals: block.kind === "custom" ? parseIntervalSteps(block.intervals) : null,
+    }))
+    // A custom block with no usable steps has nothing to time.
+    .filter((block) => block.kind !== "custom" || block.intervals?.length)
+    .map(({ submittedId, ...block }, index) => ({ ...block, id: claimRowId(submittedId, blockIds), position: index }));
+
+  const groupIds = new Map<string, string>();
+  const groups = [];
+  for (const group of params.groups ?? []) {
+    if (!group?.key || groupIds.has(group.key) || !params.exercises.some((exercise) => exercise.groupKey === group.key)) {
+      continue;
+    }
+
+    const rounds = Math.round(Number(group.rounds));
+    const restSeconds = group.restSeconds != null ? Math.round(Number(group.restSeconds)) : null;
+    const id = claimRowId(group.id, groupRowIds);
+    groupIds.set(group.key, id);
+    groups.push({
+      id,
+      kind: EXERCISE_GROUP_KINDS.includes(group.kind as ExerciseGroupKind) ? group.kind as ExerciseGroupKind : "superset",
+      rounds: rounds >= 1 && rounds <= 20 ? rounds : 3,
+      rest_seconds: restSeconds != null && restSeconds >= 0 ? restSeconds : null,
+    });
+  }
+
+  const exercises = [];
+  for (const [position, exercise] of params.exercises.entries()) {
+    const exerciseId = await resolveExerciseCatalogId(params.ptId, exercise);
+    const sets = Array.isArray(exercise.sets) ? exercise.sets : [];
+    // A row swapped to a different exercise is a new row; sessions matched the old one.
+    const keepsRow = exerciseRows.get(exercise.routineExerciseId ?? "") === exerciseId;
+    if (keepsRow) {
+      exerciseRows.delete(exercise.routineExerciseId!);
+    }
+    exercises.push({
+      id: keepsRow ? exercise.routineExerciseId! : crypto.randomUUID(),
+      exercise_id: exerciseId,
+      group_id: exercise.groupKey ? groupIds.get(exercise.groupKey) ?? null : null,
+      position,
+      notes: exercise.notes ?? null,
+      routine_exercise_sets: sets.map((set, index) => {
+        // Values are rounded to what their columns hold, so the snapshot matches what is stored.
+        const reps = parseBoundedNumber(typeof set.reps === "string" && set.reps.includes("-") ? null : set.reps, 1, 999);
+        const rest = parseBoundedNumber(set.rest, 0, 86400);
+        const weight = parseBoundedNumber(set.weight, 0, 999999);
+        const duration = parseBoundedNumber(set.durationSeconds, 1, 86400);
+        const distance = parseBoundedNumber(set.distanceMeters, 0.01, 9999999);
+        const rir = parseBoundedNumber(set.targetRir, 0, 10);
+        const rpe = parseBoundedNumber(set.targetRpe, 1, 10);
+        const percentOneRepMax = parseBoundedNumber(set.percentOneRepMax, 0.01, 100);
+        return {
+          set_number: index + 1,
+          target_rep_range: typeof set.reps === "string" && set.reps.includes("-") ? set.reps : null,
+          target_reps: reps != null ? Math.round(reps) : null,
+          target_rest_seconds: rest != null ? Math.round(rest) : null,
+          target_weight: weight != null ? roundToPlaces(weight, 2) : null,
+          target_duration_seconds: duration != null ? Math.round(duration) : null,
+          target_distance_meters: distance != null ? roundToPlaces(distance, 2) : null,
+          set_type: parseSetType(set.setType),
+          tempo: parseTempo(set.tempo),
+          target_rir: rir != null ? Math.round(rir) : null,
+          target_rpe: rpe != null ? roundToPlaces(rpe, 1) : null,
+          percent_one_rep_max: percentOneRepMax != null ? roundToPlaces(percentOneRepMax, 2) : null,
+        };
+      }),
+    });
+  }
+
+  const catalogIds = Array.from(new Set(exercises.map((exercise) => exercise.exercise_id)));
+  const { data: catalogRows, error: catalogError } = catalogIds.length
+    ? await supabase
+        .from("exercises_catalog")
+        .select("id, name, instruction_notes, equipment_required, default_rest_seconds, tracking_mode")
+        .in("id", catalogIds)
+    : { data: [], error: null };
+
+  if (catalogError) {
+    console.error("Routine catalog lookup error", catalogError);
+    throw new Error("Failed to save routine");
+  }
+
+  const snapshot = toRoutineSnapshot(
+    mapRoutine({
+      routine_name: params.name,
+      routine_exercise_groups: groups,
+      routine_interval_blocks: intervalBlocks,
+      routine_exercises: exercises.map((exercise) => ({
+        ...exercise,
+        exercise: (catalogRows || []).find((row: any) => row.id === exercise.exercise_id) ?? null,
+      })),
+    }),
+  );
+
+  return { groups, intervalBlocks, exercises, snapshot };
+}
+
+/**
+ * Saves the routine and records it as its next version in one transaction
+ * (see save_routine). Returns the routine id.
+ */
+async function upsertRoutine(
+  params: {
+    routineId?: string;
+    ptId: string;
+    clientId: string | null;
+    isTemplate?: boolean;
+    templateId?: string | null;
+    // Set when an old version is being brought back, so the history shows where it came from.
+    restoredFromVersionId?: string | null;
+    name: string;
+    exercises: Array<{
+      id?: string;
+      // The saved row being edited, if any; see buildRoutineRows.
+      routineExerciseId?: string | null;
+      name: string;
+      notes?: string | null;
+      catalogId?: string | null;
+      defaultRestSeconds?: number | null;
+      trackingMode?: string | null;
+      groupKey?: string | null;
+      sets?: Array<{
+        reps?: string | number;
+        rest?: string | number;
+        weight?: number | null;
+        durationSeconds?: number | null;
+        distanceMeters?: number | null;
+        setType?: string;
+        tempo?: string | null;
+        targetRir?: number | null;
+        targetRpe?: number | null;
+        percentOneRepMax?: number | null;
+      }>;
+    }>;
+    // Exercises point at their group by this client-side key.
+    groups?: Array<{ key: string; id?: string | null; kind?: string; rounds?: number; restSeconds?: number | null }>;
+    intervalBlocks?: Array<{
+      id?: string | null;
+      kind?: string;
+      name?: string | null;
+      notes?: string | null;
+      rounds?: number;
+      workSeconds?: number | null;
+      restSeconds?: number | null;
+      intervals?: unknown;
+    }>;
+  },
+) {
+  const isTemplate = Boolean(params.isTemplate);
+  const isNew = !params.routineId;
+  const routineId = params.routineId ?? crypto.randomUUID();
+  const routine: Record<string, unknown> = {
+    client_id: isTemplate ? null : params.clientId,
+    is_template: isTemplate,
+    routine_name: params.name,
+  };
+  if (params.templateId !== undefined) {
+    routine.template_id = params.templateId;
+  }
+
+  // Routines saved before versions were kept get their prescription recorded
+  // before it is replaced.
+  let previousSnapshot: ReturnType<typeof toRoutineSnapshot> | null = null;
+  let existingRoutine: any | null = null;
+  if (!isNew) {
+    const { data: existing, error: existingError } = await supabase
+      .from("routines")
+      .select(ROUTINE_SELECT)
+      .eq("id", routineId)
+      .eq("pt_id", params.ptId)
+      .eq("is_template", isTemplate)
+      .maybeSingle();
+
+    if (existingError || !existing) {
+      console.error("Failed to find routine to update", existingError);
+      throw new Error("Routine update failed");
+    }
+
+    if (!existing.current_version_id) {
+      previousSnapshot = toRoutineSnapshot(mapRoutine(existing));
+    }
+    existingRoutine = existing;
+  }
+
+  const rows = await buildRoutineRows(params, existingRoutine);
+  const { error } = await supabase.rpc("save_routine", {
+    p_routine_id: routineId,
+    p_is_new: isNew,
+    p_pt_id: params.ptId,
+    p_routine: routine,
+    p_groups: rows.groups,
+    p_interval_blocks: rows.intervalBlocks,
+    p_exercises: rows.exercises,
+    p_snapshot: rows.snapshot,
+    p_previous_snapshot: previousSnapshot,
+    p_created_by: params.ptId,
+    p_restored_from_version_id: params.restoredFromVersionId ?? null,
+  });
+
+  if (error) {
+    console.error("Failed to save routine", error);
+    throw new Error(isNew ? "Routine creation failed" : "Routine update failed");
+  }
+
+  return routineId;
+}
+
+app.post("/make-server-d58ce8ef/pt/routine", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const body = await c.req.json();
+    const routineId = await upsertRoutine({
+      ptId: profile.id,
+      clientId: body.clientId,
+      name: body.name,
+      exercises: body.exercises || [],
+      groups: Array.isArray(body.groups) ? body.groups : [],
+      intervalBlocks: Array.isArray(body.intervalBlocks) ? body.intervalBlocks : [],
+    });
+
+    const routine = await fetchRoutineDetail(routineId, body.clientId);
+    return c.json({ routine });
+  } catch (error) {
+    console.error("Create routine error", error);
+    return c.json({ error: "Failed to create routine" }, 500);
+  }
+});
+
+app.put("/make-server-d58ce8ef/pt/routine/:routineId", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const body = await c.req.json();
+    const routineId = c.req.param("routineId");
+
+    await upsertRoutine({
+      routineId,
+      ptId: profile.id,
+      clientId: body.clientId,
+      name: body.name,
+      exercises: body.exercises || [],
+      groups: Array.isArray(body.groups) ? body.groups : [],
+      intervalBlocks: Array.isArray(body.intervalBlocks) ? body.intervalBlocks : [],
+    });
+
+    const routine = await fetchRoutineDetail(routineId, body.clientId, true);
+    return c.json({ routine });
+  } catch (error) {
+    console.error("Update routine error", error);
+    return c.json({ error: "Failed to update routine" }, 500);
+  }
+});
+
+async function fetchPtRoutineRow(routineId: string, ptId: string) {
+  if (!UUID_PATTERN.test(routineId)) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("routines")
+    .select("id, client_id, is_template, current_version_id")
+    .eq("id", routineId)
+    .eq("pt_id", ptId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Routine lookup error", error);
+    throw new Error("Failed to load routine");
+  }
+
+  return data;
+}
+
+app.get("/make-server-d58ce8ef/pt/routines", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  const clientId = c.req.query("clientId");
+  if (!clientId) {
+    return c.json({ error: "clientId query parameter is required" }, 400);
+  }
+
+  if (!UUID_PATTERN.test(clientId) || !(await hasActiveClient(profile.id, clientId))) {
+    return c.json({ error: "Client not found" }, 404);
+  }
+
+  try {
+    const [routines, { data: sessions, error }] = await Promise.all([
+      fetchClientRoutines(clientId, true),
+      supabase
+        .from("session_logs")
+        .select("routine_id, performed_at")
+        .eq("client_id", clientId)
+        .not("routine_id", "is", null),
+    ]);
+
+    if (error) {
+      console.error("Client routine sessions error", error);
+      return c.json({ error: "Failed to load routines" }, 500);
+    }
+
+    // Only routines nobody has trained from can be deleted outright.
+    const usage = new Map<string, { sessionCount: number; lastPerformedAt: string | null }>();
+    (sessions || []).forEach((session: any) => {
+      const entry = usage.get(session.routine_id) ?? { sessionCount: 0, lastPerformedAt: null };
+      entry.sessionCount += 1;
+      if (!entry.lastPerformedAt || session.performed_at > entry.lastPerformedAt) {
+        entry.lastPerformedAt = session.performed_at;
+      }
+      usage.set(session.routine_id, entry);
+    });
+
+    return c.json({
+      routines: routines.map((routine) => ({
+        ...routine,
+        ...(usage.get(routine.id) ?? { sessionCount: 0, lastPerformedAt: null }),
+      })),
+    });
+  } catch (error) {
+    console.error("Client routines error", error);
+    return c.json({ error: "Failed to load routines" }, 500);
+  }
+});
+
+app.patch("/make-server-d58ce8ef/pt/routine/:routineId", async (c) => {
+  const routineId = c.req.param("routineId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const body = await c.req.json();
+    if (typeof body.isActive !== "boolean") {
+      return c.json({ error: "isActive must be true or false" }, 400);
+    }
+
+    const routine = await fetchPtRoutineRow(routineId, profile.id);
+    if (!routine || routine.is_template) {
+      return c.json({ error: "Routine not found" }, 404);
+    }
+
+    const { error } = await supabase
+      .from("routines")
+      .update({ is_active: body.isActive })
+      .eq("id", routineId)
+      .eq("pt_id", profile.id);
+
+    if (error) {
+      console.error("Archive routine error", error);
+      return c.json({ error: "Failed to update routine" }, 500);
+    }
+
+    return c.json({ routine: { id: routineId, isActive: body.isActive } });
+  } catch (error) {
+    console.error("Archive routine exception", error);
+    return c.json({ error: "Failed to update routine" }, 500);
+  }
+});
+
+app.delete("/make-server-d58ce8ef/pt/routine/:routineId", async (c) => {
+  const routineId = c.req.param("routineId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const routine = await fetchPtRoutineRow(routineId, profile.id);
+    if (!routine || routine.is_template) {
+      return c.json({ error: "Routine not found" }, 404);
+    }
+
+    const { count, error: usageError } = await supabase
+      .from("session_logs")
+      .select("id", { count: "exact", head: true })
+      .eq("routine_id", routineId);
+
+    if (usageError) {
+      console.error("Routine usage lookup error", usageError);
+      return c.json({ error: "Failed to delete routine" }, 500);
+    }
+
+    if (count) {
+      return c.json({ error: "This routine has logged sessions. Archive it instead to keep its history." }, 409);
+    }
+
+    const { error } = await supabase
+      .from("routines")
+      .delete()
+      .eq("id", routineId)
+      .eq("pt_id", profile.id)
+      .eq("is_template", false);
 
     if (error) {
-      console.error("PT dashboard assignments error", error);
-      return c.json({ error: "Failed to load clients" }, 500);
+      console.error("Delete routine error", error);
+      return c.json({ error: "Failed to delete routine" }, 500);
     }
 
-    const clientIds = (assignments || []).map((row) => row.client_id);
-    if (clientIds.length === 0) {
-      return c.json({ clients: [], alerts: [] });
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Delete routine exception", error);
+    return c.json({ error: "Failed to delete routine" }, 500);
+  }
+});
+
+app.get("/make-server-d58ce8ef/pt/routine/:routineId/versions", async (c) => {
+  const routineId = c.req.param("routineId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const routine = await fetchPtRoutineRow(routineId, profile.id);
+    if (!routine) {
+      return c.json({ error: "Routine not found" }, 404);
     }
 
-    const { data: clientProfiles, error: clientError } = await supabase
-      .from("profiles")
-      .select("*")
-      .in("id", clientIds);
+    const [{ data: versions, error }, { data: sessions, error: sessionsError }] = await Promise.all([
+      supabase
+        .from("routine_versions")
+        .select("id, version_number, created_at, restored_from_version_id")
+        .eq("routine_id", routineId)
+        .order("version_number", { ascending: false }),
+      supabase
+        .from("session_logs")
+        .select("routine_version_id")
+        .eq("routine_id", routineId)
+        .not("routine_version_id", "is", null),
+    ]);
 
-    if (clientError) {
-      console.error("PT dashboard client profiles error", clientError);
-      return c.json({ error: "Failed to load client profiles" }, 500);
+    if (error || sessionsError) {
+      console.error("Routine versions error", error ?? sessionsError);
+      return c.json({ error: "Failed to load routine history" }, 500);
     }
 
-    const clients = await Promise.all(
-      (clientProfiles || []).map(async (clientProfile: ProfileRow) => {
-        const dashboard = await fetchClientDashboard(clientProfile);
-        const nameParts = splitNameInput(clientProfile.full_name || "");
-        const firstName = clientProfile.first_name ?? nameParts.firstName;
-        const lastName = clientProfile.last_name ?? nameParts.lastName;
-        const displayName = [firstName, lastName].filter(Boolean).join(" ") || nameParts.fullName;
-        
-        return {
-          id: clientProfile.id,
-          name: displayName,
-          fullName: displayName,
-          firstName,
-          lastName,
-          email: clientProfile.email,
-          streak: dashboard.streak,
-          weeklyGoal: dashboard.weeklyGoal,
-          routines: dashboard.routines,
-        };
-      }),
+    const sessionCounts = new Map<string, number>();
+    (sessions || []).forEach((session: any) =>
+      sessionCounts.set(session.routine_version_id, (sessionCounts.get(session.routine_version_id) ?? 0) + 1)
+    );
+    const versionNumbers = new Map<string, number>(
+      (versions || []).map((version: any) => [version.id, version.version_number]),
     );
 
-    const clientIdToProfile = (clientProfiles || []).reduce<Record<string, ProfileRow>>((acc, profileRow) => {
-      acc[profileRow.id] = profileRow as ProfileRow;
-      return acc;
-    }, {});
+    return c.json({
+      versions: (versions || []).map((version: any) => ({
+        id: version.id,
+        versionNumber: version.version_number,
+        createdAt: version.created_at,
+        restoredFromVersionNumber: version.restored_from_version_id
+          ? versionNumbers.get(version.restored_from_version_id) ?? null
+          : null,
+        isCurrent: version.id === routine.current_version_id,
+        sessionCount: sessionCounts.get(version.id) ?? 0,
+      })),
+    });
+  } catch (error) {
+    console.error("Routine versions exception", error);
+    return c.json({ error: "Failed to load routine history" }, 500);
+  }
+});
+
+app.get("/make-server-d58ce8ef/pt/routine/:routineId/versions/:versionId", async (c) => {
+  const routineId = c.req.param("routineId");
+  const versionId = c.req.param("versionId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  if (!UUID_PATTERN.test(versionId)) {
+    return c.json({ error: "Version not found" }, 404);
+  }
+
+  try {
+    const routine = await fetchPtRoutineRow(routineId, profile.id);
+    if (!routine) {
+      return c.json({ error: "Routine not found" }, 404);
+    }
+
+    const { data, error } = await supabase
+      .from("routine_versions")
+      .select("id, version_number, created_at, snapshot")
+      .eq("id", versionId)
+      .eq("routine_id", routineId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Routine version error", error);
+      return c.json({ error: "Failed to load version" }, 500);
+    }
+
+    if (!data) {
+      return c.json({ error: "Version not found" }, 404);
+    }
+
+    return c.json({
+      version: {
+        id: data.id,
+        versionNumber: data.version_number,
+        createdAt: data.created_at,
+        routine: data.snapshot,
+      },
+    });
+  } catch (error) {
+    console.error("Routine version exception", error);
+    return c.json({ error: "Failed to load version" }, 500);
+  }
+});
+
+app.post("/make-server-d58ce8ef/pt/routine/:routineId/versions/:versionId/restore", async (c) => {
+  const routineId = c.req.param("routineId");
+  const versionId = c.req.param("versionId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  if (!UUID_PATTERN.test(versionId)) {
+    return c.json({ error: "Version not found" }, 404);
+  }
+
+  try {
+    const routine = await fetchPtRoutineRow(routineId, profile.id);
+    if (!routine) {
+      return c.json({ error: "Routine not found" }, 404);
+    }
+
+    const { data: version, error } = await supabase
+      .from("routine_versions")
+      .select("id, snapshot")
+      .eq("id", versionId)
+      .eq("routine_id", routineId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Restore routine version lookup error", error);
+      return c.json({ error: "Failed to restore version" }, 500);
+    }
+
+    if (!version) {
+      return c.json({ error: "Version not found" }, 404);
+    }
+
+    // Restoring saves the old prescription as a new version, so nothing is lost.
+    await upsertRoutine({
+      ...toRoutineInput(version.snapshot as RoutineSummary),
+      routineId,
+      ptId: profile.id,
+      clientId: routine.client_id,
+      isTemplate: routine.is_template,
+      restoredFromVersionId: version.id,
+    });
+
+    return c.json({ routineId });
+  } catch (error) {
+    console.error("Restore routine version exception", error);
+    return c.json({ error: "Failed to restore version" }, 500);
+  }
+});
+
+/**
+ * Rebuilds upsertRoutine input from a saved routine so it can be copied, with
+ * fixed target weights scaled by weightFactor. %1RM targets already follow
+ * each client's own max, so they are copied as they are.
+ */
+function toRoutineInput(routine: RoutineSummary, weightFactor = 1) {
+  return {
+    name: routine.name,
+    // Saved row ids are passed on; only a restore into the same routine keeps them.
+    groups: routine.groups.map((group) => ({
+      key: group.id,
+      id: group.id,
+      kind: group.kind,
+      rounds: group.rounds,
+      restSeconds: group.restSeconds,
+    })),
+    intervalBlocks: routine.intervalBlocks,
+    exercises: routine.exercises.map((exercise) => ({
+      routineExerciseId: exercise.id,
+      name: exercise.name,
+      notes: exercise.notes,
+      catalogId: exercise.exerciseId,
+      defaultRestSeconds: exercise.defaultRestSeconds,
+      trackingMode: exercise.trackingMode,
+      groupKey: exercise.groupId,
+      sets: exercise.sets.map((set) => ({
+        reps: set.reps,
+        // Defaults are left to resolve for the copy. Snapshots saved before restSeconds
+        // existed only carry the resolved rest.
+        rest: set.restSeconds !== undefined ? set.restSeconds ?? undefined : set.rest || undefined,
+        // Half-pound steps, as with %1RM weights.
+        weight: set.targetWeight != null ? Math.round(set.targetWeight * weightFactor * 2) / 2 : null,
+        durationSeconds: set.targetDurationSeconds,
+        distanceMeters: set.targetDistanceMeters,
+        setType: set.setType,
+        tempo: set.tempo,
+        targetRir: set.targetRir,
+        targetRpe: set.targetRpe,
+        percentOneRepMax: set.percentOneRepMax,
+      })),
+    })),
+  };
+}
+
+app.get("/make-server-d58ce8ef/pt/templates", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const templates = await fetchPtTemplates(profile.id);
+    return c.json({ templates });
+  } catch (error) {
+    console.error("Routine templates error", error);
+    return c.json({ error: "Failed to load templates" }, 500);
+  }
+});
+
+app.post("/make-server-d58ce8ef/pt/templates", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const body = await c.req.json();
+    const name = typeof body.name === "string" ? normalizeSpaces(body.name) : "";
+    if (!name) {
+      return c.json({ error: "Give the template a name." }, 400);
+    }
+
+    const templateId = await upsertRoutine({
+      ptId: profile.id,
+      clientId: null,
+      isTemplate: true,
+      name,
+      exercises: body.exercises || [],
+      groups: Array.isArray(body.groups) ? body.groups : [],
+      intervalBlocks: Array.isArray(body.intervalBlocks) ? body.intervalBlocks : [],
+    });
+
+    const templates = await fetchPtTemplates(profile.id);
+    return c.json({ template: templates.find((template) => template.id === templateId) ?? null }, 201);
+  } catch (error) {
+    console.error("Create template error", error);
+    return c.json({ error: "Failed to save template" }, 500);
+  }
+});
+
+app.put("/make-server-d58ce8ef/pt/templates/:templateId", async (c) => {
+  const templateId = c.req.param("templateId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  if (!UUID_PATTERN.test(templateId)) {
+    return c.json({ error: "Template not found" }, 404);
+  }
+
+  try {
+    const body = await c.req.json();
+    const name = typeof body.name === "string" ? normalizeSpaces(body.name) : "";
+    if (!name) {
+      return c.json({ error: "Give the template a name." }, 400);
+    }
+
+    await upsertRoutine({
+      routineId: templateId,
+      ptId: profile.id,
+      clientId: null,
+      isTemplate: true,
+      name,
+      exercises: body.exercises || [],
+      groups: Array.isArray(body.groups) ? body.groups : [],
+      intervalBlocks: Array.isArray(body.intervalBlocks) ? body.intervalBlocks : [],
+    });
+
+    const templates = await fetchPtTemplates(profile.id);
+    return c.json({ template: templates.find((template) => template.id === templateId) ?? null });
+  } catch (error) {
+    console.error("Update template error", error);
+    return c.json({ error: "Failed to save template" }, 500);
+  }
+});
+
+app.delete("/make-server-d58ce8ef/pt/templates/:templateId", async (c) => {
+  const templateId = c.req.param("templateId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  if (!UUID_PATTERN.test(templateId)) {
+    return c.json({ error: "Template not found" }, 404);
+  }
+
+  try {
+    // Routines already made from the template keep everything; they just lose the link.
+    const { error } = await supabase
+      .from("routines")
+      .delete()
+      .eq("id", templateId)
+      .eq("pt_id", profile.id)
+      .eq("is_template", true);
+
+    if (error) {
+      console.error("Delete template error", error);
+      return c.json({ error: "Failed to delete template" }, 500);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Delete template exception", error);
+    return c.json({ error: "Failed to delete template" }, 500);
+  }
+});
 
-    const { data: healthLogs, error: healthError } = await supabase
-      .from("client_health_logs")
-      .select("id, client_id, injury_title, details, status, logged_at, created_by_pt")
-      .in("client_id", clientIds)
-      .order("logged_at", { ascending: false });
+// Copies a template onto each client as their own routine. Target weights can
+// be scaled per client, e.g. -10 for a client who should start 10% lighter.
+app.post("/make-server-d58ce8ef/pt/templates/:templateId/assign", async (c) => {
+  const templateId = c.req.param("templateId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
 
-    if (healthError) {
-      console.error("PT dashboard health logs error", healthError);
-      return c.json({ error: "Failed to load client health logs" }, 500);
-    }
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
 
-    const healthLogsByClient = new Map<string, HealthLog[]>();
-    (healthLogs || []).forEach((log: HealthLog) => {
-      if (!healthLogsByClient.has(log.client_id)) {
-        healthLogsByClient.set(log.client_id, []);
-      }
-      healthLogsByClient.get(log.client_id)!.push(log);
-    });
+  if (!UUID_PATTERN.test(templateId)) {
+    return c.json({ error: "Template not found" }, 404);
+  }
 
-    const activeIssueByClient = new Map<string, HealthLog>();
-    healthLogsByClient.forEach((logs, clientId) => {
-      const active = logs.find((log) => log.status === "ACUTE" || log.status === "LINGERING");
-      if (active) {
-        activeIssueByClient.set(clientId, active);
+  try {
+    const body = await c.req.json();
+    const assignments: Array<{ clientId: string; weightAdjustmentPercent: number }> = [];
+    for (const entry of Array.isArray(body.assignments) ? body.assignments : []) {
+      const clientId = typeof entry?.clientId === "string" ? entry.clientId : "";
+      if (!UUID_PATTERN.test(clientId)) {
+        return c.json({ error: "Client not found" }, 404);
       }
-    });
+      const adjustment = entry.weightAdjustmentPercent ?? 0;
+      const weightAdjustmentPercent = parseBoundedNumber(adjustment, -90, 100);
+      if (weightAdjustmentPercent == null) {
+        return c.json({ error: "Weight adjustments must be between -90% and +100%." }, 400);
+      }
+      if (!assignments.some((assignment) => assignment.clientId === clientId)) {
+        assignments.push({ clientId, weightAdjustmentPercent });
+      }
+    }
 
-    const { data: upcomingSessions, error: upcomingError } = await supabase
-      .from("pt_calendar_events")
-      .select("id, title, client_id, start_at, end_at, event_type")
+    if (!assignments.length) {
+      return c.json({ error: "Choose at least one client." }, 400);
+    }
+
+    const { data: clientRows, error: clientError } = await supabase
+      .from("pt_clients")
+      .select("client_id")
       .eq("pt_id", profile.id)
-      .eq("event_type", "session")
-      .gte("start_at", new Date().toISOString())
-      .lte("start_at", new Date(Date.now() + 15 * 60 * 1000).toISOString());
+      .eq("status", "active")
+      .in("client_id", assignments.map((assignment) => assignment.clientId));
 
-    if (upcomingError) {
-      console.error("PT dashboard upcoming sessions error", upcomingError);
-      return c.json({ error: "Failed to load upcoming sessions" }, 500);
+    if (clientError) {
+      console.error("Template assignment clients error", clientError);
+      return c.json({ error: "Failed to assign template" }, 500);
+    }
+    if ((clientRows || []).length !== assignments.length) {
+      return c.json({ error: "Client not found" }, 404);
     }
 
-    const alerts =
-      (upcomingSessions || [])
-        .filter((session: any) => session.client_id && activeIssueByClient.has(session.client_id))
-        .map((session: any) => {
-          const issue = activeIssueByClient.get(session.client_id)!;
-          const clientProfile = clientIdToProfile[session.client_id];
-          const clientNameParts = clientProfile
-            ? splitNameInput(clientProfile.full_name || "")
-            : { firstName: "Client", lastName: null, fullName: "Client" };
-          const alertFirstName = clientProfile?.first_name ?? clientNameParts.firstName;
-          const alertLastName = clientProfile?.last_name ?? clientNameParts.lastName;
-          const alertDisplayName = [alertFirstName, alertLastName].filter(Boolean).join(" ") || clientNameParts.fullName;
-          return {
-            eventId: session.id,
-            clientId: session.client_id,
-            clientName: alertDisplayName,
-            sessionStart: session.start_at,
-            sessionEnd: session.end_at,
-            injuryTitle: issue.injury_title,
-            status: issue.status,
-          };
-        }) || [];
+    const templates = await fetchPtTemplates(profile.id);
+    const template = templates.find((entry) => entry.id === templateId);
+    if (!template) {
+      return c.json({ error: "Template not found" }, 404);
+    }
 
-    const clientsWithHealth = clients.map((client) => {
-      const logs = healthLogsByClient.get(client.id) || [];
-      const activeIssue = activeIssueByClient.get(client.id) || null;
-      const mostRecentLog = logs[0] ?? null;
-      return {
-        ...client,
-        activeHealthIssue: activeIssue
-          ? {
-              id: activeIssue.id,
-              status: activeIssue.status,
-              injuryTitle: activeIssue.injury_title,
-              loggedAt: activeIssue.logged_at,
-            }
-          : null,
-        mostRecentHealthLog: mostRecentLog
-          ? {
-              id: mostRecentLog.id,
-              status: mostRecentLog.status,
-              injuryTitle: mostRecentLog.injury_title,
-              loggedAt: mostRecentLog.logged_at,
-            }
-          : null,
-      };
-    });
+    // Each client's copy is saved on its own, so one failure is reported without undoing the rest.
+    const routines: Array<{ clientId: string; routineId: string }> = [];
+    const failed: Array<{ clientId: string; error: string }> = [];
+    for (const assignment of assignments) {
+      try {
+        const routineId = await upsertRoutine({
+          ...toRoutineInput(template, 1 + assignment.weightAdjustmentPercent / 100),
+          ptId: profile.id,
+          clientId: assignment.clientId,
+          templateId: template.id,
+        });
+        routines.push({ clientId: assignment.clientId, routineId });
+      } catch (assignError) {
+        console.error("Assign template to client error", assignment.clientId, assignError);
+        failed.push({ clientId: assignment.clientId, error: "Failed to assign template" });
+      }
+    }
 
-    return c.json({ clients: clientsWithHealth, alerts });
+    if (!routines.length) {
+      return c.json({ error: "Failed to assign template", routines, failed }, 500);
+    }
+
+    return c.json({ routines, failed }, 201);
   } catch (error) {
-    console.error("PT dashboard error", error);
-    return c.json({ error: "Failed to load PT dashboard" }, 500);
+    console.error("Assign template error", error);
+    return c.json({ error: "Failed to assign template" }, 500);
   }
 });
 
-async function resolveExerciseCatalogId(
-  ptId: string,
-  exercise: { catalogId?: string | null; name: string; notes?: string | null; defaultRestSeconds?: number | null },
-) {
-  const trimmedName = exercise.name.trim();
+function parseProgramInput(body: any) {
+  const name = typeof body.name === "string" ? normalizeSpaces(body.name) : "";
+  const startDate = typeof body.startDate === "string" ? body.startDate : "";
+  const weeks = Array.isArray(body.weeks) ? body.weeks : [];
+  const routines = Array.isArray(body.routines) ? body.routines : [];
 
-  if (exercise.catalogId) {
-    const { data, error } = await supabase
-      .from("exercises_catalog")
-      .select("id")
-      .eq("id", exercise.catalogId)
-      .eq("pt_id", ptId)
-      .maybeSingle();
+  if (!name || name.length > 80) {
+    return { error: "Give the program a name of up to 80 characters." };
+  }
+  if (!DATE_PATTERN.test(startDate) || Number.isNaN(Date.parse(startDate))) {
+    return { error: "Choose a start date." };
+  }
+  if (!weeks.length || weeks.length > 52) {
+    return { error: "A program runs for 1 to 52 weeks." };
+  }
 
-    if (!error && data) {
-      return data.id;
+  const weekRows = [];
+  for (const [index, week] of weeks.entries()) {
+    const loadPercent = parseBoundedNumber(week?.loadPercent ?? 100, 10, 200);
+    const setAdjustment = parseBoundedNumber(week?.setAdjustment ?? 0, -10, 10);
+    const repAdjustment = parseBoundedNumber(week?.repAdjustment ?? 0, -20, 20);
+    if (loadPercent == null || setAdjustment == null || repAdjustment == null) {
+      return {
+        error: `Week ${index + 1}: load must be 10-200%, sets -10 to +10 and reps -20 to +20.`,
+      };
     }
+    const phaseName = typeof week?.phaseName === "string" ? normalizeSpaces(week.phaseName).slice(0, 40) : "";
+    weekRows.push({
+      week_number: index + 1,
+      phase_name: phaseName || null,
+      is_deload: Boolean(week?.isDeload),
+      load_percent: loadPercent,
+      set_adjustment: Math.round(setAdjustment),
+      rep_adjustment: Math.round(repAdjustment),
+    });
   }
 
-  const { data: existing, error: lookupError } = await supabase
-    .from("exercises_catalog")
-    .select("id")
+  const routineRows = [];
+  for (const routine of routines) {
+    const routineId = typeof routine?.routineId === "string" ? routine.routineId : "";
+    const day = Math.round(Number(routine?.day));
+    const startWeek = Math.round(Number(routine?.startWeek ?? 1));
+    const endWeek = Math.round(Number(routine?.endWeek ?? weeks.length));
+    if (!UUID_PATTERN.test(routineId)) {
+      return { error: "Routine not found" };
+    }
+    if (routineRows.some((row) => row.id === routineId)) {
+      return { error: "A routine can only be one training day of a program." };
+    }
+    if (!(day >= 1 && day <= 14)) {
+      return { error: "Training days run from 1 to 14." };
+    }
+    if (!(startWeek >= 1 && endWeek >= startWeek && endWeek <= weeks.length)) {
+      return { error: "Each routine's weeks must fall within the program." };
+    }
+    routineRows.push({
+      id: routineId,
+      program_day: day,
+      // Phases are whole program weeks, so a routine runs from the first day of its
+      // first week to the last day of its last.
+      start_date: addDays(startDate, (startWeek - 1) * 7),
+      end_date: addDays(startDate, endWeek * 7 - 1),
+    });
+  }
+
+  return { values: { name, startDate, weekRows, routineRows } };
+}
+
+async function fetchClientPrograms(ptId: string, clientId: string) {
+  const { data, error } = await supabase
+    .from("programs")
+    .select("id, name, start_date, program_weeks (week_number, phase_name, is_deload, load_percent, set_adjustment, rep_adjustment)")
     .eq("pt_id", ptId)
-    .ilike("name", trimmedName)
-    .maybeSingle();
+    .eq("client_id", clientId)
+    .order("start_date", { ascending: false });
 
-  if (lookupError && lookupError.code !== "PGRST116") {
-    console.error("Lookup exercise error", lookupError);
+  if (error) {
+    console.error("Programs fetch error", error);
+    throw new Error("Failed to load programs");
   }
 
-  if (existing) {
-    return existing.id;
+  const programIds = (data || []).map((program: any) => program.id);
+  const { data: routineRows, error: routinesError } = programIds.length
+    ? await supabase
+        .from("routines")
+        .select("id, program_id, program_day, start_date, end_date")
+        .in("program_id", programIds)
+    : { data: [], error: null };
+
+  if (routinesError) {
+    console.error("Program routines fetch error", routinesError);
+    throw new Error("Failed to load programs");
   }
 
-  const { data: inserted, error: insertError } = await supabase
-    .from("exercises_catalog")
-    .insert({
-      pt_id: ptId,
-      name: trimmedName,
-      instruction_notes: exercise.notes ?? null,
-      default_rest_seconds: exercise.defaultRestSeconds ?? null,
-    })
-    .select("id")
-    .single();
+  return (data || []).map((program: any) => ({
+    id: program.id,
+    name: program.name,
+    startDate: program.start_date,
+    weeks: (program.program_weeks || [])
+      .map(mapProgramWeek)
+      .sort((a: ProgramWeek, b: ProgramWeek) => a.weekNumber - b.weekNumber),
+    routines: (routineRows || [])
+      .filter((routine: any) => routine.program_id === program.id)
+      .map((routine: any) => ({
+        routineId: routine.id,
+        day: routine.program_day,
+        startWeek: routine.start_date ? Math.floor(daysBetween(program.start_date, routine.start_date) / 7) + 1 : 1,
+        endWeek: routine.end_date
+          ? Math.floor(daysBetween(program.start_date, routine.end_date) / 7) + 1
+          : (program.program_weeks || []).length,
+      }))
+      .sort((a: any, b: any) => a.day - b.day || a.startWeek - b.startWeek),
+  }));
+}
 
-  if (insertError || !inserted) {
-    throw new Error("Failed to create exercise in catalog");
+// Every scheduled routine must be one of this client's routines from this PT,
+// and not already in another of their programs (programId is the one being saved).
+async function checkProgramRoutines(ptId: string, clientId: string, routineIds: string[], programId: string | null) {
+  if (!routineIds.length) {
+    return null;
   }
 
-  return inserted.id;
+  const { data, error } = await supabase
+    .from("routines")
+    .select("id, routine_name, program_id")
+    .eq("pt_id", ptId)
+    .eq("client_id", clientId)
+    .in("id", routineIds);
+
+  if (error) {
+    console.error("Program routines lookup error", error);
+    throw new Error("Failed to check program routines");
+  }
+
+  if ((data || []).length !== routineIds.length) {
+    return { error: "Routine not found", status: 400 };
+  }
+
+  const taken = (data || []).find((routine: any) => routine.program_id && routine.program_id !== programId);
+  if (taken) {
+    return {
+      error: `${taken.routine_name} is already in another program. Remove it from that program first.`,
+      status: 409,
+    };
+  }
+
+  return null;
 }
 
-async function upsertRoutine(
-  params: {
-    routineId?: string;
-    ptId: string;
-    clientId: string;
+/**
+ * Creates the program (programId null) or replaces its weeks and routine
+ * schedule, all in one transaction (see save_program). Returns the program id.
+ */
+async function saveProgram(
+  programId: string | null,
+  ptId: string,
+  clientId: string,
+  values: {
     name: string;
-    exercises: Array<{
-      id?: string;
-      name: string;
-      notes?: string | null;
-      catalogId?: string | null;
-      defaultRestSeconds?: number | null;
-      sets?: Array<{ reps?: string | number; rest?: string | number; weight?: number | null }>;
-    }>;
+    startDate: string;
+    weekRows: Array<Record<string, unknown>>;
+    routineRows: Array<{ id: string } & Record<string, unknown>>;
   },
 ) {
-  const payload = {
-    pt_id: params.ptId,
-    client_id: params.clientId,
-    routine_name: params.name,
-  };
+  const { data, error } = await supabase.rpc("save_program", {
+    p_program_id: programId,
+    p_pt_id: ptId,
+    p_client_id: clientId,
+    p_name: values.name,
+    p_start_date: values.startDate,
+    p_weeks: values.weekRows,
+    p_routines: values.routineRows,
+  });
 
-  let routineId = params.routineId;
+  if (error) {
+    console.error("Save program error", error);
+    if (error.code === NOT_FOUND_ERROR_CODE) {
+      return { error: error.message, status: error.message === "Program not found" ? 404 : 400 };
+    }
+    // Another save put one of the routines in a different program first.
+    if (error.code === "23505") {
+      return { error: error.message, status: 409 };
+    }
+    return { error: "Failed to save program", status: 500 };
+  }
 
-  if (!routineId) {
-    const { data, error } = await supabase
-      .from("routines")
-      .insert(payload)
-      .select("id")
-      .single();
+  return { programId: data as string };
+}
 
-    if (error || !data) {
-      console.error("Failed to create routine", error);
-      throw new Error("Routine creation failed");
-    }
+async function hasActiveClient(ptId: string, clientId: string) {
+  const { data, error } = await supabase
+    .from("pt_clients")
+    .select("client_id")
+    .eq("pt_id", ptId)
+    .eq("client_id", clientId)
+    .eq("status", "active")
+    .maybeSingle();
 
-    routineId = data.id;
-  } else {
-    const { error } = await supabase
-      .from("routines")
-      .update(payload)
-      .eq("id", routineId)
-      .eq("pt_id", params.ptId);
+  return !error && Boolean(data);
+}
 
-    if (error) {
-      console.error("Failed to update routine", error);
-      throw new Error("Routine update failed");
-    }
+app.get("/make-server-d58ce8ef/pt/programs", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
 
-    await supabase.from("routine_exercises").delete().eq("routine_id", routineId);
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
   }
 
-  let position = 0;
-  for (const exercise of params.exercises) {
-    const exerciseId = await resolveExerciseCatalogId(params.ptId, exercise);
+  const clientId = c.req.query("clientId");
+  if (!clientId) {
+    return c.json({ error: "clientId query parameter is required" }, 400);
+  }
 
-    const { data: routineExercise, error } = await supabase
-      .from("routine_exercises")
-      .insert({
-        routine_id: routineId,
-        exercise_id: exerciseId,
-        position,
-        notes: exercise.notes ?? null,
-      })
-      .select("id")
-      .single();
+  if (!UUID_PATTERN.test(clientId) || !(await hasActiveClient(profile.id, clientId))) {
+    return c.json({ error: "Client not found" }, 404);
+  }
 
-    if (error || !routineExercise) {
-      console.error("Failed to insert routine exercise", error);
-      continue;
+  try {
+    const programs = await fetchClientPrograms(profile.id, clientId);
+    return c.json({ programs });
+  } catch (error) {
+    console.error("Programs error", error);
+    return c.json({ error: "Failed to load programs" }, 500);
+  }
+});
+
+app.post("/make-server-d58ce8ef/pt/programs", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const body = await c.req.json();
+    const clientId = typeof body.clientId === "string" ? body.clientId : "";
+    if (!UUID_PATTERN.test(clientId) || !(await hasActiveClient(profile.id, clientId))) {
+      return c.json({ error: "Client not found" }, 404);
     }
 
-    const sets = Array.isArray(exercise.sets) ? exercise.sets : [];
-    if (sets.length) {
-      const setsPayload = sets.map((set, index) => ({
-        routine_exercise_id: routineExercise.id,
-        set_number: index + 1,
-        target_rep_range: typeof set.reps === "string" && set.reps.includes("-") ? set.reps : null,
-        target_reps: typeof set.reps === "number" ? set.reps : Number(set.reps) || null,
-        target_rest_seconds: set.rest != null ? Number(set.rest) : null,
-        target_weight: set.weight ?? null,
-      }));
+    const parsed = parseProgramInput(body);
+    if (parsed.error) {
+      return c.json({ error: parsed.error }, 400);
+    }
 
-      const { error: setError } = await supabase
-        .from("routine_exercise_sets")
-        .insert(setsPayload);
+    const routineIds = parsed.values.routineRows.map((routine) => routine.id);
+    const routineProblem = await checkProgramRoutines(profile.id, clientId, routineIds, null);
+    if (routineProblem) {
+      return c.json({ error: routineProblem.error }, routineProblem.status);
+    }
 
-      if (setError) {
-        console.error("Failed to insert routine sets", setError);
-      }
+    const saved = await saveProgram(null, profile.id, clientId, parsed.values);
+    if (saved.error) {
+      return c.json({ error: saved.error }, saved.status);
     }
 
-    position += 1;
+    const programs = await fetchClientPrograms(profile.id, clientId);
+    return c.json({ program: programs.find((program) => program.id === saved.programId) ?? null }, 201);
+  } catch (error) {
+    console.error("Create program exception", error);
+    return c.json({ error: "Failed to save program" }, 500);
   }
+});
 
-  return routineId;
-}
-
-app.post("/make-server-d58ce8ef/pt/routine", async (c) => {
+app.put("/make-server-d58ce8ef/pt/programs/:programId", async (c) => {
+  const programId = c.req.param("programId");
   const context = await extractAuthContext(c);
   if (context.error) {
     return c.json({ error: context.error.message }, context.error.status);
@@ -1132,24 +4449,54 @@ app.post("/make-server-d58ce8ef/pt/routine", async (c) => {
     return c.json({ error: "Forbidden" }, 403);
   }
 
+  if (!UUID_PATTERN.test(programId)) {
+    return c.json({ error: "Program not found" }, 404);
+  }
+
   try {
-    const body = await c.req.json();
-    const routineId = await upsertRoutine({
-      ptId: profile.id,
-      clientId: body.clientId,
-      name: body.name,
-      exercises: body.exercises || [],
-    });
+    const parsed = parseProgramInput(await c.req.json());
+    if (parsed.error) {
+      return c.json({ error: parsed.error }, 400);
+    }
 
-    const routine = await fetchRoutineDetail(routineId, body.clientId);
-    return c.json({ routine });
+    const { data, error } = await supabase
+      .from("programs")
+      .select("id, client_id")
+      .eq("id", programId)
+      .eq("pt_id", profile.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Update program lookup error", error);
+      return c.json({ error: "Failed to save program" }, 500);
+    }
+
+    if (!data) {
+      return c.json({ error: "Program not found" }, 404);
+    }
+
+    const routineIds = parsed.values.routineRows.map((routine) => routine.id);
+    const routineProblem = await checkProgramRoutines(profile.id, data.client_id, routineIds, programId);
+    if (routineProblem) {
+      return c.json({ error: routineProblem.error }, routineProblem.status);
+    }
+
+    // Weeks and the routine schedule are replaced as a whole, as routines replace their exercises.
+    const saved = await saveProgram(programId, profile.id, data.client_id, parsed.values);
+    if (saved.error) {
+      return c.json({ error: saved.error }, saved.status);
+    }
+
+    const programs = await fetchClientPrograms(profile.id, data.client_id);
+    return c.json({ program: programs.find((program) => program.id === programId) ?? null });
   } catch (error) {
-    console.error("Create routine error", error);
-    return c.json({ error: "Failed to create routine" }, 500);
+    console.error("Update program exception", error);
+    return c.json({ error: "Failed to save program" }, 500);
   }
 });
 
-app.put("/make-server-d58ce8ef/pt/routine/:routineId", async (c) => {
+app.delete("/make-server-d58ce8ef/pt/programs/:programId", async (c) => {
+  const programId = c.req.param("programId");
   const context = await extractAuthContext(c);
   if (context.error) {
     return c.json({ error: context.error.message }, context.error.status);
@@ -1160,23 +4507,29 @@ app.put("/make-server-d58ce8ef/pt/routine/:routineId", async (c) => {
     return c.json({ error: "Forbidden" }, 403);
   }
 
-  try {
-    const body = await c.req.json();
-    const routineId = c.req.param("routineId");
+  if (!UUID_PATTERN.test(programId)) {
+    return c.json({ error: "Program not found" }, 404);
+  }
 
-    await upsertRoutine({
-      routineId,
-      ptId: profile.id,
-      clientId: body.clientId,
-      name: body.name,
-      exercises: body.exercises || [],
+  try {
+    // The routines stay with the client; they just stop following the program's weeks.
+    const { error } = await supabase.rpc("delete_program", {
+      p_program_id: programId,
+      p_pt_id: profile.id,
     });
 
-    const routine = await fetchRoutineDetail(routineId, body.clientId);
-    return c.json({ routine });
+    if (error) {
+      if (error.code === NOT_FOUND_ERROR_CODE) {
+        return c.json({ error: "Program not found" }, 404);
+      }
+      console.error("Delete program error", error);
+      return c.json({ error: "Failed to delete program" }, 500);
+    }
+
+    return c.json({ success: true });
   } catch (error) {
-    console.error("Update routine error", error);
-    return c.json({ error: "Failed to update routine" }, 500);
+    console.error("Delete program exception", error);
+    return c.json({ error: "Failed to delete program" }, 500);
   }
 });
 
@@ -1683,6 +5036,7 @@ app.get("/make-server-d58ce8ef/pt/exercises", async (c) => {
     defaultRestSeconds: row.default_rest_seconds,
     instructionNotes: row.instruction_notes,
     videoLink: row.video_link,
+    trackingMode: parseTrackingMode(row.tracking_mode),
     similarity: row.similarity_score,
   }));
 
@@ -1705,7 +5059,7 @@ app.get("/make-server-d58ce8ef/pt/exercises/:exerciseId", async (c) => {
   const { data, error } = await supabase
     .from("exercises_catalog")
     .select(
-      "id, name, primary_muscle_group, equipment_required, default_rest_seconds, instruction_notes, video_link"
+      "id, name, primary_muscle_group, equipment_required, default_rest_seconds, instruction_notes, video_link, tracking_mode"
     )
     .eq("id", exerciseId)
     .eq("pt_id", profile.id)
@@ -1725,6 +5079,7 @@ app.get("/make-server-d58ce8ef/pt/exercises/:exerciseId", async (c) => {
       defaultRestSeconds: data.default_rest_seconds,
       instructionNotes: data.instruction_notes,
       videoLink: data.video_link,
+      trackingMode: parseTrackingMode(data.tracking_mode),
     },
   });
 });
@@ -1782,6 +5137,12 @@ app.patch("/make-server-d58ce8ef/pt/exercises/:exerciseId", async (c) => {
     if (body.videoLink !== undefined) {
       updates.video_link = body.videoLink ? String(body.videoLink).trim() : null;
     }
+    if (body.trackingMode !== undefined) {
+      if (!TRACKING_MODES.includes(body.trackingMode)) {
+        return c.json({ error: "Unknown tracking mode." }, 400);
+      }
+      updates.tracking_mode = body.trackingMode;
+    }
 
     if (Object.keys(updates).length === 0) {
       return c.json({ error: "No updates provided" }, 400);
@@ -1793,7 +5154,7 @@ app.patch("/make-server-d58ce8ef/pt/exercises/:exerciseId", async (c) => {
       .eq("id", exerciseId)
       .eq("pt_id", profile.id)
       .select(
-        "id, name, primary_muscle_group, equipment_required, default_rest_seconds, instruction_notes, video_link"
+        "id, name, primary_muscle_group, equipment_required, default_rest_seconds, instruction_notes, video_link, tracking_mode"
       )
       .single();
 
@@ -1811,6 +5172,7 @@ app.patch("/make-server-d58ce8ef/pt/exercises/:exerciseId", async (c) => {
         defaultRestSeconds: data.default_rest_seconds,
         instructionNotes: data.instruction_notes,
         videoLink: data.video_link,
+        trackingMode: parseTrackingMode(data.tracking_mode),
       },
     });
   } catch (error) {
@@ -1819,6 +5181,288 @@ app.patch("/make-server-d58ce8ef/pt/exercises/:exerciseId", async (c) => {
   }
 });
 
+const YOUTUBE_VIDEO_ID_PATTERN = /^[\w-]{11}$/;
+const YOUTUBE_PLAYLIST_ID_PATTERN = /^[\w-]{10,64}$/;
+const YOUTUBE_CHANNEL_PATTERN = /^(UC[\w-]{22}|@[\w.-]{3,30})$/;
+
+function parseHttpUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Accepts either a pasted link or the bare YouTube id, and stores the id so
+// the same video can't be added twice under different URLs.
+function normalizeContentSourceIdentifier(sourceType: ContentSourceType, value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const url = parseHttpUrl(trimmed);
+  const host = url?.hostname.replace(/^(www|m|music)\./, "");
+  const isYouTube = host === "youtube.com" || host === "youtube-nocookie.com";
+
+  switch (sourceType) {
+    case "youtube_video": {
+      if (!url) return YOUTUBE_VIDEO_ID_PATTERN.test(trimmed) ? trimmed : null;
+      const id =
+        host === "youtu.be"
+          ? url.pathname.split("/")[1]
+          : isYouTube
+            ? url.searchParams.get("v") ?? url.pathname.match(/^\/(?:embed|shorts|live)\/([^/]+)/)?.[1]
+            : null;
+      return id && YOUTUBE_VIDEO_ID_PATTERN.test(id) ? id : null;
+    }
+    case "youtube_playlist": {
+      const id = url ? (isYouTube ? url.searchParams.get("list") : null) : trimmed;
+      return id && YOUTUBE_PLAYLIST_ID_PATTERN.test(id) ? id : null;
+    }
+    case "youtube_channel": {
+      if (!url) return YOUTUBE_CHANNEL_PATTERN.test(trimmed) ? trimmed : null;
+      if (!isYouTube) return null;
+      const match = url.pathname.match(/^\/(?:channel\/)?([^/]+)/)?.[1];
+      return match && YOUTUBE_CHANNEL_PATTERN.test(match) ? match : null;
+    }
+    default:
+      return url ? url.toString() : null;
+  }
+}
+
+function getContentSourceUrl(sourceType: ContentSourceType, identifier: string) {
+  switch (sourceType) {
+    case "youtube_video":
+      return `https://www.youtube.com/watch?v=${identifier}`;
+    case "youtube_playlist":
+      return `https://www.youtube.com/playlist?list=${identifier}`;
+    case "youtube_channel":
+      return identifier.startsWith("@")
+        ? `https://www.youtube.com/${identifier}`
+        : `https://www.youtube.com/channel/${identifier}`;
+    default:
+      return identifier;
+  }
+}
+
+function getDefaultThumbnailUrl(sourceType: ContentSourceType, identifier: string) {
+  return sourceType === "youtube_video" ? `https://img.youtube.com/vi/${identifier}/hqdefault.jpg` : null;
+}
+
+function mapContentSource(row: any) {
+  return {
+    id: row.id,
+    sourceType: row.source_type as ContentSourceType,
+    identifier: row.source_identifier,
+    url: getContentSourceUrl(row.source_type, row.source_identifier),
+    title: row.title,
+    thumbnailUrl: row.thumbnail_url ?? getDefaultThumbnailUrl(row.source_type, row.source_identifier),
+    isActive: Boolean(row.is_active),
+  };
+}
+
+function parseContentSourceDetails(body: any) {
+  const values: Record<string, any> = {};
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === "string" ? normalizeSpaces(body.title) : "";
+    if (title.length > 120) {
+      return { error: "Keep the title to 120 characters or fewer." };
+    }
+    values.title = title || null;
+  }
+  if (body.thumbnailUrl !== undefined) {
+    const thumbnailUrl = typeof body.thumbnailUrl === "string" ? body.thumbnailUrl.trim() : "";
+    if (thumbnailUrl && !parseHttpUrl(thumbnailUrl)) {
+      return { error: "Thumbnail must be an http(s) link." };
+    }
+    values.thumbnail_url = thumbnailUrl || null;
+  }
+  if (body.isActive !== undefined) {
+    values.is_active = Boolean(body.isActive);
+  }
+
+  return { values };
+}
+
+app.get("/make-server-d58ce8ef/pt/content-sources", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("pt_content_sources")
+      .select("*")
+      .eq("pt_id", profile.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Content sources fetch error", error);
+      return c.json({ error: "Failed to load content sources" }, 500);
+    }
+
+    return c.json({ contentSources: (data || []).map(mapContentSource) });
+  } catch (error) {
+    console.error("Content sources fetch exception", error);
+    return c.json({ error: "Failed to load content sources" }, 500);
+  }
+});
+
+app.post("/make-server-d58ce8ef/pt/content-sources", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const body = await c.req.json();
+    const sourceType = body.sourceType as ContentSourceType;
+    if (!CONTENT_SOURCE_TYPES.includes(sourceType)) {
+      return c.json({ error: "Unknown content source type" }, 400);
+    }
+
+    const identifier = normalizeContentSourceIdentifier(
+      sourceType,
+      typeof body.identifier === "string" ? body.identifier : "",
+    );
+    if (!identifier) {
+      return c.json(
+        {
+          error: sourceType.startsWith("youtube_")
+            ? "That doesn't look like a YouTube link of the chosen kind."
+            : "Enter a full http(s) link.",
+        },
+        400,
+      );
+    }
+
+    const parsed = parseContentSourceDetails(body);
+    if (parsed.error) {
+      return c.json({ error: parsed.error }, 400);
+    }
+
+    const { data, error } = await supabase
+      .from("pt_content_sources")
+      .insert({
+        ...parsed.values,
+        pt_id: profile.id,
+        source_type: sourceType,
+        source_identifier: identifier,
+      })
+      .select("*")
+      .single();
+
+    if (error?.code === "23505") {
+      return c.json({ error: "That content is already in your list." }, 409);
+    }
+    if (error || !data) {
+      console.error("Create content source error", error);
+      return c.json({ error: "Failed to save content source" }, 500);
+    }
+
+    return c.json({ contentSource: mapContentSource(data) }, 201);
+  } catch (error) {
+    console.error("Create content source exception", error);
+    return c.json({ error: "Failed to save content source" }, 500);
+  }
+});
+
+app.patch("/make-server-d58ce8ef/pt/content-sources/:sourceId", async (c) => {
+  const sourceId = c.req.param("sourceId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  if (!UUID_PATTERN.test(sourceId)) {
+    return c.json({ error: "Content source not found" }, 404);
+  }
+
+  try {
+    const parsed = parseContentSourceDetails(await c.req.json());
+    if (parsed.error) {
+      return c.json({ error: parsed.error }, 400);
+    }
+    if (!Object.keys(parsed.values).length) {
+      return c.json({ error: "No updates provided" }, 400);
+    }
+
+    const { data, error } = await supabase
+      .from("pt_content_sources")
+      .update(parsed.values)
+      .eq("id", sourceId)
+      .eq("pt_id", profile.id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Update content source error", error);
+      return c.json({ error: "Failed to save content source" }, 500);
+    }
+
+    if (!data) {
+      return c.json({ error: "Content source not found" }, 404);
+    }
+
+    return c.json({ contentSource: mapContentSource(data) });
+  } catch (error) {
+    console.error("Update content source exception", error);
+    return c.json({ error: "Failed to save content source" }, 500);
+  }
+});
+
+app.delete("/make-server-d58ce8ef/pt/content-sources/:sourceId", async (c) => {
+  const sourceId = c.req.param("sourceId");
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  if (!UUID_PATTERN.test(sourceId)) {
+    return c.json({ error: "Content source not found" }, 404);
+  }
+
+  try {
+    const { error } = await supabase
+      .from("pt_content_sources")
+      .delete()
+      .eq("id", sourceId)
+      .eq("pt_id", profile.id);
+
+    if (error) {
+      console.error("Delete content source error", error);
+      return c.json({ error: "Failed to delete content source" }, 500);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Delete content source exception", error);
+    return c.json({ error: "Failed to delete content source" }, 500);
+  }
+});
+
 app.get("/make-server-d58ce8ef/pt/notifications", async (c) => {
   const context = await extractAuthContext(c);
   if (context.error) {
@@ -2210,4 +5854,88 @@ app.patch("/make-server-d58ce8ef/pt/profile", async (c) => {
   }
 });
 
+app.get("/make-server-d58ce8ef/pt/progression-settings", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const settings = await fetchProgressionSettings(profile.id);
+    return c.json({ settings });
+  } catch (error) {
+    console.error("Progression settings lookup error", error);
+    return c.json({ error: "Failed to load progression settings" }, 500);
+  }
+});
+
+app.put("/make-server-d58ce8ef/pt/progression-settings", async (c) => {
+  const context = await extractAuthContext(c);
+  if (context.error) {
+    return c.json({ error: context.error.message }, context.error.status);
+  }
+
+  const { profile } = context;
+  if (profile.role !== "pt") {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const body = await c.req.json();
+    const strategy = body.strategy;
+    const weightIncrement = Number(body.weightIncrement);
+    const maxRpe = Number(body.maxRpe);
+
+    if (!PROGRESSION_STRATEGIES.includes(strategy)) {
+      return c.json({ error: "Unknown progression strategy" }, 400);
+    }
+
+    if (!Number.isFinite(weightIncrement) || weightIncrement <= 0 || weightIncrement > 100) {
+      return c.json({ error: "Weight increment must be greater than 0 and at most 100." }, 400);
+    }
+
+    if (!Number.isFinite(maxRpe) || maxRpe < 1 || maxRpe > 10) {
+      return c.json({ error: "RPE ceiling must be between 1 and 10." }, 400);
+    }
+
+    const { data, error } = await supabase
+      .from("pt_progression_settings")
+      .upsert(
+        {
+          pt_id: profile.id,
+          strategy,
+          weight_increment: weightIncrement,
+          max_rpe: maxRpe,
+        },
+        { onConflict: "pt_id" },
+      )
+      .select("strategy, weight_increment, max_rpe")
+      .single();
+
+    if (error) {
+      console.error("Save progression settings error", error);
+      if (INVALID_INPUT_ERROR_CODES.includes(error.code ?? "")) {
+        return c.json({ error: "Invalid progression settings" }, 400);
+      }
+      return c.json({ error: "Failed to save progression settings" }, 500);
+    }
+
+    return c.json({
+      settings: {
+        strategy: data.strategy,
+        weightIncrement: Number(data.weight_increment),
+        maxRpe: Number(data.max_rpe),
+      },
+    });
+  } catch (error) {
+    console.error("Progression settings update exception", error);
+    return c.json({ error: "Failed to save progression settings" }, 500);
+  }
+});
+
 Deno.serve(app.fetch);
\ No newline at end of file
@@ -0,0 +1,63 @@
+// Mirrors the content_source_type enum on pt_content_sources.
+export type ContentSourceType = 'youtube_video' | 'youtube_playlist' | 'youtube_channel' | 'article' | 'custom';
+
+export const CONTENT_SOURCE_TYPES: ContentSourceType[] = [
+  'youtube_video',
+  'youtube_playlist',
+  'youtube_channel',
+  'article',
+  'custom',
+];
+
+export const CONTENT_SOURCE_LABELS: Record<ContentSourceType, string> = {
+  youtube_video: 'YouTube video',
+  youtube_playlist: 'YouTube playlist',
+  youtube_channel: 'YouTube channel',
+  article: 'Article',
+  custom: 'Other link',
+};
+
+export const CONTENT_SOURCE_PLACEHOLDERS: Record<ContentSourceType, string> = {
+  youtube_video: 'https://youtu.be/...',
+  youtube_playlist: 'https://www.youtube.com/playlist?list=...',
+  youtube_channel: 'https://www.youtube.com/@...',
+  article: 'https://...',
+  custom: 'https://...',
+};
+
+/**
+ * A PT-curated item shown in the rest hub. YouTube sources are stored by id,
+ * so `identifier` is a video, playlist or channel id there and a full link
+ * otherwise; `url` is always something that can be opened.
+ */
+export interface ContentSource {
+  id: string;
+  sourceType: ContentSourceType;
+  identifier: string;
+  url: string;
+  title: string | null;
+  thumbnailUrl: string | null;
+  isActive: boolean;
+}
+
+// Channels can't be embedded, so they open on YouTube like any other link.
+export const getContentEmbedUrl = (source: Pick<ContentSource, 'sourceType' | 'identifier'>) => {
+  switch (source.sourceType) {
+    case 'youtube_video':
+      return `https://www.youtube-nocookie.com/embed/${source.identifier}?rel=0`;
+    case 'youtube_playlist':
+      return `https://www.youtube-nocookie.com/embed/videoseries?list=${source.identifier}&rel=0`;
+    default:
+      return null;
+  }
+};
+
+export const getContentSourceTitle = (source: Pick<ContentSource, 'sourceType' | 'title' | 'url'>) => {
+  if (source.title) return source.title;
+  if (source.sourceType.startsWith('youtube_')) return CONTENT_SOURCE_LABELS[source.sourceType];
+  try {
+    return new URL(source.url).hostname.replace(/^www\./, '');
+  } catch {
+    return source.url;
+  }
+};
@@ -0,0 +1,18 @@
+// Mirrors the kind check on routine_exercise_groups.
+export type ExerciseGroupKind = 'superset' | 'giant_set' | 'circuit';
+
+export const EXERCISE_GROUP_KINDS: ExerciseGroupKind[] = ['superset', 'giant_set', 'circuit'];
+
+export const EXERCISE_GROUP_LABELS: Record<ExerciseGroupKind, string> = {
+  superset: 'Superset',
+  giant_set: 'Giant set',
+  circuit: 'Circuit',
+};
+
+export interface ExerciseGroup {
+  id: string;
+  kind: ExerciseGroupKind;
+  rounds: number;
+  // Taken once every exercise in the round is done.
+  restSeconds: number | null;
+}
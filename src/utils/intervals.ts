@@ -0,0 +1,113 @@
+import { formatDuration } from './tracking';
+
+// Mirrors the kind check on routine_interval_blocks.
+export type IntervalKind = 'emom' | 'amrap' | 'tabata' | 'custom';
+
+export const INTERVAL_KINDS: IntervalKind[] = ['emom', 'amrap', 'tabata', 'custom'];
+
+export const INTERVAL_KIND_LABELS: Record<IntervalKind, string> = {
+  emom: 'EMOM',
+  amrap: 'AMRAP',
+  tabata: 'Tabata',
+  custom: 'Custom intervals',
+};
+
+export interface IntervalStep {
+  label: string;
+  seconds: number;
+  phase: 'work' | 'rest';
+}
+
+/**
+ * A timed conditioning block. How rounds and the work/rest lengths are read
+ * depends on the kind: an EMOM runs `rounds` intervals of `workSeconds`, an
+ * AMRAP is a single `workSeconds` time cap, Tabata alternates work and rest
+ * `rounds` times, and a custom block repeats `intervals` `rounds` times.
+ */
+export interface IntervalBlock {
+  id: string;
+  kind: IntervalKind;
+  name: string | null;
+  notes: string | null;
+  rounds: number;
+  workSeconds: number | null;
+  restSeconds: number | null;
+  intervals: IntervalStep[];
+}
+
+export interface IntervalPhase extends IntervalStep {
+  round: number;
+}
+
+export interface IntervalResult {
+  roundsCompleted: number;
+  extraReps: number | null;
+  durationSeconds: number;
+}
+
+export const INTERVAL_DEFAULTS: Record<IntervalKind, Pick<IntervalBlock, 'rounds' | 'workSeconds' | 'restSeconds' | 'intervals'>> = {
+  emom: { rounds: 10, workSeconds: 60, restSeconds: null, intervals: [] },
+  amrap: { rounds: 1, workSeconds: 600, restSeconds: null, intervals: [] },
+  tabata: { rounds: 8, workSeconds: 20, restSeconds: 10, intervals: [] },
+  custom: {
+    rounds: 3,
+    workSeconds: null,
+    restSeconds: null,
+    intervals: [
+      { label: 'Work', seconds: 40, phase: 'work' },
+      { label: 'Rest', seconds: 20, phase: 'rest' },
+    ],
+  },
+};
+
+const repeatRounds = (rounds: number, build: (round: number) => IntervalStep[]): IntervalPhase[] =>
+  Array.from({ length: Math.max(1, rounds) }, (_, i) => build(i + 1).map((step) => ({ ...step, round: i + 1 }))).flat();
+
+/** The timeline the interval timer runs through, one entry per work or rest period. */
+export const buildIntervalPhases = (block: IntervalBlock): IntervalPhase[] => {
+  const workSeconds = block.workSeconds ?? INTERVAL_DEFAULTS[block.kind].workSeconds ?? 60;
+  switch (block.kind) {
+    case 'emom':
+      return repeatRounds(block.rounds, (round) => [{ label: `Minute ${round}`, seconds: workSeconds, phase: 'work' }]);
+    case 'amrap':
+      return [{ label: 'As many rounds as possible', seconds: workSeconds, phase: 'work', round: 1 }];
+    case 'tabata': {
+      const restSeconds = block.restSeconds ?? 10;
+      const phases = repeatRounds(block.rounds, () => [
+        { label: 'Work', seconds: workSeconds, phase: 'work' },
+        { label: 'Rest', seconds: restSeconds, phase: 'rest' },
+      ]);
+      // The block ends on the last work period rather than a rest.
+      return phases.slice(0, -1).filter((phase) => phase.seconds > 0);
+    }
+    case 'custom':
+      return repeatRounds(block.rounds, () =>
+        block.intervals
+          .filter((step) => step.seconds > 0)
+          .map((step) => ({ ...step, label: step.label || (step.phase === 'work' ? 'Work' : 'Rest') }))
+      );
+  }
+};
+
+export const describeIntervalBlock = (block: IntervalBlock) => {
+  const workSeconds = block.workSeconds ?? INTERVAL_DEFAULTS[block.kind].workSeconds ?? 60;
+  switch (block.kind) {
+    case 'emom':
+      return workSeconds === 60
+        ? `EMOM · ${block.rounds} min`
+        : `Every ${formatDuration(workSeconds)} × ${block.rounds}`;
+    case 'amrap':
+      return `AMRAP · ${formatDuration(workSeconds)}`;
+    case 'tabata':
+      return `Tabata · ${block.rounds} × ${workSeconds}s on / ${block.restSeconds ?? 10}s off`;
+    case 'custom': {
+      const roundSeconds = block.intervals.reduce((total, step) => total + step.seconds, 0);
+      return `${block.rounds} × ${formatDuration(roundSeconds)} intervals`;
+    }
+  }
+};
+
+export const formatIntervalResult = (kind: IntervalKind, result: Pick<IntervalResult, 'roundsCompleted' | 'extraReps'>) => {
+  const rounds = `${result.roundsCompleted} ${result.roundsCompleted === 1 ? 'round' : 'rounds'}`;
+  return kind === 'amrap' && result.extraReps ? `${rounds} + ${result.extraReps} reps` : rounds;
+};
@@ -0,0 +1,107 @@
+import { poundsToUnit, unitToPounds, WEIGHT_STEP, WeightUnit } from './units';
+
+export interface GymSetup {
+  id: string | null;
+  name: string;
+  unit: WeightUnit;
+  barWeight: number;
+  // Plate sizes available, heaviest first. Plates are assumed to come in pairs.
+  plates: number[];
+  isDefault: boolean;
+}
+
+export interface PlateBreakdown {
+  perSide: number[];
+  loadedWeight: number;
+  targetWeight: number;
+}
+
+// Used until a client saves a setup of their own.
+export const STANDARD_GYM_SETUPS: Record<WeightUnit, GymSetup> = {
+  kg: {
+    id: null,
+    name: 'Standard kg plates',
+    unit: 'kg',
+    barWeight: 20,
+    plates: [25, 20, 15, 10, 5, 2.5, 1.25],
+    isDefault: false,
+  },
+  lb: {
+    id: null,
+    name: 'Standard lb plates',
+    unit: 'lb',
+    barWeight: 45,
+    plates: [45, 35, 25, 10, 5, 2.5],
+    isDefault: false,
+  },
+};
+
+const WARMUP_RAMP = [
+  { percent: 0.4, reps: 5 },
+  { percent: 0.6, reps: 3 },
+  { percent: 0.8, reps: 2 },
+];
+
+export const isBarbellExercise = (exercise: { equipmentRequired?: string | null } | null | undefined) =>
+  /barbell/i.test(exercise?.equipmentRequired ?? '');
+
+/**
+ * Loads the heaviest plates first without going over the target. Values are
+ * in the gym's unit; the target is passed in pounds like every stored weight.
+ */
+export const calculatePlates = (targetPounds: number, setup: GymSetup): PlateBreakdown => {
+  const target = poundsToUnit(targetPounds, setup.unit);
+  // Hundredths keep 1.25 plates from drifting in floating point.
+  let remaining = Math.round(((target - setup.barWeight) / 2) * 100);
+  const perSide: number[] = [];
+
+  [...setup.plates]
+    .sort((a, b) => b - a)
+    .forEach((plate) => {
+      const size = Math.round(plate * 100);
+      while (size > 0 && remaining >= size) {
+        perSide.push(plate);
+        remaining -= size;
+      }
+    });
+
+  const loadedWeight = setup.barWeight + 2 * perSide.reduce((total, plate) => total + plate, 0);
+  return {
+    perSide,
+    loadedWeight: Math.round(loadedWeight * 100) / 100,
+    targetWeight: Math.round(target * 100) / 100,
+  };
+};
+
+/**
+ * Builds a warm-up ramp towards the working weight: the empty bar, then
+ * roughly 40/60/80% of the working weight. Barbell steps are rounded down to
+ * what the plates can load; anything else is rounded to a normal weight step.
+ * Returns weights in pounds.
+ */
+export const generateWarmupSets = (workingPounds: number, setup: GymSetup | null, unit: WeightUnit) => {
+  const steps: Array<{ reps: number; weight: number }> = [];
+
+  if (setup) {
+    const barPounds = unitToPounds(setup.barWeight, setup.unit);
+    if (workingPounds <= barPounds) {
+      return steps;
+    }
+    steps.push({ reps: 10, weight: barPounds });
+  }
+
+  WARMUP_RAMP.forEach(({ percent, reps }) => {
+    const weight = setup
+      ? unitToPounds(calculatePlates(workingPounds * percent, setup).loadedWeight, setup.unit)
+      : unitToPounds(
+          Math.floor(poundsToUnit(workingPounds * percent, unit) / WEIGHT_STEP[unit]) * WEIGHT_STEP[unit],
+          unit
+        );
+    const previous = steps[steps.length - 1];
+    if (weight > 0 && weight < workingPounds && (!previous || weight > previous.weight)) {
+      steps.push({ reps, weight });
+    }
+  });
+
+  return steps;
+};
@@ -0,0 +1,32 @@
+// Each tempo phase is whole seconds, or X to move through it explosively.
+const TEMPO_PHASE = /^([0-9]{1,2}|X)$/;
+
+/** Accepts "3-1-1-0", "3110" or "31X0". Returns the dashed form, or null when unreadable. */
+export const parseTempo = (value: string): string | null => {
+  const compact = value.trim().toUpperCase().replace(/\s+/g, '');
+  const phases = compact.includes('-') ? compact.split('-') : compact.split('');
+  return phases.length === 4 && phases.every((phase) => TEMPO_PHASE.test(phase)) ? phases.join('-') : null;
+};
+
+interface SetTargets {
+  targetWeight?: number | null;
+  // Worked out by the server from percentOneRepMax and the client's estimated max.
+  resolvedTargetWeight?: number | null;
+  tempo?: string | null;
+  targetRir?: number | null;
+  targetRpe?: number | null;
+  percentOneRepMax?: number | null;
+}
+
+// A %1RM target wins over a fixed weight once the client has an estimated max.
+export const getTargetWeight = (set: SetTargets | null | undefined) =>
+  set?.resolvedTargetWeight ?? set?.targetWeight ?? null;
+
+export const describeSetTargets = (set: SetTargets) => {
+  const targets: string[] = [];
+  if (set.percentOneRepMax != null) targets.push(`${set.percentOneRepMax}% 1RM`);
+  if (set.tempo) targets.push(`Tempo ${set.tempo}`);
+  if (set.targetRir != null) targets.push(`${set.targetRir} RIR`);
+  if (set.targetRpe != null) targets.push(`RPE ${set.targetRpe}`);
+  return targets;
+};
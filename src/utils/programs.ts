@@ -0,0 +1,51 @@
+/**
+ * One week of a periodised program. Load scales each set's target weight,
+ * and the set and rep adjustments are added to what the routine prescribes.
+ */
+export interface ProgramWeek {
+  weekNumber: number;
+  phaseName: string | null;
+  isDeload: boolean;
+  loadPercent: number;
+  setAdjustment: number;
+  repAdjustment: number;
+}
+
+// Where a client is in their current program, as worked out by the server from today's date.
+export interface ProgramStatus {
+  id: string;
+  name: string;
+  startDate: string;
+  weekCount: number;
+  week: number;
+  day: number;
+  dayCount: number;
+  currentWeek: ProgramWeek;
+}
+
+// A routine's place in a program: which training day it is, and the weeks it runs for.
+export interface ProgramRoutineSlot {
+  routineId: string;
+  day: number;
+  startWeek: number;
+  endWeek: number;
+}
+
+export interface Program {
+  id: string;
+  name: string;
+  startDate: string;
+  weeks: ProgramWeek[];
+  routines: ProgramRoutineSlot[];
+}
+
+export const formatProgramPosition = (program: Pick<ProgramStatus, 'week' | 'day' | 'dayCount'>) =>
+  program.dayCount > 0 ? `Week ${program.week}, Day ${program.day}` : `Week ${program.week}`;
+
+export const describeProgramWeek = (week: ProgramWeek) => {
+  const parts: string[] = [];
+  if (week.loadPercent !== 100) parts.push(`${week.loadPercent}% load`);
+  if (week.setAdjustment) parts.push(`${week.setAdjustment > 0 ? '+' : ''}${week.setAdjustment} sets`);
+  if (week.repAdjustment) parts.push(`${week.repAdjustment > 0 ? '+' : ''}${week.repAdjustment} reps`);
+  return parts.join(' · ');
+};
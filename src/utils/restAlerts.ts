@@ -0,0 +1,100 @@
+// Signals the end of a rest period with a beep, a vibration and, when the app
+// is in the background, a system notification. Browsers only allow audio and
+// notification prompts after a tap, so primeRestAlerts is called from one.
+//
+// The alert is raised by the page's own timer. A locked phone suspends the page,
+// so the alert arrives when the app is next opened rather than on the lock screen;
+// RestTimer tells the client to keep the screen on.
+
+const REST_ALERT_WORKER_URL = '/rest-alert-sw.js';
+
+let audioContext: AudioContext | null = null;
+let workerRegistration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+// Mobile browsers only show notifications through a service worker.
+const registerAlertWorker = () => {
+  if (!workerRegistration) {
+    workerRegistration = navigator.serviceWorker
+      ? navigator.serviceWorker.register(REST_ALERT_WORKER_URL).catch((error) => {
+          console.error('Failed to register rest alert worker', error);
+          return null;
+        })
+      : Promise.resolve(null);
+  }
+  return workerRegistration;
+};
+
+export const primeRestAlerts = () => {
+  try {
+    if (typeof window === 'undefined') return;
+
+    const AudioContextClass = window.AudioContext ?? (window as any).webkitAudioContext;
+    if (!audioContext && AudioContextClass) {
+      audioContext = new AudioContextClass();
+    }
+    if (audioContext?.state === 'suspended') {
+      void audioContext.resume();
+    }
+
+    if ('Notification' in window) {
+      void registerAlertWorker();
+      if (Notification.permission === 'default') {
+        void Notification.requestPermission();
+      }
+    }
+  } catch (error) {
+    console.error('Failed to prepare rest alerts', error);
+  }
+};
+
+// Short tones, loud enough to hear across the gym floor.
+const playBeeps = (count: number) => {
+  if (!audioContext) return;
+
+  Array.from({ length: count }, (_, i) => i * 0.3).forEach((offset) => {
+    const oscillator = audioContext!.createOscillator();
+    const gain = audioContext!.createGain();
+    const startAt = audioContext!.currentTime + offset;
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.4, startAt);
+    gain.gain.exponentialRampToValueAtTime(0.001, startAt + 0.2);
+    oscillator.connect(gain);
+    gain.connect(audioContext!.destination);
+    oscillator.start(startAt);
+    oscillator.stop(startAt + 0.2);
+  });
+};
+
+const showNotification = async () => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const options: NotificationOptions = { body: 'Time for your next set.', tag: 'rest-timer' };
+  const registration = await registerAlertWorker();
+  if (registration) {
+    await registration.showNotification('Rest over', options);
+  } else {
+    new Notification('Rest over', options);
+  }
+};
+
+export const alertRestOver = () => {
+  try {
+    playBeeps(3);
+    navigator.vibrate?.([200, 100, 200]);
+    if (document.visibilityState === 'hidden') {
+      void showNotification().catch((error) => console.error('Failed to show rest notification', error));
+    }
+  } catch (error) {
+    console.error('Failed to signal end of rest', error);
+  }
+};
+
+// Interval timers cue each change between work and rest, and the end of the block.
+export const playIntervalCue = (final = false) => {
+  try {
+    playBeeps(final ? 3 : 1);
+    navigator.vibrate?.(final ? [200, 100, 200] : 150);
+  } catch (error) {
+    console.error('Failed to signal interval change', error);
+  }
+};
@@ -0,0 +1,146 @@
+import { describeIntervalBlock, IntervalBlock } from './intervals';
+import { describeSetTargets } from './prescription';
+import { SET_TYPE_LABELS, SetType } from './setTypes';
+import { formatDuration } from './tracking';
+import { formatDistance, formatWeight, WeightUnit } from './units';
+
+export interface RoutineVersionSummary {
+  id: string;
+  versionNumber: number;
+  createdAt: string;
+  restoredFromVersionNumber: number | null;
+  isCurrent: boolean;
+  sessionCount: number;
+}
+
+interface SnapshotSet {
+  reps: string;
+  rest: string;
+  targetWeight: number | null;
+  targetDurationSeconds: number | null;
+  targetDistanceMeters: number | null;
+  setType: SetType;
+  tempo: string | null;
+  targetRir: number | null;
+  targetRpe: number | null;
+  percentOneRepMax: number | null;
+}
+
+interface SnapshotExercise {
+  exerciseId: string;
+  groupId: string | null;
+  name: string;
+  notes: string | null;
+  sets: SnapshotSet[];
+}
+
+// A routine as it was saved: what was prescribed, not when it runs.
+export interface RoutineSnapshot {
+  name: string;
+  groups: Array<{ id: string; kind: string; rounds: number }>;
+  intervalBlocks: IntervalBlock[];
+  exercises: SnapshotExercise[];
+}
+
+export interface RoutineChange {
+  kind: 'added' | 'removed' | 'changed';
+  text: string;
+}
+
+const describeSnapshotSet = (set: SnapshotSet, unit: WeightUnit) => {
+  const parts: string[] = [];
+  if (set.setType !== 'working') parts.push(SET_TYPE_LABELS[set.setType]);
+  if (set.reps) parts.push(`${set.reps} reps`);
+  if (set.targetWeight != null) parts.push(formatWeight(set.targetWeight, unit));
+  if (set.targetDurationSeconds != null) parts.push(formatDuration(set.targetDurationSeconds));
+  if (set.targetDistanceMeters != null) parts.push(formatDistance(set.targetDistanceMeters, unit));
+  parts.push(...describeSetTargets(set));
+  if (set.rest) parts.push(`${set.rest}s rest`);
+  return parts.join(' · ') || 'No targets';
+};
+
+// Exercises are matched by catalog exercise, in order, so the same lift twice still pairs up.
+const pairExercises = (before: SnapshotExercise[], after: SnapshotExercise[]) => {
+  const unmatched = [...before];
+  const pairs = after.map((exercise) => {
+    const index = unmatched.findIndex((entry) => entry.exerciseId === exercise.exerciseId);
+    return { before: index >= 0 ? unmatched.splice(index, 1)[0] : null, after: exercise };
+  });
+  return { pairs, removed: unmatched };
+};
+
+/** What changed going from one version of a routine to another, in the order the routine reads. */
+export const diffRoutineSnapshots = (
+  before: RoutineSnapshot,
+  after: RoutineSnapshot,
+  unit: WeightUnit,
+): RoutineChange[] => {
+  const changes: RoutineChange[] = [];
+  if (before.name !== after.name) {
+    changes.push({ kind: 'changed', text: `Renamed from "${before.name}" to "${after.name}"` });
+  }
+
+  const { pairs, removed } = pairExercises(before.exercises, after.exercises);
+  removed.forEach((exercise) => changes.push({ kind: 'removed', text: exercise.name }));
+
+  pairs.forEach(({ before: previous, after: exercise }) => {
+    if (!previous) {
+      changes.push({
+        kind: 'added',
+        text: `${exercise.name} (${exercise.sets.length} ${exercise.sets.length === 1 ? 'set' : 'sets'})`,
+      });
+      return;
+    }
+
+    const setCount = Math.max(previous.sets.length, exercise.sets.length);
+    for (let index = 0; index < setCount; index += 1) {
+      const oldSet = previous.sets[index];
+      const newSet = exercise.sets[index];
+      const label = `${exercise.name}, set ${index + 1}`;
+      if (!oldSet) {
+        changes.push({ kind: 'added', text: `${label}: ${describeSnapshotSet(newSet, unit)}` });
+      } else if (!newSet) {
+        changes.push({ kind: 'removed', text: `${label}: ${describeSnapshotSet(oldSet, unit)}` });
+      } else {
+        const oldText = describeSnapshotSet(oldSet, unit);
+        const newText = describeSnapshotSet(newSet, unit);
+        if (oldText !== newText) {
+          changes.push({ kind: 'changed', text: `${label}: ${oldText} → ${newText}` });
+        }
+      }
+    }
+
+    if ((previous.notes ?? '') !== (exercise.notes ?? '')) {
+      changes.push({ kind: 'changed', text: `${exercise.name}: notes updated` });
+    }
+    if (Boolean(previous.groupId) !== Boolean(exercise.groupId)) {
+      changes.push({
+        kind: 'changed',
+        text: `${exercise.name}: ${exercise.groupId ? 'now grouped with other exercises' : 'no longer grouped'}`,
+      });
+    }
+  });
+
+  const beforeOrder = pairs.filter((pair) => pair.before).map((pair) => before.exercises.indexOf(pair.before!));
+  if (beforeOrder.some((position, index) => index > 0 && position < beforeOrder[index - 1])) {
+    changes.push({ kind: 'changed', text: 'Exercises reordered' });
+  }
+
+  const blockCount = Math.max(before.intervalBlocks.length, after.intervalBlocks.length);
+  for (let index = 0; index < blockCount; index += 1) {
+    const oldBlock = before.intervalBlocks[index];
+    const newBlock = after.intervalBlocks[index];
+    if (!oldBlock) {
+      changes.push({ kind: 'added', text: `Finisher: ${describeIntervalBlock(newBlock)}` });
+    } else if (!newBlock) {
+      changes.push({ kind: 'removed', text: `Finisher: ${describeIntervalBlock(oldBlock)}` });
+    } else if (describeIntervalBlock(oldBlock) !== describeIntervalBlock(newBlock) || oldBlock.notes !== newBlock.notes) {
+      changes.push({
+        kind: 'changed',
+        text: `Finisher: ${describeIntervalBlock(oldBlock)} → ${describeIntervalBlock(newBlock)}`,
+      });
+    }
+  }
+
+  return changes;
+};
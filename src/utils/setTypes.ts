@@ -0,0 +1,40 @@
+// Mirrors the set_type check constraint on routine_exercise_sets and session_log_sets.
+export type SetType = 'working' | 'warmup' | 'drop' | 'amrap' | 'failure' | 'rest_pause';
+
+export const SET_TYPES: SetType[] = ['working', 'warmup', 'drop', 'amrap', 'failure', 'rest_pause'];
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  working: 'Working',
+  warmup: 'Warm-up',
+  drop: 'Drop set',
+  amrap: 'AMRAP',
+  failure: 'To failure',
+  rest_pause: 'Rest-pause',
+};
+
+// Shown in place of the set number. Working sets keep their number.
+export const SET_TYPE_MARKERS: Record<Exclude<SetType, 'working'>, string> = {
+  warmup: 'W',
+  drop: 'D',
+  amrap: 'A',
+  failure: 'F',
+  rest_pause: 'RP',
+};
+
+export const SET_TYPE_COLORS: Record<SetType, string> = {
+  working: 'text-muted-foreground',
+  warmup: 'text-warning',
+  drop: 'text-accent',
+  amrap: 'text-accent',
+  failure: 'text-destructive',
+  rest_pause: 'text-accent',
+};
+
+// Sets saved before set types existed have no type; they are working sets.
+export const getSetType = (set: { setType?: SetType | null } | null | undefined): SetType =>
+  set?.setType ?? 'working';
+
+export const isWarmupSet = (set: { setType?: SetType | null } | null | undefined) => getSetType(set) === 'warmup';
+
+export const formatSetMarker = (setType: SetType, setNumber: number) =>
+  setType === 'working' ? `#${setNumber}` : SET_TYPE_MARKERS[setType];
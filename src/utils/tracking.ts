@@ -0,0 +1,85 @@
+import { formatDistance, formatWeight, WeightUnit } from './units';
+
+// Mirrors the tracking_mode check on exercises_catalog.
+export type TrackingMode = 'weight_reps' | 'reps' | 'time' | 'distance' | 'distance_time';
+
+export const TRACKING_MODES: TrackingMode[] = ['weight_reps', 'reps', 'time', 'distance', 'distance_time'];
+
+export const TRACKING_MODE_LABELS: Record<TrackingMode, string> = {
+  weight_reps: 'Weight × reps',
+  reps: 'Reps only',
+  time: 'Time',
+  distance: 'Distance',
+  distance_time: 'Distance + time',
+};
+
+// Exercises saved before tracking modes existed are weight × reps.
+export const getTrackingMode = (exercise: { trackingMode?: TrackingMode | null } | null | undefined): TrackingMode =>
+  exercise?.trackingMode ?? 'weight_reps';
+
+export const tracksReps = (mode: TrackingMode) => mode === 'weight_reps' || mode === 'reps';
+export const tracksWeight = (mode: TrackingMode) => mode === 'weight_reps';
+export const tracksTime = (mode: TrackingMode) => mode === 'time' || mode === 'distance_time';
+export const tracksDistance = (mode: TrackingMode) => mode === 'distance' || mode === 'distance_time';
+
+export const formatDuration = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+// Whole-session lengths read better rounded to the minute ("1h 5m", "42 min").
+export const formatSessionDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes} min`;
+};
+
+/** Accepts plain seconds ("90"), m:ss ("1:30") or h:mm:ss. Returns null when unreadable. */
+export const parseDuration = (value: string): number | null => {
+  const parts = value.trim().split(':');
+  if (!value.trim() || parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+interface TrackedSet {
+  reps?: number | null;
+  weight?: number | null;
+  durationSeconds?: number | null;
+  distanceMeters?: number | null;
+}
+
+/** One-line description of a set in whatever its exercise is measured by. */
+export const formatSetPerformance = (set: TrackedSet, mode: TrackingMode, unit: WeightUnit) => {
+  switch (mode) {
+    case 'reps':
+      return `${set.reps ?? 0} reps`;
+    case 'time':
+      return formatDuration(set.durationSeconds ?? 0);
+    case 'distance':
+      return formatDistance(set.distanceMeters ?? 0, unit);
+    case 'distance_time':
+      return `${formatDistance(set.distanceMeters ?? 0, unit)} in ${formatDuration(set.durationSeconds ?? 0)}`;
+    default:
+      return `${set.reps ?? 0} × ${formatWeight(set.weight ?? 0, unit)}`;
+  }
+};
+
+/** Orders two sets by what their exercise is measured by; positive when a is the better set. */
+export const compareSetPerformance = (a: TrackedSet, b: TrackedSet, mode: TrackingMode) => {
+  switch (mode) {
+    case 'reps':
+      return (a.reps ?? 0) - (b.reps ?? 0);
+    case 'time':
+      return (a.durationSeconds ?? 0) - (b.durationSeconds ?? 0);
+    case 'distance':
+    case 'distance_time':
+      return (a.distanceMeters ?? 0) - (b.distanceMeters ?? 0);
+    default:
+      return (a.weight ?? 0) - (b.weight ?? 0) || (a.reps ?? 0) - (b.reps ?? 0);
+  }
+};
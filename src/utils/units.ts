@@ -0,0 +1,56 @@
+// Weights are stored in pounds everywhere (routines, logged sets, personal
+// bests, drafts and the offline outbox). They are converted only when shown
+// to, or typed in by, someone who trains in kilograms.
+
+export type WeightUnit = 'kg' | 'lb';
+
+const LB_PER_KG = 2.2046226218;
+
+// Displayed weights snap to the smallest change plates that are commonly
+// available, so a round trip through the other unit doesn't show 61.23 kg.
+const DISPLAY_INCREMENT: Record<WeightUnit, number> = { kg: 0.25, lb: 0.5 };
+
+// A single +/- step when adjusting a set: the smallest pair of standard plates.
+export const WEIGHT_STEP: Record<WeightUnit, number> = { kg: 2.5, lb: 5 };
+
+export const getWeightUnit = (user: any): WeightUnit => (user?.prefers_metric_units ? 'kg' : 'lb');
+
+const roundTo = (value: number, increment: number) => Math.round(value / increment) * increment;
+
+export const poundsToUnit = (pounds: number, unit: WeightUnit) => (unit === 'kg' ? pounds / LB_PER_KG : pounds);
+
+export const unitToPounds = (value: number, unit: WeightUnit) =>
+  Math.round((unit === 'kg' ? value * LB_PER_KG : value) * 100) / 100;
+
+export const toDisplayWeight = (pounds: number, unit: WeightUnit) =>
+  roundTo(poundsToUnit(pounds, unit), DISPLAY_INCREMENT[unit]);
+
+export const fromDisplayWeight = (value: number, unit: WeightUnit) =>
+  unitToPounds(roundTo(value, DISPLAY_INCREMENT[unit]), unit);
+
+export const formatWeight = (pounds: number, unit: WeightUnit) =>
+  `${toDisplayWeight(pounds, unit).toLocaleString()} ${unit}`;
+
+// Session volume is a large total, so it is shown to the nearest whole unit.
+export const formatVolume = (pounds: number, unit: WeightUnit) =>
+  `${Math.round(poundsToUnit(pounds, unit)).toLocaleString()} ${unit}`;
+
+// Distances are stored in metres and shown in kilometres or miles, following
+// the same metric preference as weights.
+export type DistanceUnit = 'km' | 'mi';
+
+const METERS_PER_UNIT: Record<DistanceUnit, number> = { km: 1000, mi: 1609.344 };
+
+export const getDistanceUnit = (unit: WeightUnit): DistanceUnit => (unit === 'kg' ? 'km' : 'mi');
+
+export const toDisplayDistance = (meters: number, unit: WeightUnit) =>
+  Math.round((meters / METERS_PER_UNIT[getDistanceUnit(unit)]) * 100) / 100;
+
+export const fromDisplayDistance = (value: number, unit: WeightUnit) =>
+  Math.round(value * METERS_PER_UNIT[getDistanceUnit(unit)] * 100) / 100;
+
+// Short metric efforts (a 500 m row) read better in metres than as 0.5 km.
+export const formatDistance = (meters: number, unit: WeightUnit) =>
+  unit === 'kg' && meters < 1000
+    ? `${Math.round(meters).toLocaleString()} m`
+    : `${toDisplayDistance(meters, unit).toLocaleString()} ${getDistanceUnit(unit)}`;
@@ -0,0 +1,349 @@
+import { useEffect, useState } from 'react';
+import { projectId } from './supabase/info';
+
+// Workouts are written to IndexedDB before they are sent, so a session logged
+// without signal survives until the device is back online.
+
+const DB_NAME = 'fitness-pwa';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'workoutOutbox';
+const ACTIVE_SESSION_STORE = 'activeSessions';
+
+// Quick workouts have no routine, so their draft is stored under a fixed key.
+export const FREESTYLE_SESSION_KEY = 'freestyle';
+
+export interface WorkoutPayload {
+  clientSessionId: string;
+  routineId: string | null;
+  // The routine version the session was started from.
+  routineVersionId?: string | null;
+  date: string;
+  durationSeconds?: number | null;
+  clientNotes?: string | null;
+  perceivedEffort?: number | null;
+  exercises: Array<{
+    routineExerciseId?: string;
+    exerciseId?: string;
+    name?: string;
+    substitutedForExerciseId?: string | null;
+    sets: Array<Record<string, unknown>>;
+  }>;
+  intervalBlocks?: Array<Record<string, unknown>>;
+}
+
+export interface OutboxEntry {
+  id: string;
+  routineName: string;
+  payload: WorkoutPayload;
+  createdAt: string;
+  attempts: number;
+  status: 'pending' | 'failed';
+  lastError: string | null;
+}
+
+export interface ActiveSession {
+  sessionId: string;
+  routineId: string;
+  // The routine version the session was started from; missing on older drafts.
+  routineVersionId?: string | null;
+  exercises?: Array<Record<string, unknown>>;
+  currentExerciseIndex: number;
+  exerciseLogs: Record<number, Array<Record<string, unknown>>>;
+  intervalLogs?: Record<string, Record<string, unknown>>;
+  startedAt: string;
+  updatedAt: string;
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+let flushPromise: Promise<void> | null = null;
+// Set when flushOutbox is called mid-run so entries queued meanwhile get their own pass.
+let pendingFlush: { includeFailed: boolean } | null = null;
+const listeners = new Set<OutboxListener>();
+
+const openDatabase = () => {
+  if (databasePromise) {
+    return databasePromise;
+  }
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ACTIVE_SESSION_STORE)) {
+        db.createObjectStore(ACTIVE_SESSION_STORE, { keyPath: 'routineId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const generateClientId = () => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+};
+
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  try {
+    const entries = await runRequest<OutboxEntry[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll());
+    return (entries || []).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error('Failed to read workout outbox', error);
+    return [];
+  }
+};
+
+const notifyListeners = async () => {
+  const entries = await getOutboxEntries();
+  listeners.forEach((listener) => listener(entries));
+};
+
+export const subscribeToOutbox = (listener: OutboxListener) => {
+  listeners.add(listener);
+  getOutboxEntries().then(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const enqueueWorkout = async (entry: { id: string; routineName: string; payload: WorkoutPayload }) => {
+  const outboxEntry: OutboxEntry = {
+    ...entry,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    status: 'pending',
+    lastError: null,
+  };
+
+  await runRequest(OUTBOX_STORE, 'readwrite', (store) => store.put(outboxEntry));
+  await notifyListeners();
+  return outboxEntry;
+};
+
+export const removeOutboxEntry = async (id: string) => {
+  await runRequest(OUTBOX_STORE, 'readwrite', (store) => store.delete(id));
+  await notifyListeners();
+};
+
+/** Posts a finished workout straight to the server, bypassing the queue. */
+export const postWorkout = async (payload: WorkoutPayload, token: string) => {
+  const response = await fetch(
+    `https://${projectId}.supabase.co/functions/v1/make-server-d58ce8ef/client/log-workout`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (response.ok) {
+    return { ok: true as const };
+  }
+
+  const data = await response.json().catch(() => ({}));
+  return { ok: false as const, status: response.status, error: data.error || `Request failed (${response.status})` };
+};
+
+const sendEntry = (entry: OutboxEntry, token: string) => postWorkout(entry.payload, token);
+
+// Auth, timeout, rate-limit and server errors are worth retrying; any other
+// client error means the payload itself was rejected and needs attention.
+const isRetryableStatus = (status: number) =>
+  status === 401 || status === 408 || status === 429 || status >= 500;
+
+const replayEntries = async (token: string, includeFailed: boolean) => {
+  const entries = await getOutboxEntries();
+  for (const entry of entries) {
+    if (entry.status === 'failed' && !includeFailed) {
+      continue;
+    }
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      break;
+    }
+
+    try {
+      const result = await sendEntry(entry, token);
+      if (result.ok) {
+        await runRequest(OUTBOX_STORE, 'readwrite', (store) => store.delete(entry.id));
+        continue;
+      }
+
+      await runRequest(OUTBOX_STORE, 'readwrite', (store) =>
+        store.put({
+          ...entry,
+          attempts: entry.attempts + 1,
+          status: isRetryableStatus(result.status) ? 'pending' : 'failed',
+          lastError: result.error,
+        })
+      );
+
+      if (result.status === 401) {
+        break;
+      }
+    } catch (error: any) {
+      // Network failure: keep the entry pending and stop until connectivity returns.
+      console.error('Workout sync failed', error);
+      await runRequest(OUTBOX_STORE, 'readwrite', (store) =>
+        store.put({
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastError: error?.message ?? 'Network error',
+        })
+      );
+      break;
+    }
+  }
+};
+
+/**
+ * Replays queued workouts in the order they were logged. Concurrent calls share
+ * the same run so a session is never posted twice from this device; a call made
+ * mid-run queues one more pass once the current one finishes.
+ */
+export const flushOutbox = (token: string, options: { includeFailed?: boolean } = {}) => {
+  if (!token) {
+    return Promise.resolve();
+  }
+
+  if (flushPromise) {
+    pendingFlush = { includeFailed: Boolean(pendingFlush?.includeFailed || options.includeFailed) };
+    return flushPromise;
+  }
+
+  flushPromise = (async () => {
+    let includeFailed = Boolean(options.includeFailed);
+    for (;;) {
+      await replayEntries(token, includeFailed);
+      if (!pendingFlush) {
+        break;
+      }
+      includeFailed = pendingFlush.includeFailed;
+      pendingFlush = null;
+    }
+  })()
+    .catch((error) => {
+      console.error('Workout outbox flush error', error);
+    })
+    .finally(async () => {
+      flushPromise = null;
+      pendingFlush = null;
+      await notifyListeners();
+    });
+
+  return flushPromise;
+};
+
+/**
+ * Replays the outbox now and whenever the browser regains connectivity or the
+ * app returns to the foreground.
+ */
+export const startOutboxSync = (token: string) => {
+  const sync = () => {
+    flushOutbox(token);
+  };
+
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') {
+      sync();
+    }
+  };
+
+  sync();
+  window.addEventListener('online', sync);
+  document.addEventListener('visibilitychange', handleVisibility);
+
+  return () => {
+    window.removeEventListener('online', sync);
+    document.removeEventListener('visibilitychange', handleVisibility);
+  };
+};
+
+export function useWorkoutOutbox() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => subscribeToOutbox(setEntries), []);
+
+  return entries;
+}
+
+export const saveActiveSession = async (session: Omit<ActiveSession, 'updatedAt'>) => {
+  try {
+    await runRequest(ACTIVE_SESSION_STORE, 'readwrite', (store) =>
+      store.put({ ...session, updatedAt: new Date().toISOString() })
+    );
+  } catch (error) {
+    console.error('Failed to persist active session', error);
+  }
+};
+
+export const listActiveSessions = async (): Promise<ActiveSession[]> => {
+  try {
+    const sessions = await runRequest<ActiveSession[]>(ACTIVE_SESSION_STORE, 'readonly', (store) => store.getAll());
+    return sessions || [];
+  } catch (error) {
+    console.error('Failed to list active sessions', error);
+    return [];
+  }
+};
+
+export const loadActiveSession = async (routineId: string): Promise<ActiveSession | null> => {
+  try {
+    const session = await runRequest<ActiveSession | undefined>(ACTIVE_SESSION_STORE, 'readonly', (store) =>
+      store.get(routineId)
+    );
+    return session ?? null;
+  } catch (error) {
+    console.error('Failed to load active session', error);
+    return null;
+  }
+};
+
+export const clearActiveSession = async (routineId: string) => {
+  try {
+    await runRequest(ACTIVE_SESSION_STORE, 'readwrite', (store) => store.delete(routineId));
+  } catch (error) {
+    console.error('Failed to clear active session', error);
+  }
+};
@@ -0,0 +1,83 @@
+alter table public.session_logs
+  add column if not exists client_session_id uuid;
+
+create unique index if not exists session_logs_client_session_unique
+  on public.session_logs (client_id, client_session_id)
+  where client_session_id is not null;
+
+-- Inserts a session and all of its sets in a single transaction. Retrying with
+-- the same client_session_id returns the session that was already stored.
+create or replace function public.log_workout_session(
+  p_client_id uuid,
+  p_pt_id uuid,
+  p_routine_id uuid,
+  p_client_session_id uuid,
+  p_performed_at timestamptz,
+  p_sets jsonb
+)
+returns table (
+  logged_session_id uuid,
+  was_duplicate boolean
+)
+language plpgsql
+as $$
+declare
+  v_session_id uuid;
+begin
+  if p_client_session_id is not null then
+    select sl.id into v_session_id
+    from public.session_logs sl
+    where sl.client_id = p_client_id
+      and sl.client_session_id = p_client_session_id;
+
+    if v_session_id is not null then
+      return query select v_session_id, true;
+      return;
+    end if;
+  end if;
+
+  insert into public.session_logs (routine_id, client_id, pt_id, performed_at, client_session_id)
+  values (p_routine_id, p_client_id, p_pt_id, coalesce(p_performed_at, now()), p_client_session_id)
+  on conflict (client_id, client_session_id) where client_session_id is not null do nothing
+  returning id into v_session_id;
+
+  -- A concurrent retry inserted the same session first.
+  if v_session_id is null then
+    select sl.id into v_session_id
+    from public.session_logs sl
+    where sl.client_id = p_client_id
+      and sl.client_session_id = p_client_session_id;
+
+    return query select v_session_id, true;
+    return;
+  end if;
+
+  insert into public.session_log_sets (
+    session_log_id,
+    exercise_id,
+    set_number,
+    logged_weight,
+    logged_reps,
+    logged_rpe,
+    actual_rest_seconds
+  )
+  select
+    v_session_id,
+    s.exercise_id,
+    s.set_number,
+    s.logged_weight,
+    s.logged_reps,
+    s.logged_rpe,
+    s.actual_rest_seconds
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(
+    exercise_id uuid,
+    set_number smallint,
+    logged_weight numeric,
+    logged_reps smallint,
+    logged_rpe numeric,
+    actual_rest_seconds integer
+  );
+
+  return query select v_session_id, false;
+end;
+$$;
@@ -0,0 +1,100 @@
+drop function if exists public.log_workout_session(uuid, uuid, uuid, uuid, timestamptz, jsonb);
+
+create or replace function public.log_workout_session(
+  p_client_id uuid,
+  p_pt_id uuid,
+  p_routine_id uuid,
+  p_client_session_id uuid,
+  p_performed_at timestamptz,
+  p_sets jsonb,
+  p_duration_seconds integer default null,
+  p_client_notes text default null,
+  p_perceived_effort numeric default null
+)
+returns table (
+  logged_session_id uuid,
+  was_duplicate boolean
+)
+language plpgsql
+as $$
+declare
+  v_session_id uuid;
+begin
+  if p_client_session_id is not null then
+    select sl.id into v_session_id
+    from public.session_logs sl
+    where sl.client_id = p_client_id
+      and sl.client_session_id = p_client_session_id;
+
+    if v_session_id is not null then
+      return query select v_session_id, true;
+      return;
+    end if;
+  end if;
+
+  insert into public.session_logs (
+    routine_id,
+    client_id,
+    pt_id,
+    performed_at,
+    client_session_id,
+    duration_seconds,
+    client_notes,
+    perceived_effort
+  )
+  values (
+    p_routine_id,
+    p_client_id,
+    p_pt_id,
+    coalesce(p_performed_at, now()),
+    p_client_session_id,
+    p_duration_seconds,
+    p_client_notes,
+    p_perceived_effort
+  )
+  on conflict (client_id, client_session_id) where client_session_id is not null do nothing
+  returning id into v_session_id;
+
+  -- A concurrent retry inserted the same session first.
+  if v_session_id is null then
+    select sl.id into v_session_id
+    from public.session_logs sl
+    where sl.client_id = p_client_id
+      and sl.client_session_id = p_client_session_id;
+
+    return query select v_session_id, true;
+    return;
+  end if;
+
+  insert into public.session_log_sets (
+    session_log_id,
+    exercise_id,
+    set_number,
+    logged_weight,
+    logged_reps,
+    logged_rpe,
+    actual_rest_seconds,
+    completed_at
+  )
+  select
+    v_session_id,
+    s.exercise_id,
+    s.set_number,
+    s.logged_weight,
+    s.logged_reps,
+    s.logged_rpe,
+    s.actual_rest_seconds,
+    s.completed_at
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(
+    exercise_id uuid,
+    set_number smallint,
+    logged_weight numeric,
+    logged_reps smallint,
+    logged_rpe numeric,
+    actual_rest_seconds integer,
+    completed_at timestamptz
+  );
+
+  return query select v_session_id, false;
+end;
+$$;
@@ -0,0 +1,20 @@
+-- In-progress workouts mirrored from the client so an interrupted session can
+-- be resumed, including from another device.
+create table if not exists public.session_drafts (
+  id                      uuid primary key default gen_random_uuid(),
+  client_id               uuid not null references public.profiles(id) on delete cascade,
+  routine_id              uuid not null references public.routines(id) on delete cascade,
+  client_session_id       uuid not null,
+  current_exercise_index  integer not null default 0 check (current_exercise_index >= 0),
+  exercise_logs           jsonb not null default '{}'::jsonb,
+  started_at              timestamptz not null default now(),
+  created_at              timestamptz not null default now(),
+  updated_at              timestamptz not null default now()
+);
+
+create unique index if not exists session_drafts_client_routine_key
+  on public.session_drafts (client_id, routine_id);
+
+create trigger touch_session_drafts_updated_at
+  before update on public.session_drafts
+  for each row execute function public.touch_updated_at();
@@ -0,0 +1,68 @@
+-- Replaces the sets of a logged session in one transaction. Sets carrying an
+-- id are updated in place (keeping their timing data), sets without one are
+-- inserted and any existing set missing from p_sets is removed.
+create or replace function public.update_workout_session_sets(
+  p_session_log_id uuid,
+  p_sets jsonb
+)
+returns void
+language plpgsql
+as $$
+begin
+  delete from public.session_log_sets sls
+  where sls.session_log_id = p_session_log_id
+    and not exists (
+      select 1
+      from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(id uuid)
+      where s.id = sls.id
+    );
+
+  update public.session_log_sets sls
+  set
+    exercise_id = s.exercise_id,
+    set_number = s.set_number,
+    logged_weight = s.logged_weight,
+    logged_reps = s.logged_reps,
+    logged_rpe = s.logged_rpe,
+    substituted_for_exercise_id = s.substituted_for_exercise_id
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(
+    id uuid,
+    exercise_id uuid,
+    set_number smallint,
+    logged_weight numeric,
+    logged_reps smallint,
+    logged_rpe numeric,
+    substituted_for_exercise_id uuid
+  )
+  where sls.id = s.id
+    and sls.session_log_id = p_session_log_id;
+
+  insert into public.session_log_sets (
+    session_log_id,
+    exercise_id,
+    set_number,
+    logged_weight,
+    logged_reps,
+    logged_rpe,
+    substituted_for_exercise_id
+  )
+  select
+    p_session_log_id,
+    s.exercise_id,
+    s.set_number,
+    s.logged_weight,
+    s.logged_reps,
+    s.logged_rpe,
+    s.substituted_for_exercise_id
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(
+    id uuid,
+    exercise_id uuid,
+    set_number smallint,
+    logged_weight numeric,
+    logged_reps smallint,
+    logged_rpe numeric,
+    substituted_for_exercise_id uuid
+  )
+  where s.id is null;
+end;
+$$;
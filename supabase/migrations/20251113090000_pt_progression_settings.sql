@@ -0,0 +1,14 @@
+-- How a PT wants their clients' targets to progress from one session to the next.
+create table if not exists public.pt_progression_settings (
+  pt_id             uuid primary key references public.profiles(id) on delete cascade,
+  strategy          text not null default 'double_progression'
+                      check (strategy in ('double_progression', 'fixed_increment', 'none')),
+  weight_increment  numeric(6,2) not null default 5 check (weight_increment > 0),
+  max_rpe           numeric(3,1) not null default 9 check (max_rpe >= 0 and max_rpe <= 10),
+  created_at        timestamptz not null default now(),
+  updated_at        timestamptz not null default now()
+);
+
+create trigger touch_pt_progression_settings_updated_at
+  before update on public.pt_progression_settings
+  for each row execute function public.touch_updated_at();
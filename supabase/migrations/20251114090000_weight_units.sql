@@ -0,0 +1,10 @@
+-- Weights are stored in pounds throughout; prefers_metric_units only changes
+-- how they are displayed and entered. Recorded here so the unit isn't implicit.
+comment on column public.profiles.prefers_metric_units is
+  'Show and enter weights in kilograms. Stored weights are always pounds.';
+comment on column public.routine_exercises.prescribed_weight is 'Pounds.';
+comment on column public.routine_exercise_sets.target_weight is 'Pounds.';
+comment on column public.session_log_sets.logged_weight is 'Pounds.';
+comment on column public.personal_bests.metric_value is
+  'Pounds for weight metrics, pound-reps for tonnage, reps for reps_at_weight:<pounds>.';
+comment on column public.pt_progression_settings.weight_increment is 'Pounds.';
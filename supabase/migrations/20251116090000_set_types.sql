@@ -0,0 +1,16 @@
+-- Set types let a PT prescribe (and a client log) more than straight working
+-- sets. Only warm-ups are left out of volume and personal bests; drop sets,
+-- AMRAP, failure and rest-pause sets are all hard sets.
+alter table public.session_log_sets
+  drop constraint if exists session_log_sets_set_type_check;
+
+alter table public.session_log_sets
+  add constraint session_log_sets_set_type_check
+    check (set_type in ('working', 'warmup', 'drop', 'amrap', 'failure', 'rest_pause'));
+
+alter table public.routine_exercise_sets
+  add column if not exists set_type text not null default 'working';
+
+alter table public.routine_exercise_sets
+  add constraint routine_exercise_sets_set_type_check
+    check (set_type in ('working', 'warmup', 'drop', 'amrap', 'failure', 'rest_pause'));
@@ -0,0 +1,257 @@
+-- How an exercise is measured. Planks are held for time, rows and runs cover a
+-- distance, pull-ups are counted without a load.
+alter table public.exercises_catalog
+  add column if not exists tracking_mode text not null default 'weight_reps';
+
+alter table public.exercises_catalog
+  add constraint exercises_catalog_tracking_mode_check
+    check (tracking_mode in ('weight_reps', 'reps', 'time', 'distance', 'distance_time'));
+
+alter table public.routine_exercise_sets
+  add column if not exists target_duration_seconds integer
+    check (target_duration_seconds is null or target_duration_seconds > 0),
+  add column if not exists target_distance_meters numeric(9,2)
+    check (target_distance_meters is null or target_distance_meters > 0);
+
+alter table public.session_log_sets
+  add column if not exists logged_duration_seconds integer
+    check (logged_duration_seconds is null or logged_duration_seconds >= 0),
+  add column if not exists logged_distance_meters numeric(9,2)
+    check (logged_distance_meters is null or logged_distance_meters >= 0);
+
+comment on column public.routine_exercise_sets.target_distance_meters is 'Metres.';
+comment on column public.session_log_sets.logged_distance_meters is 'Metres.';
+
+-- The return type changes, so the function has to be dropped first.
+drop function if exists public.search_pt_exercises(uuid, text, integer);
+
+create function public.search_pt_exercises(
+  pt_uuid uuid,
+  search_query text,
+  result_limit integer default 10
+)
+returns table (
+  id uuid,
+  name text,
+  primary_muscle_group text,
+  equipment_required text,
+  default_rest_seconds integer,
+  instruction_notes text,
+  video_link text,
+  tracking_mode text,
+  similarity_score real
+)
+language sql
+stable
+as $$
+  select
+    ec.id,
+    ec.name,
+    ec.primary_muscle_group,
+    ec.equipment_required,
+    ec.default_rest_seconds,
+    ec.instruction_notes,
+    ec.video_link,
+    ec.tracking_mode,
+    similarity(ec.name, coalesce(search_query, '')) as similarity_score
+  from public.exercises_catalog ec
+  where ec.pt_id = pt_uuid
+    and (
+      search_query is null
+      or search_query = ''
+      or ec.name ilike '%' || search_query || '%'
+      or similarity(ec.name, search_query) > 0.2
+    )
+  order by
+    case when search_query is null or search_query = '' then 1 else 0 end,
+    similarity(ec.name, coalesce(search_query, '')) desc,
+    ec.name asc
+  limit greatest(coalesce(result_limit, 10), 1)
+$$;
+
+create or replace function public.log_workout_session(
+  p_client_id uuid,
+  p_pt_id uuid,
+  p_routine_id uuid,
+  p_client_session_id uuid,
+  p_performed_at timestamptz,
+  p_sets jsonb,
+  p_duration_seconds integer default null,
+  p_client_notes text default null,
+  p_perceived_effort numeric default null
+)
+returns table (
+  logged_session_id uuid,
+  was_duplicate boolean
+)
+language plpgsql
+as $$
+declare
+  v_session_id uuid;
+begin
+  if p_client_session_id is not null then
+    select sl.id into v_session_id
+    from public.session_logs sl
+    where sl.client_id = p_client_id
+      and sl.client_session_id = p_client_session_id;
+
+    if v_session_id is not null then
+      return query select v_session_id, true;
+      return;
+    end if;
+  end if;
+
+  insert into public.session_logs (
+    routine_id,
+    client_id,
+    pt_id,
+    performed_at,
+    client_session_id,
+    duration_seconds,
+    client_notes,
+    perceived_effort
+  )
+  values (
+    p_routine_id,
+    p_client_id,
+    p_pt_id,
+    coalesce(p_performed_at, now()),
+    p_client_session_id,
+    p_duration_seconds,
+    p_client_notes,
+    p_perceived_effort
+  )
+  on conflict (client_id, client_session_id) where client_session_id is not null do nothing
+  returning id into v_session_id;
+
+  -- A concurrent retry inserted the same session first.
+  if v_session_id is null then
+    select sl.id into v_session_id
+    from public.session_logs sl
+    where sl.client_id = p_client_id
+      and sl.client_session_id = p_client_session_id;
+
+    return query select v_session_id, true;
+    return;
+  end if;
+
+  insert into public.session_log_sets (
+    session_log_id,
+    exercise_id,
+    set_number,
+    logged_weight,
+    logged_reps,
+    logged_rpe,
+    actual_rest_seconds,
+    completed_at,
+    substituted_for_exercise_id,
+    set_type,
+    logged_duration_seconds,
+    logged_distance_meters
+  )
+  select
+    v_session_id,
+    s.exercise_id,
+    s.set_number,
+    s.logged_weight,
+    s.logged_reps,
+    s.logged_rpe,
+    s.actual_rest_seconds,
+    s.completed_at,
+    s.substituted_for_exercise_id,
+    coalesce(s.set_type, 'working'),
+    s.logged_duration_seconds,
+    s.logged_distance_meters
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(
+    exercise_id uuid,
+    set_number smallint,
+    logged_weight numeric,
+    logged_reps smallint,
+    logged_rpe numeric,
+    actual_rest_seconds integer,
+    completed_at timestamptz,
+    substituted_for_exercise_id uuid,
+    set_type text,
+    logged_duration_seconds integer,
+    logged_distance_meters numeric
+  );
+
+  return query select v_session_id, false;
+end;
+$$;
+
+create or replace function public.update_workout_session_sets(
+  p_session_log_id uuid,
+  p_sets jsonb
+)
+returns void
+language plpgsql
+as $$
+begin
+  delete from public.session_log_sets sls
+  where sls.session_log_id = p_session_log_id
+    and not exists (
+      select 1
+      from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(id uuid)
+      where s.id = sls.id
+    );
+
+  update public.session_log_sets sls
+  set
+    exercise_id = s.exercise_id,
+    set_number = s.set_number,
+    logged_weight = s.logged_weight,
+    logged_reps = s.logged_reps,
+    logged_rpe = s.logged_rpe,
+    substituted_for_exercise_id = s.substituted_for_exercise_id,
+    logged_duration_seconds = s.logged_duration_seconds,
+    logged_distance_meters = s.logged_distance_meters
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(
+    id uuid,
+    exercise_id uuid,
+    set_number smallint,
+    logged_weight numeric,
+    logged_reps smallint,
+    logged_rpe numeric,
+    substituted_for_exercise_id uuid,
+    logged_duration_seconds integer,
+    logged_distance_meters numeric
+  )
+  where sls.id = s.id
+    and sls.session_log_id = p_session_log_id;
+
+  insert into public.session_log_sets (
+    session_log_id,
+    exercise_id,
+    set_number,
+    logged_weight,
+    logged_reps,
+    logged_rpe,
+    substituted_for_exercise_id,
+    logged_duration_seconds,
+    logged_distance_meters
+  )
+  select
+    p_session_log_id,
+    s.exercise_id,
+    s.set_number,
+    s.logged_weight,
+    s.logged_reps,
+    s.logged_rpe,
+    s.substituted_for_exercise_id,
+    s.logged_duration_seconds,
+    s.logged_distance_meters
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(
+    id uuid,
+    exercise_id uuid,
+    set_number smallint,
+    logged_weight numeric,
+    logged_reps smallint,
+    logged_rpe numeric,
+    substituted_for_exercise_id uuid,
+    logged_duration_seconds integer,
+    logged_distance_meters numeric
+  )
+  where s.id is null;
+end;
+$$;
@@ -0,0 +1,27 @@
+-- Supersets, giant sets and circuits. Exercises in a group sit next to each
+-- other by position and are performed one set each per round; rest is taken
+-- once the whole round is done.
+create table if not exists public.routine_exercise_groups (
+  id            uuid primary key default gen_random_uuid(),
+  routine_id    uuid not null references public.routines(id) on delete cascade,
+  kind          text not null default 'superset'
+                  check (kind in ('superset', 'giant_set', 'circuit')),
+  rounds        smallint not null default 3 check (rounds between 1 and 20),
+  rest_seconds  integer check (rest_seconds is null or rest_seconds >= 0),
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now()
+);
+
+create index if not exists routine_exercise_groups_routine_idx
+  on public.routine_exercise_groups (routine_id);
+
+create trigger touch_routine_exercise_groups_updated_at
+  before update on public.routine_exercise_groups
+  for each row execute function public.touch_updated_at();
+
+alter table public.routine_exercises
+  add column if not exists group_id uuid
+    references public.routine_exercise_groups(id) on delete set null;
+
+create index if not exists routine_exercises_group_idx
+  on public.routine_exercises (group_id);
@@ -0,0 +1,13 @@
+-- Structured targets that coaches used to write into notes. Tempo is
+-- eccentric-pause-concentric-pause in seconds (X for explosive); effort is
+-- reps in reserve or RPE; load can be a percentage of the client's estimated
+-- one-rep max, worked out per client when the routine is fetched.
+alter table public.routine_exercise_sets
+  add column if not exists tempo text
+    check (tempo is null or tempo ~ '^([0-9]{1,2}|X)(-([0-9]{1,2}|X)){3}$'),
+  add column if not exists target_rir smallint
+    check (target_rir is null or target_rir between 0 and 10),
+  add column if not exists target_rpe numeric(3,1)
+    check (target_rpe is null or target_rpe between 1 and 10),
+  add column if not exists percent_one_rep_max numeric(5,2)
+    check (percent_one_rep_max is null or (percent_one_rep_max > 0 and percent_one_rep_max <= 100));
@@ -0,0 +1,187 @@
+-- Conditioning finishers prescribed as timed blocks after a routine's
+-- exercises. How the timing columns are read depends on the kind:
+--   emom    rounds = minutes, work_seconds = length of each interval
+--   amrap   work_seconds = time cap; the client counts the rounds they get through
+--   tabata  rounds of work_seconds on, rest_seconds off
+--   custom  intervals is the sequence for one round, repeated rounds times
+create table if not exists public.routine_interval_blocks (
+  id            uuid primary key default gen_random_uuid(),
+  routine_id    uuid not null references public.routines(id) on delete cascade,
+  position      smallint not null default 0,
+  kind          text not null check (kind in ('emom', 'amrap', 'tabata', 'custom')),
+  name          text check (name is null or char_length(name) <= 60),
+  notes         text,
+  rounds        smallint not null default 1 check (rounds between 1 and 100),
+  work_seconds  integer check (work_seconds is null or work_seconds > 0),
+  rest_seconds  integer check (rest_seconds is null or rest_seconds >= 0),
+  -- [{ "label": "Row", "seconds": 40, "phase": "work" | "rest" }, ...]
+  intervals     jsonb check (intervals is null or jsonb_typeof(intervals) = 'array'),
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now()
+);
+
+create index if not exists routine_interval_blocks_routine_idx
+  on public.routine_interval_blocks (routine_id, position);
+
+create trigger touch_routine_interval_blocks_updated_at
+  before update on public.routine_interval_blocks
+  for each row execute function public.touch_updated_at();
+
+-- What the client got through. The kind and name are copied so the log still
+-- reads correctly after the routine changes.
+create table if not exists public.session_log_interval_blocks (
+  id                         uuid primary key default gen_random_uuid(),
+  session_log_id             uuid not null references public.session_logs(id) on delete cascade,
+  routine_interval_block_id  uuid references public.routine_interval_blocks(id) on delete set null,
+  kind                       text not null check (kind in ('emom', 'amrap', 'tabata', 'custom')),
+  name                       text,
+  rounds_completed           smallint not null default 0 check (rounds_completed >= 0),
+  -- Reps into an unfinished AMRAP round.
+  extra_reps                 smallint check (extra_reps is null or extra_reps >= 0),
+  duration_seconds           integer check (duration_seconds is null or duration_seconds >= 0),
+  created_at                 timestamptz not null default now()
+);
+
+create index if not exists session_log_interval_blocks_session_idx
+  on public.session_log_interval_blocks (session_log_id);
+
+-- A new parameter changes the signature, so the old function has to go first.
+drop function if exists public.log_workout_session(uuid, uuid, uuid, uuid, timestamptz, jsonb, integer, text, numeric);
+
+create function public.log_workout_session(
+  p_client_id uuid,
+  p_pt_id uuid,
+  p_routine_id uuid,
+  p_client_session_id uuid,
+  p_performed_at timestamptz,
+  p_sets jsonb,
+  p_duration_seconds integer default null,
+  p_client_notes text default null,
+  p_perceived_effort numeric default null,
+  p_interval_blocks jsonb default null
+)
+returns table (
+  logged_session_id uuid,
+  was_duplicate boolean
+)
+language plpgsql
+as $$
+declare
+  v_session_id uuid;
+begin
+  if p_client_session_id is not null then
+    select sl.id into v_session_id
+    from public.session_logs sl
+    where sl.client_id = p_client_id
+      and sl.client_session_id = p_client_session_id;
+
+    if v_session_id is not null then
+      return query select v_session_id, true;
+      return;
+    end if;
+  end if;
+
+  insert into public.session_logs (
+    routine_id,
+    client_id,
+    pt_id,
+    performed_at,
+    client_session_id,
+    duration_seconds,
+    client_notes,
+    perceived_effort
+  )
+  values (
+    p_routine_id,
+    p_client_id,
+    p_pt_id,
+    coalesce(p_performed_at, now()),
+    p_client_session_id,
+    p_duration_seconds,
+    p_client_notes,
+    p_perceived_effort
+  )
+  on conflict (client_id, client_session_id) where client_session_id is not null do nothing
+  returning id into v_session_id;
+
+  -- A concurrent retry inserted the same session first.
+  if v_session_id is null then
+    select sl.id into v_session_id
+    from public.session_logs sl
+    where sl.client_id = p_client_id
+      and sl.client_session_id = p_client_session_id;
+
+    return query select v_session_id, true;
+    return;
+  end if;
+
+  insert into public.session_log_sets (
+    session_log_id,
+    exercise_id,
+    set_number,
+    logged_weight,
+    logged_reps,
+    logged_rpe,
+    actual_rest_seconds,
+    completed_at,
+    substituted_for_exercise_id,
+    set_type,
+    logged_duration_seconds,
+    logged_distance_meters
+  )
+  select
+    v_session_id,
+    s.exercise_id,
+    s.set_number,
+    s.logged_weight,
+    s.logged_reps,
+    s.logged_rpe,
+    s.actual_rest_seconds,
+    s.completed_at,
+    s.substituted_for_exercise_id,
+    coalesce(s.set_type, 'working'),
+    s.logged_duration_seconds,
+    s.logged_distance_meters
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(
+    exercise_id uuid,
+    set_number smallint,
+    logged_weight numeric,
+    logged_reps smallint,
+    logged_rpe numeric,
+    actual_rest_seconds integer,
+    completed_at timestamptz,
+    substituted_for_exercise_id uuid,
+    set_type text,
+    logged_duration_seconds integer,
+    logged_distance_meters numeric
+  );
+
+  insert into public.session_log_interval_blocks (
+    session_log_id,
+    routine_interval_block_id,
+    kind,
+    name,
+    rounds_completed,
+    extra_reps,
+    duration_seconds
+  )
+  select
+    v_session_id,
+    b.routine_interval_block_id,
+    b.kind,
+    b.name,
+    coalesce(b.rounds_completed, 0),
+    b.extra_reps,
+    b.duration_seconds
+  from jsonb_to_recordset(coalesce(p_interval_blocks, '[]'::jsonb)) as b(
+    routine_interval_block_id uuid,
+    kind text,
+    name text,
+    rounds_completed smallint,
+    extra_reps smallint,
+    duration_seconds integer
+  );
+
+  return query select v_session_id, false;
+end;
+$$;
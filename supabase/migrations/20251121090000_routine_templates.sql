@@ -0,0 +1,18 @@
+-- Routine templates. A template is a routine that belongs to the PT alone:
+-- it has no client, never shows on a client's dashboard and is copied onto
+-- clients as ordinary routines, which remember where they came from.
+alter table public.routines
+  alter column client_id drop not null;
+
+alter table public.routines
+  add column if not exists is_template boolean not null default false,
+  add column if not exists template_id uuid
+    references public.routines(id) on delete set null;
+
+alter table public.routines
+  add constraint routines_template_client_check
+    check (is_template = (client_id is null));
+
+create index if not exists routines_pt_template_idx
+  on public.routines (pt_id)
+  where is_template;
@@ -0,0 +1,43 @@
+-- Multi-week programs. A program runs from its start date for as many weeks
+-- as it has rows in program_weeks; each week scales the load and adds or
+-- removes sets and reps on the program's routines (a deload is just a week
+-- with a lower load). Routines join a program as one of its training days,
+-- and their start_date/end_date mark the weeks (the phase) they run in.
+create table if not exists public.programs (
+  id          uuid primary key default gen_random_uuid(),
+  pt_id       uuid not null references public.profiles(id) on delete cascade,
+  client_id   uuid not null references public.profiles(id) on delete cascade,
+  name        text not null,
+  start_date  date not null,
+  created_at  timestamptz not null default now(),
+  updated_at  timestamptz not null default now()
+);
+
+create index if not exists programs_client_idx
+  on public.programs (client_id, start_date desc);
+
+create trigger touch_programs_updated_at
+  before update on public.programs
+  for each row execute function public.touch_updated_at();
+
+create table if not exists public.program_weeks (
+  id              uuid primary key default gen_random_uuid(),
+  program_id      uuid not null references public.programs(id) on delete cascade,
+  week_number     smallint not null check (week_number between 1 and 52),
+  phase_name      text,
+  is_deload       boolean not null default false,
+  load_percent    numeric(5,2) not null default 100
+                    check (load_percent between 10 and 200),
+  set_adjustment  smallint not null default 0 check (set_adjustment between -10 and 10),
+  rep_adjustment  smallint not null default 0 check (rep_adjustment between -20 and 20),
+  unique (program_id, week_number)
+);
+
+alter table public.routines
+  add column if not exists program_id uuid
+    references public.programs(id) on delete set null,
+  add column if not exists program_day smallint
+    check (program_day is null or program_day between 1 and 14);
+
+create index if not exists routines_program_idx
+  on public.routines (program_id);
@@ -0,0 +1,171 @@
+-- Routine version history. Saving a routine still rewrites its exercise rows,
+-- so every save also records a snapshot of the whole routine as it was
+-- prescribed. Sessions point at the version the client performed, and the PT
+-- can compare versions or restore an old one (which saves it as a new version).
+create table if not exists public.routine_versions (
+  id                        uuid primary key default gen_random_uuid(),
+  routine_id                uuid not null references public.routines(id) on delete cascade,
+  version_number            integer not null check (version_number > 0),
+  -- The routine as the server returns it: name, groups, interval blocks and
+  -- exercises with their sets.
+  snapshot                  jsonb not null check (jsonb_typeof(snapshot) = 'object'),
+  created_by                uuid references public.profiles(id) on delete set null,
+  restored_from_version_id  uuid references public.routine_versions(id) on delete set null,
+  created_at                timestamptz not null default now(),
+  unique (routine_id, version_number)
+);
+
+alter table public.routines
+  add column if not exists current_version_id uuid
+    references public.routine_versions(id) on delete set null;
+
+alter table public.session_logs
+  add column if not exists routine_version_id uuid
+    references public.routine_versions(id) on delete set null;
+
+create index if not exists session_logs_routine_version_idx
+  on public.session_logs (routine_version_id);
+
+-- A new parameter changes the signature, so the old function has to go first.
+drop function if exists public.log_workout_session(uuid, uuid, uuid, uuid, timestamptz, jsonb, integer, text, numeric, jsonb);
+
+create function public.log_workout_session(
+  p_client_id uuid,
+  p_pt_id uuid,
+  p_routine_id uuid,
+  p_client_session_id uuid,
+  p_performed_at timestamptz,
+  p_sets jsonb,
+  p_duration_seconds integer default null,
+  p_client_notes text default null,
+  p_perceived_effort numeric default null,
+  p_interval_blocks jsonb default null,
+  p_routine_version_id uuid default null
+)
+returns table (
+  logged_session_id uuid,
+  was_duplicate boolean
+)
+language plpgsql
+as $$
+declare
+  v_session_id uuid;
+begin
+  if p_client_session_id is not null then
+    select sl.id into v_session_id
+    from public.session_logs sl
+    where sl.client_id = p_client_id
+      and sl.client_session_id = p_client_session_id;
+
+    if v_session_id is not null then
+      return query select v_session_id, true;
+      return;
+    end if;
+  end if;
+
+  insert into public.session_logs (
+    routine_id,
+    routine_version_id,
+    client_id,
+    pt_id,
+    performed_at,
+    client_session_id,
+    duration_seconds,
+    client_notes,
+    perceived_effort
+  )
+  values (
+    p_routine_id,
+    p_routine_version_id,
+    p_client_id,
+    p_pt_id,
+    coalesce(p_performed_at, now()),
+    p_client_session_id,
+    p_duration_seconds,
+    p_client_notes,
+    p_perceived_effort
+  )
+  on conflict (client_id, client_session_id) where client_session_id is not null do nothing
+  returning id into v_session_id;
+
+  -- A concurrent retry inserted the same session first.
+  if v_session_id is null then
+    select sl.id into v_session_id
+    from public.session_logs sl
+    where sl.client_id = p_client_id
+      and sl.client_session_id = p_client_session_id;
+
+    return query select v_session_id, true;
+    return;
+  end if;
+
+  insert into public.session_log_sets (
+    session_log_id,
+    exercise_id,
+    set_number,
+    logged_weight,
+    logged_reps,
+    logged_rpe,
+    actual_rest_seconds,
+    completed_at,
+    substituted_for_exercise_id,
+    set_type,
+    logged_duration_seconds,
+    logged_distance_meters
+  )
+  select
+    v_session_id,
+    s.exercise_id,
+    s.set_number,
+    s.logged_weight,
+    s.logged_reps,
+    s.logged_rpe,
+    s.actual_rest_seconds,
+    s.completed_at,
+    s.substituted_for_exercise_id,
+    coalesce(s.set_type, 'working'),
+    s.logged_duration_seconds,
+    s.logged_distance_meters
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(
+    exercise_id uuid,
+    set_number smallint,
+    logged_weight numeric,
+    logged_reps smallint,
+    logged_rpe numeric,
+    actual_rest_seconds integer,
+    completed_at timestamptz,
+    substituted_for_exercise_id uuid,
+    set_type text,
+    logged_duration_seconds integer,
+    logged_distance_meters numeric
+  );
+
+  insert into public.session_log_interval_blocks (
+    session_log_id,
+    routine_interval_block_id,
+    kind,
+    name,
+    rounds_completed,
+    extra_reps,
+    duration_seconds
+  )
+  select
+    v_session_id,
+    b.routine_interval_block_id,
+    b.kind,
+    b.name,
+    coalesce(b.rounds_completed, 0),
+    b.extra_reps,
+    b.duration_seconds
+  from jsonb_to_recordset(coalesce(p_interval_blocks, '[]'::jsonb)) as b(
+    routine_interval_block_id uuid,
+    kind text,
+    name text,
+    rounds_completed smallint,
+    extra_reps smallint,
+    duration_seconds integer
+  );
+
+  return query select v_session_id, false;
+end;
+$$;
@@ -0,0 +1,112 @@
+-- Rebuilds personal_bests for some of a client's exercises by replaying their
+-- sets in the order they were performed. Runs as one transaction so a failed
+-- refresh never leaves the records cleared or the set flags half updated.
+--
+-- A set is flagged as a personal best when it beats the record that stood
+-- before it; an exercise's first performance sets the baseline without being
+-- flagged. Warm-up sets never count. Returns the records now standing, with
+-- whether the set behind each one was flagged.
+create or replace function public.recompute_personal_bests(
+  p_client_id uuid,
+  p_exercise_ids uuid[]
+)
+returns table (
+  record_exercise_id uuid,
+  record_metric text,
+  record_value numeric,
+  record_set_id uuid,
+  record_session_log_id uuid,
+  record_achieved_at timestamptz,
+  set_flagged boolean
+)
+language plpgsql
+as $$
+begin
+  -- Logging and editing can both trigger a refresh for the same client.
+  perform pg_advisory_xact_lock(hashtext('personal_bests:' || p_client_id::text));
+
+  drop table if exists pb_candidates, pb_flagged;
+
+  create temporary table pb_candidates on commit drop as
+  with history as (
+    select
+      sls.id as set_id,
+      sls.exercise_id,
+      coalesce(sls.logged_weight, 0) as weight,
+      coalesce(sls.logged_reps, 0) as reps,
+      sl.id as session_log_id,
+      sl.performed_at,
+      row_number() over (order by sl.performed_at, sls.set_number, sls.id) as position
+    from public.session_log_sets sls
+    join public.session_logs sl on sl.id = sls.session_log_id
+    where sl.client_id = p_client_id
+      and sls.exercise_id = any(p_exercise_ids)
+      and sls.set_type <> 'warmup'
+      and coalesce(sls.logged_reps, 0) >= 1
+  ),
+  candidates as (
+    select h.*, m.metric, round(m.raw_value, 2) as value
+    from history h
+    cross join lateral (
+      values
+        ('heaviest_weight', case when h.weight > 0 then h.weight end),
+        -- Epley becomes unreliable past ~12 reps, so those sets don't count towards an estimated max.
+        ('estimated_1rm', case
+          when h.weight <= 0 or h.reps > 12 then null
+          when h.reps = 1 then h.weight
+          else h.weight * (1 + h.reps / 30.0)
+        end),
+        ('set_tonnage', case when h.weight > 0 then h.weight * h.reps end),
+        ('reps_at_weight:' || trim_scale(h.weight)::text, h.reps::numeric)
+    ) as m(metric, raw_value)
+    where m.raw_value is not null
+  )
+  select
+    c.*,
+    max(c.value) over (
+      partition by c.exercise_id, c.metric
+      order by c.position
+      rows between unbounded preceding and 1 preceding
+    ) as previous_best
+  from candidates c;
+
+  create temporary table pb_flagged on commit drop as
+  select distinct set_id
+  from pb_candidates
+  where previous_best is not null and value > previous_best;
+
+  update public.session_log_sets sls
+  set is_personal_best = exists (select 1 from pb_flagged f where f.set_id = sls.id)
+  from public.session_logs sl
+  where sl.id = sls.session_log_id
+    and sl.client_id = p_client_id
+    and sls.exercise_id = any(p_exercise_ids)
+    and sls.set_type <> 'warmup'
+    and sls.is_personal_best is distinct from exists (select 1 from pb_flagged f where f.set_id = sls.id);
+
+  delete from public.personal_bests pb
+  where pb.client_id = p_client_id
+    and pb.exercise_id = any(p_exercise_ids);
+
+  -- The standing record is the first set to reach the best value.
+  insert into public.personal_bests (client_id, exercise_id, session_log_set_id, metric, metric_value, achieved_at)
+  select distinct on (c.exercise_id, c.metric)
+    p_client_id, c.exercise_id, c.set_id, c.metric, c.value, c.performed_at
+  from pb_candidates c
+  order by c.exercise_id, c.metric, c.value desc, c.position;
+
+  return query
+  select
+    pb.exercise_id,
+    pb.metric,
+    pb.metric_value,
+    pb.session_log_set_id,
+    sls.session_log_id,
+    pb.achieved_at,
+    exists (select 1 from pb_flagged f where f.set_id = pb.session_log_set_id)
+  from public.personal_bests pb
+  join public.session_log_sets sls on sls.id = pb.session_log_set_id
+  where pb.client_id = p_client_id
+    and pb.exercise_id = any(p_exercise_ids);
+end;
+$$;
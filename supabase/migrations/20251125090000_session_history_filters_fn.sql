@@ -0,0 +1,39 @@
+-- The routines and exercises a client can filter their session history by:
+-- every routine they have logged against (while it still exists), every
+-- exercise they have logged a set of, and a single 'quick' row when they have
+-- logged workouts without a routine. Worked out here rather than by reading
+-- every logged set back into the server.
+create or replace function public.session_history_filters(
+  p_client_id uuid
+)
+returns table (
+  filter_kind text,
+  filter_id uuid,
+  filter_name text
+)
+language sql
+stable
+as $$
+  select distinct 'routine', r.id, r.routine_name
+  from public.session_logs sl
+  join public.routines r on r.id = sl.routine_id
+  where sl.client_id = p_client_id
+
+  union all
+
+  select 'quick', null::uuid, null::text
+  where exists (
+    select 1
+    from public.session_logs sl
+    where sl.client_id = p_client_id
+      and sl.routine_id is null
+  )
+
+  union all
+
+  select distinct 'exercise', ec.id, ec.name
+  from public.session_log_sets sls
+  join public.session_logs sl on sl.id = sls.session_log_id
+  join public.exercises_catalog ec on ec.id = sls.exercise_id
+  where sl.client_id = p_client_id
+$$;
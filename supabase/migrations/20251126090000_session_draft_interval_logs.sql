@@ -0,0 +1,4 @@
+-- Drafts carry the finisher results logged so far, keyed by interval block, so
+-- a session resumed on another device keeps them.
+alter table public.session_drafts
+  add column if not exists interval_logs jsonb not null default '{}'::jsonb;
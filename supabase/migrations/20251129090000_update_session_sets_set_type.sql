@@ -0,0 +1,83 @@
+-- Sets added while editing a session keep the set type they were given, and
+-- existing sets can change type. A set sent without one keeps its current type
+-- (or is a working set when new).
+create or replace function public.update_workout_session_sets(
+  p_session_log_id uuid,
+  p_sets jsonb
+)
+returns void
+language plpgsql
+as $$
+begin
+  delete from public.session_log_sets sls
+  where sls.session_log_id = p_session_log_id
+    and not exists (
+      select 1
+      from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(id uuid)
+      where s.id = sls.id
+    );
+
+  update public.session_log_sets sls
+  set
+    exercise_id = s.exercise_id,
+    set_number = s.set_number,
+    logged_weight = s.logged_weight,
+    logged_reps = s.logged_reps,
+    logged_rpe = s.logged_rpe,
+    substituted_for_exercise_id = s.substituted_for_exercise_id,
+    set_type = coalesce(s.set_type, sls.set_type),
+    logged_duration_seconds = s.logged_duration_seconds,
+    logged_distance_meters = s.logged_distance_meters
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(
+    id uuid,
+    exercise_id uuid,
+    set_number smallint,
+    logged_weight numeric,
+    logged_reps smallint,
+    logged_rpe numeric,
+    substituted_for_exercise_id uuid,
+    set_type text,
+    logged_duration_seconds integer,
+    logged_distance_meters numeric
+  )
+  where sls.id = s.id
+    and sls.session_log_id = p_session_log_id;
+
+  insert into public.session_log_sets (
+    session_log_id,
+    exercise_id,
+    set_number,
+    logged_weight,
+    logged_reps,
+    logged_rpe,
+    substituted_for_exercise_id,
+    set_type,
+    logged_duration_seconds,
+    logged_distance_meters
+  )
+  select
+    p_session_log_id,
+    s.exercise_id,
+    s.set_number,
+    s.logged_weight,
+    s.logged_reps,
+    s.logged_rpe,
+    s.substituted_for_exercise_id,
+    coalesce(s.set_type, 'working'),
+    s.logged_duration_seconds,
+    s.logged_distance_meters
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb)) as s(
+    id uuid,
+    exercise_id uuid,
+    set_number smallint,
+    logged_weight numeric,
+    logged_reps smallint,
+    logged_rpe numeric,
+    substituted_for_exercise_id uuid,
+    set_type text,
+    logged_duration_seconds integer,
+    logged_distance_meters numeric
+  )
+  where s.id is null;
+end;
+$$;
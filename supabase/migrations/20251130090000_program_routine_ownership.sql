@@ -0,0 +1,141 @@
+-- Saves a program, its weeks and its routine schedule in one transaction.
+-- Creates the program when p_program_id is null; otherwise replaces its weeks
+-- and schedule as a whole, sending routines that left it back to running every
+-- week. Every scheduled routine must be one of the client's own routines from
+-- this PT; any other id aborts the save with no_data_found. A routine already
+-- in another of the client's programs aborts it with unique_violation rather
+-- than being moved out of that program.
+create or replace function public.save_program(
+  p_program_id uuid,
+  p_pt_id uuid,
+  p_client_id uuid,
+  p_name text,
+  p_start_date date,
+  p_weeks jsonb,
+  p_routines jsonb
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_program_id uuid;
+  v_expected integer;
+  v_scheduled integer;
+begin
+  if p_program_id is null then
+    insert into public.programs (pt_id, client_id, name, start_date)
+    values (p_pt_id, p_client_id, p_name, p_start_date)
+    returning id into v_program_id;
+  else
+    update public.programs p
+    set name = p_name, start_date = p_start_date
+    where p.id = p_program_id
+      and p.pt_id = p_pt_id
+      and p.client_id = p_client_id
+    returning p.id into v_program_id;
+
+    if v_program_id is null then
+      raise exception 'Program not found' using errcode = 'no_data_found';
+    end if;
+
+    delete from public.program_weeks pw
+    where pw.program_id = v_program_id;
+
+    update public.routines r
+    set program_id = null, program_day = null, start_date = null, end_date = null
+    where r.program_id = v_program_id;
+  end if;
+
+  insert into public.program_weeks (
+    program_id,
+    week_number,
+    phase_name,
+    is_deload,
+    load_percent,
+    set_adjustment,
+    rep_adjustment
+  )
+  select
+    v_program_id,
+    w.week_number,
+    w.phase_name,
+    coalesce(w.is_deload, false),
+    coalesce(w.load_percent, 100),
+    coalesce(w.set_adjustment, 0),
+    coalesce(w.rep_adjustment, 0)
+  from jsonb_to_recordset(coalesce(p_weeks, '[]'::jsonb)) as w(
+    week_number smallint,
+    phase_name text,
+    is_deload boolean,
+    load_percent numeric,
+    set_adjustment smallint,
+    rep_adjustment smallint
+  );
+
+  select count(distinct s.id) into v_expected
+  from jsonb_to_recordset(coalesce(p_routines, '[]'::jsonb)) as s(id uuid);
+
+  update public.routines r
+  set
+    program_id = v_program_id,
+    program_day = s.program_day,
+    start_date = s.start_date,
+    end_date = s.end_date
+  from jsonb_to_recordset(coalesce(p_routines, '[]'::jsonb)) as s(
+    id uuid,
+    program_day smallint,
+    start_date date,
+    end_date date
+  )
+  where r.id = s.id
+    and r.pt_id = p_pt_id
+    and r.client_id = p_client_id
+    and r.program_id is null;
+
+  get diagnostics v_scheduled = row_count;
+  if v_scheduled <> v_expected then
+    if exists (
+      select 1
+      from public.routines r
+      join jsonb_to_recordset(coalesce(p_routines, '[]'::jsonb)) as s(id uuid) on s.id = r.id
+      where r.pt_id = p_pt_id
+        and r.client_id = p_client_id
+        and r.program_id is not null
+    ) then
+      raise exception 'Routine is already in another program' using errcode = 'unique_violation';
+    end if;
+    raise exception 'Routine not found' using errcode = 'no_data_found';
+  end if;
+
+  return v_program_id;
+end;
+$$;
+
+-- Deletes a program and sends its routines back to running every week, in one
+-- transaction. The routines stay with the client.
+create or replace function public.delete_program(
+  p_program_id uuid,
+  p_pt_id uuid
+)
+returns void
+language plpgsql
+as $$
+begin
+  perform 1
+  from public.programs p
+  where p.id = p_program_id
+    and p.pt_id = p_pt_id
+  for update;
+
+  if not found then
+    raise exception 'Program not found' using errcode = 'no_data_found';
+  end if;
+
+  update public.routines r
+  set program_id = null, program_day = null, start_date = null, end_date = null
+  where r.program_id = p_program_id;
+
+  delete from public.programs p
+  where p.id = p_program_id;
+end;
+$$;
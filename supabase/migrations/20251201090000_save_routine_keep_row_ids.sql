@@ -0,0 +1,215 @@
+-- Saves a routine and records it as its next version in one transaction.
+-- Groups, interval blocks and exercises still in the routine keep their ids
+-- and are updated in place, so sessions in progress and logged interval blocks
+-- still point at them; rows left out are deleted and new ones inserted (their
+-- ids are chosen by the caller, so the snapshot can describe the same rows).
+-- Each exercise's sets are replaced as a whole. The routine row is locked while
+-- the version number is worked out, so concurrent saves take turns rather than
+-- colliding on unique (routine_id, version_number).
+--
+-- p_routine carries client_id, is_template and routine_name, and template_id
+-- when it should change. p_previous_snapshot is recorded first for routines
+-- saved before versions were kept. Returns the new version's id.
+create or replace function public.save_routine(
+  p_routine_id uuid,
+  p_is_new boolean,
+  p_pt_id uuid,
+  p_routine jsonb,
+  p_groups jsonb,
+  p_interval_blocks jsonb,
+  p_exercises jsonb,
+  p_snapshot jsonb,
+  p_previous_snapshot jsonb default null,
+  p_created_by uuid default null,
+  p_restored_from_version_id uuid default null
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_is_template boolean := coalesce((p_routine->>'is_template')::boolean, false);
+  v_current_version_id uuid;
+  v_version_id uuid;
+begin
+  if p_is_new then
+    insert into public.routines (id, pt_id, client_id, is_template, routine_name, template_id)
+    values (
+      p_routine_id,
+      p_pt_id,
+      (p_routine->>'client_id')::uuid,
+      v_is_template,
+      p_routine->>'routine_name',
+      (p_routine->>'template_id')::uuid
+    );
+  else
+    -- A template can't be saved as a client's routine, or the other way round.
+    select r.current_version_id into v_current_version_id
+    from public.routines r
+    where r.id = p_routine_id
+      and r.pt_id = p_pt_id
+      and r.is_template = v_is_template
+    for update;
+
+    if not found then
+      raise exception 'Routine not found' using errcode = 'no_data_found';
+    end if;
+
+    if v_current_version_id is null and p_previous_snapshot is not null then
+      insert into public.routine_versions (routine_id, version_number, snapshot)
+      select p_routine_id, coalesce(max(rv.version_number), 0) + 1, p_previous_snapshot
+      from public.routine_versions rv
+      where rv.routine_id = p_routine_id;
+    end if;
+
+    update public.routines r
+    set
+      client_id = (p_routine->>'client_id')::uuid,
+      routine_name = p_routine->>'routine_name',
+      template_id = case when p_routine ? 'template_id' then (p_routine->>'template_id')::uuid else r.template_id end
+    where r.id = p_routine_id;
+
+    delete from public.routine_exercise_sets s
+    using public.routine_exercises re
+    where re.id = s.routine_exercise_id
+      and re.routine_id = p_routine_id;
+  end if;
+
+  insert into public.routine_interval_blocks (
+    id, routine_id, position, kind, name, notes, rounds, work_seconds, rest_seconds, intervals
+  )
+  select b.id, p_routine_id, b.position, b.kind, b.name, b.notes, b.rounds, b.work_seconds, b.rest_seconds, b.intervals
+  from jsonb_to_recordset(coalesce(p_interval_blocks, '[]'::jsonb)) as b(
+    id uuid,
+    position smallint,
+    kind text,
+    name text,
+    notes text,
+    rounds smallint,
+    work_seconds integer,
+    rest_seconds integer,
+    intervals jsonb
+  )
+  -- An id from another routine is never taken over.
+  on conflict (id) do update
+  set
+    position = excluded.position,
+    kind = excluded.kind,
+    name = excluded.name,
+    notes = excluded.notes,
+    rounds = excluded.rounds,
+    work_seconds = excluded.work_seconds,
+    rest_seconds = excluded.rest_seconds,
+    intervals = excluded.intervals
+  where routine_interval_blocks.routine_id = p_routine_id;
+
+  insert into public.routine_exercise_groups (id, routine_id, kind, rounds, rest_seconds)
+  select g.id, p_routine_id, g.kind, g.rounds, g.rest_seconds
+  from jsonb_to_recordset(coalesce(p_groups, '[]'::jsonb)) as g(
+    id uuid,
+    kind text,
+    rounds smallint,
+    rest_seconds integer
+  )
+  on conflict (id) do update
+  set kind = excluded.kind, rounds = excluded.rounds, rest_seconds = excluded.rest_seconds
+  where routine_exercise_groups.routine_id = p_routine_id;
+
+  insert into public.routine_exercises (id, routine_id, exercise_id, group_id, position, notes)
+  select e.id, p_routine_id, e.exercise_id, e.group_id, e.position, e.notes
+  from jsonb_to_recordset(coalesce(p_exercises, '[]'::jsonb)) as e(
+    id uuid,
+    exercise_id uuid,
+    group_id uuid,
+    position integer,
+    notes text
+  )
+  on conflict (id) do update
+  set
+    exercise_id = excluded.exercise_id,
+    group_id = excluded.group_id,
+    position = excluded.position,
+    notes = excluded.notes
+  where routine_exercises.routine_id = p_routine_id;
+
+  -- Removed only now, once the exercises staying no longer point at groups going.
+  delete from public.routine_exercises re
+  where re.routine_id = p_routine_id
+    and re.id not in (
+      select e.id from jsonb_to_recordset(coalesce(p_exercises, '[]'::jsonb)) as e(id uuid)
+    );
+
+  delete from public.routine_exercise_groups g
+  where g.routine_id = p_routine_id
+    and g.id not in (
+      select x.id from jsonb_to_recordset(coalesce(p_groups, '[]'::jsonb)) as x(id uuid)
+    );
+
+  delete from public.routine_interval_blocks b
+  where b.routine_id = p_routine_id
+    and b.id not in (
+      select x.id from jsonb_to_recordset(coalesce(p_interval_blocks, '[]'::jsonb)) as x(id uuid)
+    );
+
+  insert into public.routine_exercise_sets (
+    routine_exercise_id,
+    set_number,
+    target_rep_range,
+    target_reps,
+    target_rest_seconds,
+    target_weight,
+    target_duration_seconds,
+    target_distance_meters,
+    set_type,
+    tempo,
+    target_rir,
+    target_rpe,
+    percent_one_rep_max
+  )
+  select
+    e.id,
+    s.set_number,
+    s.target_rep_range,
+    s.target_reps,
+    s.target_rest_seconds,
+    s.target_weight,
+    s.target_duration_seconds,
+    s.target_distance_meters,
+    coalesce(s.set_type, 'working'),
+    s.tempo,
+    s.target_rir,
+    s.target_rpe,
+    s.percent_one_rep_max
+  from jsonb_to_recordset(coalesce(p_exercises, '[]'::jsonb)) as e(id uuid, routine_exercise_sets jsonb)
+  cross join lateral jsonb_to_recordset(coalesce(e.routine_exercise_sets, '[]'::jsonb)) as s(
+    set_number smallint,
+    target_rep_range text,
+    target_reps smallint,
+    target_rest_seconds integer,
+    target_weight numeric,
+    target_duration_seconds integer,
+    target_distance_meters numeric,
+    set_type text,
+    tempo text,
+    target_rir smallint,
+    target_rpe numeric,
+    percent_one_rep_max numeric
+  );
+
+  insert into public.routine_versions (routine_id, version_number, snapshot, created_by, restored_from_version_id)
+  select
+    p_routine_id,
+    coalesce(max(rv.version_number), 0) + 1,
+    p_snapshot,
+    p_created_by,
+    p_restored_from_version_id
+  from public.routine_versions rv
+  where rv.routine_id = p_routine_id
+  returning id into v_version_id;
+
+  update public.routines r
+  set current_version_id = v_version_id
+  where r.id = p_routine_id;
+
+  return v_version_id;
+end;
+$$;
@@ -0,0 +1,5 @@
+-- Drafts remember the routine version the session was started from, so a
+-- session resumed after the PT changed the routine is still filed against it.
+alter table public.session_drafts
+  add column if not exists routine_version_id uuid
+    references public.routine_versions(id) on delete set null;